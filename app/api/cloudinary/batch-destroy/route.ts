@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { CLOUDINARY_CONFIG_ERROR, configureCloudinary, destroyResources } from '@/lib/cloudinary-server';
+import { CONFIG_MISSING_CODE } from '@/lib/upload-errors';
+
+// 单次请求最多删除的资源数量
+const MAX_BATCH_SIZE = 100;
+
+/**
+ * 批量删除Cloudinary资源
+ * { publicIds: string[] } → { deleted: string[], errors: { publicId, error }[] }
+ */
+export async function POST(request: Request) {
+  if (!configureCloudinary()) {
+    return NextResponse.json({ error: CLOUDINARY_CONFIG_ERROR, code: CONFIG_MISSING_CODE }, { status: 503 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const publicIds: unknown = body?.publicIds;
+  if (!Array.isArray(publicIds) || !publicIds.every(publicId => typeof publicId === 'string' && publicId)) {
+    return NextResponse.json({ error: '请求格式不正确' }, { status: 400 });
+  }
+  if (publicIds.length > MAX_BATCH_SIZE) {
+    return NextResponse.json({ error: `单次最多删除 ${MAX_BATCH_SIZE} 个文件` }, { status: 400 });
+  }
+
+  try {
+    return NextResponse.json(await destroyResources(publicIds));
+  } catch (error) {
+    console.error('批量删除Cloudinary资源失败:', error);
+    return NextResponse.json({ error: '删除文件失败' }, { status: 502 });
+  }
+}
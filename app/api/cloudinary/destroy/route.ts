@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { CLOUDINARY_CONFIG_ERROR, configureCloudinary, destroyResources } from '@/lib/cloudinary-server';
+import { CONFIG_MISSING_CODE } from '@/lib/upload-errors';
+
+/**
+ * 删除单个Cloudinary资源
+ * { publicId } → { deleted: true }
+ */
+export async function POST(request: Request) {
+  if (!configureCloudinary()) {
+    return NextResponse.json({ error: CLOUDINARY_CONFIG_ERROR, code: CONFIG_MISSING_CODE }, { status: 503 });
+  }
+
+  const body = await request.json().catch(() => null);
+  if (typeof body?.publicId !== 'string' || !body.publicId) {
+    return NextResponse.json({ error: '请求格式不正确' }, { status: 400 });
+  }
+
+  try {
+    const { errors } = await destroyResources([body.publicId]);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: errors[0].error }, { status: 403 });
+    }
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error('删除Cloudinary资源失败:', error);
+    return NextResponse.json({ error: '删除文件失败' }, { status: 502 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { CLOUDINARY_CONFIG_ERROR, configureCloudinary, listManagedFiles } from '@/lib/cloudinary-server';
+import { CONFIG_MISSING_CODE } from '@/lib/upload-errors';
+
+// 列表随云端资源变化，不能在构建时缓存
+export const dynamic = 'force-dynamic';
+
+/**
+ * 列出本应用上传的Cloudinary资源（按upload-center标签，分页）
+ * ?cursor=上一页的nextCursor → { files: FileInfo[], folders: Folder[], nextCursor }
+ */
+export async function GET(request: Request) {
+  if (!configureCloudinary()) {
+    return NextResponse.json({ error: CLOUDINARY_CONFIG_ERROR, code: CONFIG_MISSING_CODE }, { status: 503 });
+  }
+
+  const cursor = new URL(request.url).searchParams.get('cursor') || undefined;
+  try {
+    const page = await listManagedFiles(cursor);
+    if (!page) {
+      return NextResponse.json({ error: '分页游标不正确' }, { status: 400 });
+    }
+    return NextResponse.json(page);
+  } catch (error) {
+    console.error('列出Cloudinary资源失败:', error);
+    return NextResponse.json({ error: '获取云端文件列表失败' }, { status: 502 });
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { CLOUDINARY_CONFIG_ERROR, configureCloudinary, getResourceInfo } from '@/lib/cloudinary-server';
+import { CONFIG_MISSING_CODE } from '@/lib/upload-errors';
+
+/**
+ * 查询Cloudinary资源信息
+ * { publicId } → { publicId, format, resourceType, bytes, url, secureUrl }
+ */
+export async function POST(request: Request) {
+  if (!configureCloudinary()) {
+    return NextResponse.json({ error: CLOUDINARY_CONFIG_ERROR, code: CONFIG_MISSING_CODE }, { status: 503 });
+  }
+
+  const body = await request.json().catch(() => null);
+  if (typeof body?.publicId !== 'string' || !body.publicId) {
+    return NextResponse.json({ error: '请求格式不正确' }, { status: 400 });
+  }
+
+  try {
+    const info = await getResourceInfo(body.publicId);
+    if (!info) {
+      return NextResponse.json({ error: '文件不存在' }, { status: 404 });
+    }
+    return NextResponse.json(info);
+  } catch (error) {
+    console.error('查询Cloudinary资源失败:', error);
+    return NextResponse.json({ error: '获取文件信息失败' }, { status: 502 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { CLOUDINARY_CONFIG_ERROR, configureCloudinary, signUploadParams } from '@/lib/cloudinary-server';
+import { CONFIG_MISSING_CODE } from '@/lib/upload-errors';
+
+/**
+ * 为上传参数签名
+ * { params: Record<string, string> } → { signature, timestamp, apiKey }
+ */
+export async function POST(request: Request) {
+  if (!configureCloudinary()) {
+    return NextResponse.json({ error: CLOUDINARY_CONFIG_ERROR, code: CONFIG_MISSING_CODE }, { status: 503 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const params: unknown = body?.params;
+  if (!params || typeof params !== 'object' || !Object.values(params).every(value => typeof value === 'string')) {
+    return NextResponse.json({ error: '请求格式不正确' }, { status: 400 });
+  }
+
+  const signed = signUploadParams(params as Record<string, string>);
+  if (!signed) {
+    return NextResponse.json({ error: '包含不允许签名的上传参数' }, { status: 403 });
+  }
+  return NextResponse.json(signed);
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import { createLocalFileStream, deleteLocalFile, isInlineMimeType, openLocalFile } from '@/lib/local-file-store';
+
+interface RouteContext {
+  params: { key: string[] };
+}
+
+/**
+ * 读取本地存储的文件（支持单个Range请求，视频可拖动播放）
+ * 文件与应用同源，禁止浏览器猜测类型并以沙箱方式打开，图片、音视频和PDF以外的文件一律作为附件下载
+ */
+export async function GET(request: Request, { params }: RouteContext) {
+  const handle = await openLocalFile(params.key.join('/'));
+  if (!handle) {
+    return NextResponse.json({ error: '文件不存在' }, { status: 404 });
+  }
+
+  const { size, mimeType, fileName } = handle.meta;
+  const disposition = isInlineMimeType(mimeType) ? 'inline' : 'attachment';
+  const headers: Record<string, string> = {
+    'Content-Type': mimeType,
+    'Content-Disposition': `${disposition}; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+    'X-Content-Type-Options': 'nosniff',
+    'Content-Security-Policy': 'sandbox',
+    'Accept-Ranges': 'bytes',
+    // 对象键包含随机ID，内容不会变化
+    'Cache-Control': 'public, max-age=31536000, immutable',
+  };
+
+  const range = request.headers.get('range')?.match(/^bytes=(\d*)-(\d*)$/);
+  if (range && (range[1] || range[2]) && size > 0) {
+    // bytes=-N 表示最后N个字节
+    const start = range[1] ? Number(range[1]) : Math.max(0, size - Number(range[2]));
+    const end = range[1] && range[2] ? Math.min(Number(range[2]), size - 1) : size - 1;
+    if (start > end || start >= size) {
+      return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${size}` } });
+    }
+
+    headers['Content-Range'] = `bytes ${start}-${end}/${size}`;
+    headers['Content-Length'] = String(end - start + 1);
+    return new Response(createLocalFileStream(handle, start, end), { status: 206, headers });
+  }
+
+  headers['Content-Length'] = String(size);
+  return new Response(size > 0 ? createLocalFileStream(handle, 0, size - 1) : null, { headers });
+}
+
+/**
+ * 删除本地存储的文件
+ */
+export async function DELETE(request: Request, { params }: RouteContext) {
+  if (!(await deleteLocalFile(params.key.join('/')))) {
+    return NextResponse.json({ error: '文件路径不正确' }, { status: 400 });
+  }
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { LOCAL_MAX_UPLOAD_SIZE_MB } from '@/lib/local-files';
+import { saveLocalFile } from '@/lib/local-file-store';
+
+/**
+ * 上传文件到本地存储
+ * 请求体为文件内容，文件名通过 X-File-Name 头传递（URL编码）→ { key, bytes, mimeType }
+ */
+export async function POST(request: Request) {
+  const encodedName = request.headers.get('x-file-name');
+  if (!encodedName || !request.body) {
+    return NextResponse.json({ error: '请求格式不正确' }, { status: 400 });
+  }
+
+  let fileName: string;
+  try {
+    fileName = decodeURIComponent(encodedName);
+  } catch {
+    return NextResponse.json({ error: '文件名格式不正确' }, { status: 400 });
+  }
+
+  const maxBytes = LOCAL_MAX_UPLOAD_SIZE_MB * 1024 * 1024;
+  if (Number(request.headers.get('content-length')) > maxBytes) {
+    return NextResponse.json({ error: `文件大小超过 ${LOCAL_MAX_UPLOAD_SIZE_MB}MB 限制` }, { status: 413 });
+  }
+
+  // 声明的类型只作参考，保存时按文件头核对
+  const claimedType = request.headers.get('content-type') || 'application/octet-stream';
+  try {
+    const { key, meta } = await saveLocalFile(fileName, claimedType, request.body, maxBytes);
+    return NextResponse.json({ key, bytes: meta.size, mimeType: meta.mimeType });
+  } catch (error) {
+    console.error('保存本地文件失败:', error);
+    return NextResponse.json({ error: '保存文件失败' }, { status: 500 });
+  }
+}
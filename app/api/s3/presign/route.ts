@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { createObjectKey, createPresignedUrl, getS3Config, isManagedObjectKey } from '@/lib/s3-presign';
+import { CONFIG_MISSING_CODE } from '@/lib/upload-errors';
+
+/**
+ * 签发S3预签名URL
+ * 上传：{ action: 'upload', fileName } → { url, key }
+ * 删除：{ action: 'delete', key } → { url }
+ */
+export async function POST(request: Request) {
+  const config = getS3Config();
+  if (!config) {
+    return NextResponse.json(
+      { error: 'S3配置缺失：请设置S3_BUCKET、S3_ACCESS_KEY_ID和S3_SECRET_ACCESS_KEY环境变量', code: CONFIG_MISSING_CODE },
+      { status: 503 }
+    );
+  }
+
+  let body: { action?: string; fileName?: string; key?: string };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: '请求格式不正确' }, { status: 400 });
+  }
+
+  if (body.action === 'upload' && typeof body.fileName === 'string') {
+    const key = createObjectKey(body.fileName);
+    return NextResponse.json({ url: createPresignedUrl(config, 'PUT', key), key });
+  }
+
+  if (body.action === 'delete' && typeof body.key === 'string') {
+    if (!isManagedObjectKey(body.key)) {
+      return NextResponse.json({ error: '只能删除本应用上传的文件' }, { status: 403 });
+    }
+    return NextResponse.json({ url: createPresignedUrl(config, 'DELETE', body.key) });
+  }
+
+  return NextResponse.json({ error: '不支持的操作' }, { status: 400 });
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { AlertCircle, CheckCircle, Download, Lock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+  EncryptedFileMetadata,
+  decryptFromUrl,
+  downloadDecryptedFile,
+  parseDecryptLink,
+  readEncryptedMetadata,
+} from '@/lib/encryption';
+import { isAbortError } from '@/lib/upload-errors';
+import { downloadFile, formatFileSize } from '@/lib/utils';
+
+// 保存文件选择器（只声明用到的部分）
+type SaveFilePickerWindow = Window & {
+  showSaveFilePicker?: (options?: { suggestedName?: string }) => Promise<{
+    createWritable: () => Promise<{ write: (data: Blob) => Promise<void>; close: () => Promise<void> }>;
+  }>;
+};
+
+type DecryptStatus = 'loading' | 'ready' | 'decrypting' | 'done' | 'error';
+
+export default function DecryptPage() {
+  const [link, setLink] = useState<{ src: string; key: string } | null>(null);
+  const [metadata, setMetadata] = useState<EncryptedFileMetadata | null>(null);
+  const [status, setStatus] = useState<DecryptStatus>('loading');
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState('');
+
+  // 从链接中读取文件地址和密钥，并先解密文件信息（密钥在#片段中，只在浏览器中使用）
+  useEffect(() => {
+    const parsed = parseDecryptLink(window.location.search, window.location.hash);
+    if (!parsed) {
+      setError('链接无效或缺少解密密钥，请确认复制了完整的链接（包括 # 之后的部分）');
+      setStatus('error');
+      return;
+    }
+
+    setLink(parsed);
+    readEncryptedMetadata(parsed.src, parsed.key)
+      .then(result => {
+        setMetadata(result);
+        setStatus('ready');
+      })
+      .catch(err => {
+        console.error('读取加密文件失败:', err);
+        setError(err instanceof Error ? err.message : '读取加密文件失败');
+        setStatus('error');
+      });
+  }, []);
+
+  // 解密并保存：支持保存文件选择器时边下载边解密写入磁盘，否则在内存中解密后下载
+  const handleDownload = async () => {
+    if (!link || !metadata) return;
+
+    const reportProgress = (bytes: number) => {
+      setProgress(metadata.size > 0 ? Math.min(100, Math.round((bytes / metadata.size) * 100)) : 100);
+    };
+
+    try {
+      const picker = (window as SaveFilePickerWindow).showSaveFilePicker;
+      if (picker) {
+        const handle = await picker({ suggestedName: metadata.name });
+        setStatus('decrypting');
+        setProgress(0);
+
+        const writable = await handle.createWritable();
+        let bytesDecrypted = 0;
+        try {
+          await decryptFromUrl(link.src, link.key, {
+            onData: async (data) => {
+              await writable.write(new Blob([data as Uint8Array<ArrayBuffer>]));
+              bytesDecrypted += data.length;
+              reportProgress(bytesDecrypted);
+            },
+          });
+        } finally {
+          await writable.close();
+        }
+      } else {
+        setStatus('decrypting');
+        setProgress(0);
+
+        const file = await downloadDecryptedFile(link.src, link.key, reportProgress);
+        const objectUrl = URL.createObjectURL(file);
+        downloadFile(objectUrl, file.name);
+        setTimeout(() => URL.revokeObjectURL(objectUrl), 60 * 1000);
+      }
+
+      setStatus('done');
+    } catch (err) {
+      // 用户关闭了保存文件对话框
+      if (isAbortError(err)) {
+        setStatus('ready');
+        return;
+      }
+      console.error('解密文件失败:', err);
+      setError(err instanceof Error ? err.message : '解密文件失败');
+      setStatus('error');
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-16 max-w-lg">
+      <div className="bg-white border border-gray-200 rounded-lg p-6 space-y-4">
+        <div className="flex items-center gap-3">
+          <Lock className="h-8 w-8 text-purple-600 flex-shrink-0" />
+          <div>
+            <h1 className="text-lg font-semibold text-gray-900">加密文件下载</h1>
+            <p className="text-xs text-gray-500">文件在您的浏览器中解密，密钥不会发送到任何服务器</p>
+          </div>
+        </div>
+
+        {status === 'loading' && (
+          <p className="text-sm text-gray-600">正在读取文件信息...</p>
+        )}
+
+        {metadata && status !== 'error' && (
+          <div className="p-3 bg-gray-50 rounded border text-sm">
+            <p className="font-medium text-gray-900 break-all">{metadata.name}</p>
+            <p className="text-xs text-gray-500">
+              {formatFileSize(metadata.size)}{metadata.type ? ` • ${metadata.type}` : ''}
+            </p>
+          </div>
+        )}
+
+        {status === 'decrypting' && (
+          <div className="space-y-1">
+            <Progress value={progress} className="h-2" />
+            <p className="text-xs text-gray-500">正在下载并解密... {progress}%</p>
+          </div>
+        )}
+
+        {status === 'done' && (
+          <p className="flex items-center text-sm text-green-600">
+            <CheckCircle className="h-4 w-4 mr-1" />
+            解密完成，文件已保存
+          </p>
+        )}
+
+        {status === 'error' && (
+          <p className="flex items-start text-sm text-red-600">
+            <AlertCircle className="h-4 w-4 mr-1 mt-0.5 flex-shrink-0" />
+            {error}
+          </p>
+        )}
+
+        {metadata && (status === 'ready' || status === 'done') && (
+          <Button className="w-full" onClick={handleDownload}>
+            <Download className="h-4 w-4 mr-2" />
+            {status === 'done' ? '重新下载' : '解密并下载'}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
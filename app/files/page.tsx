@@ -0,0 +1,13 @@
+'use client';
+
+import { FileManager } from '@/components/FileManager';
+import { StorageConfigGate } from '@/components/StorageConfigGate';
+
+export default function FilesPage() {
+  // 文件管理页面：文件夹、标签筛选、重复文件报告和按相对路径分组
+  return (
+    <StorageConfigGate>
+      <FileManager />
+    </StorageConfigGate>
+  );
+}
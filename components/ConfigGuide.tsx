@@ -121,7 +121,7 @@ export function ConfigGuide({ missingVars, onRetry }: ConfigGuideProps) {
                     前往仓库Secrets设置 <ExternalLink className="w-4 h-4 ml-1" />
                   </a>
                 </div>
-                <p className="text-gray-600 text-sm mb-3">点击 "New repository secret" 分别添加以下变量：</p>
+                <p className="text-gray-600 text-sm mb-3">点击 &quot;New repository secret&quot; 分别添加以下变量：</p>
                 
                 <div className="space-y-3">
                   <div className="bg-gray-50 p-3 rounded border">
@@ -190,6 +190,7 @@ export function ConfigGuide({ missingVars, onRetry }: ConfigGuideProps) {
                 <li>• 配置完成后，GitHub Actions会自动重新部署（需要2-5分钟）</li>
                 <li>• 变量名必须完全匹配（区分大小写）</li>
                 <li>• 预设名称必须为 <code>upload-preset</code></li>
+                <li>• 本地开发或演示可在 <code>.env.local</code> 中设置 <code>NEXT_PUBLIC_STORAGE_PROVIDER=local</code>，文件保存在本机磁盘，无需任何云服务账号</li>
               </ul>
             </div>
           </div>
@@ -37,7 +37,7 @@ export function DebugInfo() {
           </div>
           
           <div className="mt-3 text-gray-600">
-            <p>• 如果显示"已设置"但仍提示配置缺失，可能是GitHub Actions构建问题</p>
+            <p>• 如果显示&quot;已设置&quot;但仍提示配置缺失，可能是GitHub Actions构建问题</p>
             <p>• 请检查GitHub Secrets是否正确配置，名称需完全匹配</p>
             <p>• 配置后需等待2-5分钟重新部署</p>
           </div>
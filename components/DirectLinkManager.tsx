@@ -1,23 +1,34 @@
 'use client';
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import Link from 'next/link';
 import { FileUploader } from './FileUploader';
 import { UploadedFileCard } from './UploadedFileCard';
-import { FileInfo } from '@/lib/types';
-import { getStoredFiles, saveFileToStorage, deleteFileFromStorage } from '@/lib/storage';
-import { deleteFileFromCloudinary } from '@/lib/cloudinary';
+import { IndexRecoveryBanner } from './IndexRecoveryBanner';
+import { TrashView } from './TrashView';
+import { FileInfo, ExpiryOption } from '@/lib/types';
+import { getStoredFiles, deleteFileFromStorage, extendFileExpiry, updateFileTags } from '@/lib/storage';
+import { getActiveStorageProvider } from '@/lib/storage-provider';
+import { getExpiryLabel } from '@/lib/expiry';
+import { getTrashRetentionDays } from '@/lib/trash';
+import { collectAllTags } from '@/lib/tags';
+import { getCurrentVersion, promoteFileVersion } from '@/lib/versions';
+import { subscribeIndexChanges } from '@/lib/index-sync';
 import { useSimpleToast } from '@/components/ui/simple-toast';
-import { RefreshCw, Share2 } from 'lucide-react';
+import { FolderOpen, RefreshCw, Share2, Trash2 } from 'lucide-react';
 
 export function DirectLinkManager() {
   const [files, setFiles] = useState<FileInfo[]>([]);
   const [loading, setLoading] = useState(true);
+  const [showTrash, setShowTrash] = useState(false);
   const { showToast } = useSimpleToast();
+  // 页面区域：只响应在此区域内的粘贴上传
+  const pageRef = useRef<HTMLDivElement>(null);
 
   // 加载文件列表
-  const loadFiles = useCallback(() => {
+  const loadFiles = useCallback(async () => {
     try {
-      const storedFiles = getStoredFiles();
+      const storedFiles = await getStoredFiles();
       setFiles(storedFiles);
     } catch (error) {
       console.error('加载文件列表失败:', error);
@@ -36,13 +47,22 @@ export function DirectLinkManager() {
       loadFiles(); // 重新加载会自动清理过期文件
     }, 60000); // 每分钟检查一次
 
-    return () => clearInterval(intervalId);
+    // 其他标签页修改文件列表时实时刷新
+    const unsubscribe = subscribeIndexChanges(() => {
+      loadFiles();
+    });
+
+    return () => {
+      clearInterval(intervalId);
+      unsubscribe();
+    };
   }, [loadFiles]);
 
   // 处理文件上传完成
   const handleUploadComplete = useCallback((fileInfo: FileInfo) => {
+    // 新版本沿用原文件ID，替换原有记录并移到最前
     setFiles(prevFiles => {
-      const newFiles = [fileInfo, ...prevFiles];
+      const newFiles = [fileInfo, ...prevFiles.filter(f => f.id !== fileInfo.id)];
       return newFiles;
     });
 
@@ -50,29 +70,27 @@ export function DirectLinkManager() {
     showToast({
       type: "success",
       title: "文件上传成功！",
-      description: "文件已上传到云端，下方显示直接下载链接",
+      description: getCurrentVersion(fileInfo) > 1
+        ? `已作为 "${fileInfo.fileName}" 的 v${getCurrentVersion(fileInfo)} 保存，旧版本可在版本历史中查看`
+        : "文件已上传到云端，下方显示直接下载链接",
     });
   }, [showToast]);
 
-  // 处理文件删除
+  // 处理文件删除（移入回收站，保留期结束后才从云端删除）
   const handleDeleteFile = useCallback(async (fileId: string) => {
     const fileToDelete = files.find(f => f.id === fileId);
     if (!fileToDelete) return;
 
     try {
-      // 从云端删除文件
-      await deleteFileFromCloudinary(fileToDelete.publicId, fileToDelete.fileType);
-      
-      // 从本地存储删除
-      deleteFileFromStorage(fileId);
+      await deleteFileFromStorage(fileId);
       
       // 更新状态
       setFiles(prevFiles => prevFiles.filter(f => f.id !== fileId));
       
       showToast({
         type: "success", 
-        title: "文件已删除",
-        description: `${fileToDelete.fileName} 已从云端删除`,
+        title: "已移入回收站",
+        description: `${fileToDelete.fileName} 可在 ${getTrashRetentionDays()} 天内从回收站恢复`,
       });
     } catch (error) {
       console.error('删除文件失败:', error);
@@ -84,27 +102,70 @@ export function DirectLinkManager() {
     }
   }, [files, showToast]);
 
-  // 生成页面链接分享
-  const generatePageShare = useCallback(() => {
-    const shareText = `文件分享中心 - 已上传 ${files.length} 个文件`;
-    const shareUrl = window.location.href;
-    
-    if (navigator.share && /Android|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent)) {
-      // 移动设备使用原生分享
-      navigator.share({
-        title: shareText,
-        url: shareUrl,
-      }).catch(error => {
-        console.log('分享失败:', error);
-        copyToClipboard(shareUrl);
+  // 处理延长有效期
+  const handleExtendExpiry = useCallback(async (fileId: string, option: ExpiryOption) => {
+    try {
+      const [updatedFile] = await extendFileExpiry([fileId], option);
+      if (!updatedFile) return;
+
+      setFiles(prevFiles => prevFiles.map(f => f.id === fileId ? updatedFile : f));
+
+      showToast({
+        type: "success",
+        title: "有效期已更新",
+        description: option === 'never'
+          ? `${updatedFile.fileName} 已设为永久有效`
+          : `${updatedFile.fileName} 的有效期已延长 ${getExpiryLabel(option)}`,
+      });
+    } catch (error) {
+      console.error('延长有效期失败:', error);
+      showToast({
+        type: "error",
+        title: "延长有效期失败",
+        description: "请重试",
+      });
+    }
+  }, [showToast]);
+
+  // 处理修改文件标签
+  const handleUpdateTags = useCallback(async (fileId: string, tags: string[]) => {
+    try {
+      const normalizedTags = await updateFileTags(fileId, tags);
+      setFiles(prevFiles => prevFiles.map(f => f.id === fileId ? { ...f, tags: normalizedTags } : f));
+    } catch (error) {
+      console.error('修改标签失败:', error);
+      showToast({
+        type: "error",
+        title: "修改标签失败",
+        description: "请重试",
+      });
+    }
+  }, [showToast]);
+
+  // 将历史版本设为当前版本
+  const handlePromoteVersion = useCallback(async (fileId: string, version: number) => {
+    try {
+      const updatedFile = await promoteFileVersion(fileId, version);
+      setFiles(prevFiles => prevFiles.map(f => f.id === fileId ? updatedFile : f));
+      showToast({
+        type: "success",
+        title: "版本已切换",
+        description: `${updatedFile.fileName} 当前版本为 v${version}`,
+      });
+    } catch (error) {
+      console.error('切换版本失败:', error);
+      showToast({
+        type: "error",
+        title: "切换版本失败",
+        description: error instanceof Error ? error.message : "请重试",
       });
-    } else {
-      // 桌面设备复制链接
-      copyToClipboard(shareUrl);
     }
-  }, [files.length]);
+  }, [showToast]);
+
+  // 全部文件中出现过的标签（用于自动补全）
+  const allTags = useMemo(() => collectAllTags(files), [files]);
 
-  const copyToClipboard = (text: string) => {
+  const copyToClipboard = useCallback((text: string) => {
     if (navigator.clipboard) {
       navigator.clipboard.writeText(text).then(() => {
         showToast({
@@ -135,10 +196,30 @@ export function DirectLinkManager() {
       }
       document.body.removeChild(textArea);
     }
-  };
+  }, [showToast]);
+
+  // 生成页面链接分享
+  const generatePageShare = useCallback(() => {
+    const shareText = `文件分享中心 - 已上传 ${files.length} 个文件`;
+    const shareUrl = window.location.href;
+    
+    if (navigator.share && /Android|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent)) {
+      // 移动设备使用原生分享
+      navigator.share({
+        title: shareText,
+        url: shareUrl,
+      }).catch(error => {
+        console.log('分享失败:', error);
+        copyToClipboard(shareUrl);
+      });
+    } else {
+      // 桌面设备复制链接
+      copyToClipboard(shareUrl);
+    }
+  }, [files.length, copyToClipboard]);
 
   return (
-    <div className="container mx-auto px-4 py-8 max-w-4xl">
+    <div ref={pageRef} className="container mx-auto px-4 py-8 max-w-4xl">
       {/* 页面标题 */}
       <div className="mb-8 text-center">
         <h1 className="text-3xl font-bold text-gray-900 mb-2">
@@ -149,6 +230,9 @@ export function DirectLinkManager() {
         </p>
       </div>
 
+      {/* 损坏数据恢复提示 */}
+      <IndexRecoveryBanner onRestored={loadFiles} />
+
       {/* 文件上传区域 */}
       <div className="mb-8">
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
@@ -157,7 +241,10 @@ export function DirectLinkManager() {
           </h2>
           <FileUploader
             onUploadComplete={handleUploadComplete}
-            maxFileSize={50}
+            maxFileSize={getActiveStorageProvider().maxUploadSizeMB}
+            tagSuggestions={allTags}
+            existingFiles={files}
+            pasteTarget={pageRef}
           />
         </div>
       </div>
@@ -167,9 +254,23 @@ export function DirectLinkManager() {
         <div className="p-6 border-b border-gray-200">
           <div className="flex items-center justify-between">
             <h2 className="text-xl font-semibold text-gray-900">
-              📁 已上传的文件 ({files.length})
+              {showTrash ? '🗑️ 回收站' : `📁 已上传的文件 (${files.length})`}
             </h2>
             <div className="flex items-center space-x-2">
+              <Link
+                href="/files"
+                className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+              >
+                <FolderOpen className="w-4 h-4 mr-1" />
+                文件管理
+              </Link>
+              <button
+                onClick={() => setShowTrash(!showTrash)}
+                className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+              >
+                <Trash2 className="w-4 h-4 mr-1" />
+                {showTrash ? '返回' : '回收站'}
+              </button>
               <button
                 onClick={generatePageShare}
                 className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
@@ -190,7 +291,9 @@ export function DirectLinkManager() {
         </div>
 
         <div className="p-6">
-          {loading ? (
+          {showTrash ? (
+            <TrashView onRestored={loadFiles} />
+          ) : loading ? (
             <div className="text-center py-8">
               <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto mb-4"></div>
               <p className="text-gray-500">加载中...</p>
@@ -210,6 +313,11 @@ export function DirectLinkManager() {
                   key={file.id}
                   file={file}
                   onDelete={handleDeleteFile}
+                  onExpired={loadFiles}
+                  onExtendExpiry={handleExtendExpiry}
+                  onUpdateTags={handleUpdateTags}
+                  tagSuggestions={allTags}
+                  onPromoteVersion={handlePromoteVersion}
                 />
               ))}
             </div>
@@ -217,7 +325,7 @@ export function DirectLinkManager() {
         </div>
 
         {/* 使用说明 */}
-        {files.length > 0 && (
+        {!showTrash && files.length > 0 && (
           <div className="p-6 border-t border-gray-200 bg-blue-50">
             <div className="rounded-md bg-blue-50 p-4">
               <h3 className="text-sm font-medium text-blue-800 mb-2">
@@ -225,9 +333,9 @@ export function DirectLinkManager() {
               </h3>
               <ul className="text-sm text-blue-700 space-y-1">
                 <li>• 每个文件都有永久的下载链接，可在任何设备上直接访问</li>
-                <li>• 复制文件卡片中的"直接下载链接"即可分享给其他人</li>
-                <li>• 点击"分享页面"可以分享整个页面给其他人查看所有文件</li>
-                <li>• 文件将在24小时后自动过期删除</li>
+                <li>• 复制文件卡片中的&quot;直接下载链接&quot;即可分享给其他人</li>
+                <li>• 点击&quot;分享页面&quot;可以分享整个页面给其他人查看所有文件</li>
+                <li>• 文件按上传时选择的有效期自动过期，删除或过期的文件可在回收站中恢复</li>
               </ul>
             </div>
           </div>
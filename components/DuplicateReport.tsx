@@ -0,0 +1,100 @@
+'use client';
+
+import React from 'react';
+import { CopyCheck, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { FileInfo } from '@/lib/types';
+import { findDuplicateGroups } from '@/lib/file-hash';
+import { formatDate, formatFileSize, truncateFileName } from '@/lib/utils';
+
+interface DuplicateReportProps {
+  files: FileInfo[];          // 全部文件
+  onDelete: (fileIds: string[]) => void;  // 删除重复文件回调（移入回收站）
+}
+
+export function DuplicateReport({ files, onDelete }: DuplicateReportProps) {
+  const groups = findDuplicateGroups(files);
+  const unhashedCount = files.filter(file => !file.contentHash).length;
+  const redundantCount = groups.reduce((sum, group) => sum + group.length - 1, 0);
+
+  // 删除除最早上传的文件以外的重复文件
+  const handleKeepOldest = (group: FileInfo[]) => {
+    const [, ...others] = [...group].sort((a, b) => a.uploadTime.localeCompare(b.uploadTime));
+    if (window.confirm(`保留最早上传的文件，将其余 ${others.length} 个重复文件移入回收站？`)) {
+      onDelete(others.map(file => file.id));
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <button
+          className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+          title="按内容查找重复文件"
+        >
+          <CopyCheck className="w-4 h-4 mr-1" />
+          查找重复
+        </button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>重复文件</DialogTitle>
+          <DialogDescription>
+            {groups.length > 0
+              ? `发现 ${groups.length} 组内容相同的文件，共 ${redundantCount} 个多余副本`
+              : '没有发现内容相同的文件'}
+            {unhashedCount > 0 && `（${unhashedCount} 个早期上传的文件没有内容校验值，未参与比较）`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {groups.length > 0 && (
+          <div className="max-h-[28rem] overflow-y-auto space-y-4">
+            {groups.map(group => (
+              <div key={group[0].contentHash} className="border rounded-md">
+                <div className="flex items-center justify-between gap-2 px-3 py-2 bg-gray-50 border-b">
+                  <span className="text-xs text-gray-500 font-mono truncate" title={group[0].contentHash}>
+                    SHA-256 {group[0].contentHash?.slice(0, 16)}… · {formatFileSize(group[0].fileSize)}
+                  </span>
+                  <Button variant="outline" size="sm" onClick={() => handleKeepOldest(group)}>
+                    仅保留最早的
+                  </Button>
+                </div>
+                <div className="divide-y">
+                  {group.map(file => (
+                    <div key={file.id} className="flex items-center justify-between gap-2 px-3 py-2">
+                      <div className="min-w-0">
+                        <div className="text-sm text-gray-900 truncate" title={file.fileName}>
+                          {truncateFileName(file.fileName, 40)}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {formatDate(file.uploadTime)}
+                          {group.some(other => other.id !== file.id && other.publicId === file.publicId) && ' · 与其他记录共用同一链接'}
+                        </div>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onDelete([file.id])}
+                        title="移入回收站"
+                      >
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,38 @@
+'use client';
+
+import React from 'react';
+import { ExpiryOption } from '@/lib/types';
+import { EXPIRY_OPTIONS } from '@/lib/expiry';
+import { cn } from '@/lib/utils';
+
+interface ExtendExpirySelectProps {
+  onExtend: (option: ExpiryOption) => void;  // 选择延长时长后回调
+  className?: string;
+}
+
+export function ExtendExpirySelect({ onExtend, className }: ExtendExpirySelectProps) {
+  // 选择后立即触发并重置为占位项
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const option = e.target.value as ExpiryOption;
+    e.target.value = '';
+    if (option) {
+      onExtend(option);
+    }
+  };
+
+  return (
+    <select
+      defaultValue=""
+      onChange={handleChange}
+      className={cn('h-9 rounded-md border border-input bg-background px-2 text-sm text-gray-700', className)}
+      title="延长有效期"
+    >
+      <option value="" disabled>延长有效期</option>
+      {EXPIRY_OPTIONS.map(option => (
+        <option key={option.value} value={option.value}>
+          {option.value === 'never' ? '设为永久有效' : `延长 ${option.label}`}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import { 
   Download, 
   Trash2, 
@@ -15,7 +15,10 @@ import {
   FileImage,
   MoreVertical,
   ExternalLink,
-  Eye
+  Eye,
+  FolderOpen,
+  ShieldCheck,
+  Lock
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
@@ -30,9 +33,40 @@ import {
 import { FileListProps, FileInfo } from '@/lib/types';
 import { formatFileSize, formatDate, getFileIconType, copyToClipboard, downloadFile, truncateFileName } from '@/lib/utils';
 import { CountdownTimer } from '@/components/ui/countdown-timer';
+import { getTrashRetentionDays } from '@/lib/trash';
+import { ExtendExpirySelect } from './ExtendExpirySelect';
+import { MoveToFolderSelect } from './MoveToFolderSelect';
+import { TagEditor } from './TagEditor';
+import { VersionHistory } from './VersionHistory';
+import { getCurrentVersion } from '@/lib/versions';
+import { downloadFilesWithPaths, groupFilesByPath, isDirectoryPickerSupported } from '@/lib/file-paths';
+import { isAbortError } from '@/lib/upload-errors';
+import { getFileShareUrl } from '@/lib/encryption';
+import { useSimpleToast } from '@/components/ui/simple-toast';
 
-export function FileList({ files, onDelete, onBatchDelete, loading }: FileListProps) {
+export function FileList({
+  files,
+  onDelete,
+  onBatchDelete,
+  onExtendExpiry,
+  folders = [],
+  onMoveFiles,
+  onUpdateTags,
+  tagSuggestions,
+  onPromoteVersion,
+  loading
+}: FileListProps) {
   const [selectedFiles, setSelectedFiles] = useState<string[]>([]);
+  const { showToast } = useSimpleToast();
+  const groups = groupFilesByPath(files);
+
+  // 文件列表变化（如切换文件夹、文件被移走）时，移除已不在列表中的选中项
+  useEffect(() => {
+    setSelectedFiles(prev => {
+      const next = prev.filter(id => files.some(file => file.id === id));
+      return next.length === prev.length ? prev : next;
+    });
+  }, [files]);
 
   // 获取文件图标组件
   const getFileIcon = (fileInfo: FileInfo) => {
@@ -79,7 +113,7 @@ export function FileList({ files, onDelete, onBatchDelete, loading }: FileListPr
 
   // 复制文件链接
   const handleCopyLink = async (file: FileInfo) => {
-    const success = await copyToClipboard(file.cloudinaryUrl);
+    const success = await copyToClipboard(getFileShareUrl(file));
     if (success) {
       // TODO: 显示成功提示
       console.log('链接已复制到剪贴板');
@@ -89,19 +123,45 @@ export function FileList({ files, onDelete, onBatchDelete, loading }: FileListPr
     }
   };
 
-  // 下载文件
+  // 下载文件（加密文件在解密页面中下载）
   const handleDownload = (file: FileInfo) => {
+    if (file.encryptionKey) {
+      window.open(getFileShareUrl(file), '_blank');
+      return;
+    }
     downloadFile(file.cloudinaryUrl, file.fileName);
   };
 
+  // 按原有目录结构下载多个文件
+  const handleDownloadWithPaths = async (targetFiles: FileInfo[]) => {
+    if (targetFiles.length === 0) return;
+    if (!isDirectoryPickerSupported() && !window.confirm(
+      `当前浏览器不支持选择保存目录，将逐个下载 ${targetFiles.length} 个文件，目录结构会编入文件名。是否继续？`
+    )) return;
+
+    try {
+      const { mode, failed } = await downloadFilesWithPaths(targetFiles);
+      if (failed.length > 0) {
+        showToast({ type: "error", title: "部分文件下载失败", description: failed.join('、') });
+      } else if (mode === 'directory') {
+        showToast({ type: "success", title: "下载完成", description: `已按原有目录结构保存 ${targetFiles.length} 个文件` });
+      }
+    } catch (error) {
+      // 用户关闭了目录选择器
+      if (isAbortError(error)) return;
+      console.error('下载文件失败:', error);
+      showToast({ type: "error", title: "下载失败", description: error instanceof Error ? error.message : '未知错误' });
+    }
+  };
+
   // 预览文件
   const handlePreview = (file: FileInfo) => {
     window.open(file.cloudinaryUrl, '_blank');
   };
 
-  // 检查文件是否可预览
+  // 检查文件是否可预览（加密文件需先解密）
   const isPreviewable = (file: FileInfo): boolean => {
-    return file.fileType.startsWith('image/');
+    return !file.encryptionKey && file.fileType.startsWith('image/');
   };
 
   // 删除文件（直接确认）
@@ -111,7 +171,7 @@ export function FileList({ files, onDelete, onBatchDelete, loading }: FileListPr
 
   // 确认删除单个文件
   const confirmDelete = (file: FileInfo) => {
-    if (window.confirm(`确定要删除文件 "${file.fileName}" 吗？此操作无法撤销。`)) {
+    if (window.confirm(`确定要删除文件 "${file.fileName}" 吗？文件将移入回收站，${getTrashRetentionDays()} 天内可恢复。`)) {
       onDelete(file.id);
     }
   };
@@ -127,7 +187,7 @@ export function FileList({ files, onDelete, onBatchDelete, loading }: FileListPr
   const confirmBatchDelete = () => {
     if (selectedFiles.length === 0) return;
     
-    if (window.confirm(`确定要删除选中的 ${selectedFiles.length} 个文件吗？此操作无法撤销。`)) {
+    if (window.confirm(`确定要删除选中的 ${selectedFiles.length} 个文件吗？文件将移入回收站，${getTrashRetentionDays()} 天内可恢复。`)) {
       onBatchDelete(selectedFiles);
       setSelectedFiles([]);
     }
@@ -135,9 +195,144 @@ export function FileList({ files, onDelete, onBatchDelete, loading }: FileListPr
 
   // 在新窗口打开文件
   const handleOpenFile = (file: FileInfo) => {
-    window.open(file.cloudinaryUrl, '_blank');
+    window.open(getFileShareUrl(file), '_blank');
   };
 
+  // 渲染单个文件行
+  const renderFileRow = (file: FileInfo) => (
+    <TableRow key={file.id}>
+      <TableCell>
+        <Checkbox
+          checked={selectedFiles.includes(file.id)}
+          onCheckedChange={(checked) => handleFileSelect(file.id, !!checked)}
+        />
+      </TableCell>
+      <TableCell>
+        <div className="flex items-center space-x-3">
+          {getFileIcon(file)}
+          <div className="min-w-0 flex-1">
+            <div className="text-sm font-medium text-gray-900 truncate">
+              {truncateFileName(file.fileName)}
+              {getCurrentVersion(file) > 1 && (
+                <span className="ml-2 px-1.5 py-0.5 rounded text-xs font-normal bg-gray-100 text-gray-600">
+                  v{getCurrentVersion(file)}
+                </span>
+              )}
+              {file.metadataStripped && (
+                <span
+                  className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-xs font-normal bg-green-50 text-green-700"
+                  title="上传前已去除拍摄位置、设备等元数据"
+                >
+                  <ShieldCheck className="h-3 w-3 mr-1" />
+                  已去除元数据
+                </span>
+              )}
+              {file.encryptionKey && (
+                <span
+                  className="ml-2 inline-flex items-center px-1.5 py-0.5 rounded text-xs font-normal bg-purple-50 text-purple-700"
+                  title="文件已在浏览器中加密，只能通过带密钥的链接下载"
+                >
+                  <Lock className="h-3 w-3 mr-1" />
+                  已加密
+                </span>
+              )}
+            </div>
+            <div className="text-xs text-gray-500">
+              {file.fileType || '未知类型'}
+              {file.uploader && ` • 上传者: ${file.uploader}`}
+            </div>
+            <TagEditor
+              tags={file.tags || []}
+              onChange={onUpdateTags ? (tags) => onUpdateTags(file.id, tags) : undefined}
+              suggestions={tagSuggestions}
+              className="mt-1"
+            />
+          </div>
+        </div>
+      </TableCell>
+      <TableCell className="text-sm text-gray-900">
+        {formatFileSize(file.fileSize)}
+      </TableCell>
+      <TableCell className="text-sm text-gray-900">
+        {formatDate(file.uploadTime)}
+      </TableCell>
+      <TableCell>
+        <CountdownTimer 
+          expiresAt={file.expiresAt} 
+          onExpired={() => {
+            // 文件过期时可以触发重新加载
+            console.log(`文件 ${file.fileName} 已过期`);
+          }}
+        />
+      </TableCell>
+      <TableCell>
+        <div className="flex items-center justify-end space-x-2">
+          {onMoveFiles && (
+            <MoveToFolderSelect
+              folders={folders}
+              onMove={(folderId) => onMoveFiles([file.id], folderId)}
+              className="h-8 w-24 text-xs"
+            />
+          )}
+          {onExtendExpiry && file.expiresAt !== null && (
+            <ExtendExpirySelect
+              onExtend={(option) => onExtendExpiry([file.id], option)}
+              className="h-8 w-28 text-xs"
+            />
+          )}
+          {file.versions && file.versions.length > 0 && (
+            <VersionHistory
+              file={file}
+              onPromote={onPromoteVersion ? (version) => onPromoteVersion(file.id, version) : undefined}
+            />
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleOpenFile(file)}
+            title="在新窗口打开"
+          >
+            <ExternalLink className="h-4 w-4" />
+          </Button>
+          {isPreviewable(file) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => handlePreview(file)}
+              title="预览图片"
+            >
+              <Eye className="h-4 w-4" />
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleDownload(file)}
+            title="下载文件"
+          >
+            <Download className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleCopyLink(file)}
+            title="复制链接"
+          >
+            <Copy className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleDeleteClick(file)}
+            title="删除文件"
+          >
+            <Trash2 className="h-4 w-4 text-red-600" />
+          </Button>
+        </div>
+      </TableCell>
+    </TableRow>
+  );
+
   if (loading) {
     return (
       <div className="flex justify-center items-center py-12">
@@ -165,6 +360,28 @@ export function FileList({ files, onDelete, onBatchDelete, loading }: FileListPr
             已选择 {selectedFiles.length} 个文件
           </span>
           <div className="flex gap-2">
+            {onMoveFiles && (
+              <MoveToFolderSelect
+                folders={folders}
+                onMove={(folderId) => {
+                  onMoveFiles(selectedFiles, folderId);
+                  setSelectedFiles([]);
+                }}
+              />
+            )}
+            {onExtendExpiry && (
+              <ExtendExpirySelect
+                onExtend={(option) => onExtendExpiry(selectedFiles, option)}
+              />
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => handleDownloadWithPaths(files.filter(file => selectedFiles.includes(file.id)))}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              下载选中
+            </Button>
             <Button 
               variant="destructive" 
               size="sm"
@@ -203,89 +420,33 @@ export function FileList({ files, onDelete, onBatchDelete, loading }: FileListPr
             </TableRow>
           </TableHeader>
           <TableBody>
-            {files.map((file) => (
-              <TableRow key={file.id}>
-                <TableCell>
-                  <Checkbox
-                    checked={selectedFiles.includes(file.id)}
-                    onCheckedChange={(checked) => handleFileSelect(file.id, !!checked)}
-                  />
-                </TableCell>
-                <TableCell>
-                  <div className="flex items-center space-x-3">
-                    {getFileIcon(file)}
-                    <div className="min-w-0 flex-1">
-                      <div className="text-sm font-medium text-gray-900 truncate">
-                        {truncateFileName(file.fileName)}
-                      </div>
-                      <div className="text-xs text-gray-500">
-                        {file.fileType || '未知类型'}
+            {groups.map(group => (
+              <React.Fragment key={group.path || '__ungrouped__'}>
+                {/* 随文件夹上传的文件按所在目录分组 */}
+                {group.path && (
+                  <TableRow className="bg-gray-50 hover:bg-gray-50">
+                    <TableCell colSpan={6} className="py-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="flex items-center text-sm font-medium text-gray-700 min-w-0">
+                          <FolderOpen className="h-4 w-4 mr-2 text-amber-500 flex-shrink-0" />
+                          <span className="truncate" title={group.path}>{group.path}</span>
+                          <span className="ml-2 text-xs font-normal text-gray-500">{group.files.length} 个文件</span>
+                        </span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleDownloadWithPaths(group.files)}
+                          title="按原有目录结构下载此目录中的文件"
+                        >
+                          <Download className="h-4 w-4 mr-1" />
+                          下载目录
+                        </Button>
                       </div>
-                    </div>
-                  </div>
-                </TableCell>
-                <TableCell className="text-sm text-gray-900">
-                  {formatFileSize(file.fileSize)}
-                </TableCell>
-                <TableCell className="text-sm text-gray-900">
-                  {formatDate(file.uploadTime)}
-                </TableCell>
-                <TableCell>
-                  <CountdownTimer 
-                    expiresAt={file.expiresAt || new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()} 
-                    onExpired={() => {
-                      // 文件过期时可以触发重新加载
-                      console.log(`文件 ${file.fileName} 已过期`);
-                    }}
-                  />
-                </TableCell>
-                <TableCell>
-                  <div className="flex items-center justify-end space-x-2">
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleOpenFile(file)}
-                      title="在新窗口打开"
-                    >
-                      <ExternalLink className="h-4 w-4" />
-                    </Button>
-                    {isPreviewable(file) && (
-                      <Button
-                        variant="ghost"
-                        size="sm"
-                        onClick={() => handlePreview(file)}
-                        title="预览图片"
-                      >
-                        <Eye className="h-4 w-4" />
-                      </Button>
-                    )}
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleDownload(file)}
-                      title="下载文件"
-                    >
-                      <Download className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleCopyLink(file)}
-                      title="复制链接"
-                    >
-                      <Copy className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => handleDeleteClick(file)}
-                      title="删除文件"
-                    >
-                      <Trash2 className="h-4 w-4 text-red-600" />
-                    </Button>
-                  </div>
-                </TableCell>
-              </TableRow>
+                    </TableCell>
+                  </TableRow>
+                )}
+                {group.files.map(renderFileRow)}
+              </React.Fragment>
             ))}
           </TableBody>
         </Table>
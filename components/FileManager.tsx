@@ -1,16 +1,30 @@
 'use client';
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import Link from 'next/link';
 import { FileUploader } from './FileUploader';
 import { FileList } from './FileList';
 import { FileSearchSort } from './FileSearchSort';
-import { FileInfo, FilterOptions } from '@/lib/types';
-import { getStoredFiles, deleteFileFromStorage, batchDeleteFilesFromStorage, saveFileToStorage } from '@/lib/storage';
-import { checkCloudConnection } from '@/lib/cloud-storage';
+import { IndexRecoveryBanner } from './IndexRecoveryBanner';
+import { TrashView } from './TrashView';
+import { FolderNavigator } from './FolderNavigator';
+import { DuplicateReport } from './DuplicateReport';
+import { FileInfo, FilterOptions, ExpiryOption, Folder, UploadJob } from '@/lib/types';
+import { getStoredFiles, deleteFileFromStorage, batchDeleteFilesFromStorage, saveFileToStorage, extendFileExpiry, updateFileTags } from '@/lib/storage';
+import { getActiveStorageProvider } from '@/lib/storage-provider';
+import { getExpiryLabel, getTimeLeft, isFileExpired } from '@/lib/expiry';
+import { checkCloudConnection, getHybridFileList } from '@/lib/cloud-storage';
 import { generateShareLink, checkForSharedFiles, clearShareParams, getShareableStats } from '@/lib/shared-storage';
-import { syncFiles, startAutoSync, uploadFileIndex } from '@/lib/cloud-sync';
-import { deleteFileFromCloudinary, batchDeleteFilesFromCloudinary } from '@/lib/cloudinary';
+import { getTrashRetentionDays } from '@/lib/trash';
+import { collectAllTags, matchesTags } from '@/lib/tags';
+import { promoteFileVersion } from '@/lib/versions';
+import { getFolders, moveFilesToFolder, getDescendantFolderIds, getFolderPath, getFolderPathLabel } from '@/lib/folders';
+import { subscribeIndexChanges } from '@/lib/index-sync';
 import { useSimpleToast } from '@/components/ui/simple-toast';
+import { ArrowLeft, Trash2 } from 'lucide-react';
+
+// 新上传文件使用的存储服务
+const storageProvider = getActiveStorageProvider();
 
 export function FileManager() {
   const [files, setFiles] = useState<FileInfo[]>([]);
@@ -18,12 +32,21 @@ export function FileManager() {
   const [filters, setFilters] = useState<FilterOptions>({
     searchTerm: '',
     sortBy: 'uploadTime',
-    sortOrder: 'desc'
+    sortOrder: 'desc',
+    scopeToFolder: true,
+    tags: [],
+    tagMatchMode: 'or'
   });
+  const [folders, setFolders] = useState<Folder[]>([]);
+  const [currentFolderId, setCurrentFolderId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
   const [cloudStatus, setCloudStatus] = useState<'checking' | 'connected' | 'offline'>('checking');
+  const [uploadJobs, setUploadJobs] = useState<Record<string, UploadJob>>({});
   const { showToast } = useSimpleToast();
+  // 页面区域：只响应在此区域内的粘贴上传
+  const pageRef = useRef<HTMLDivElement>(null);
 
   // 加载文件列表（集成云端自动同步）
   const loadFiles = useCallback(async () => {
@@ -34,8 +57,8 @@ export function FileManager() {
       const isConnected = await checkCloudConnection();
       setCloudStatus(isConnected ? 'connected' : 'offline');
       
-      // 首先获取本地文件
-      const localFiles = getStoredFiles();
+      // 获取本地文件，云端可用时补充本地没有的云端文件（如在其他设备上传的文件）
+      const localFiles = isConnected ? await getHybridFileList() : await getStoredFiles();
       
       // 检查是否有通过URL分享的文件
       const sharedFiles = checkForSharedFiles();
@@ -48,7 +71,7 @@ export function FileManager() {
         
         // 保存新的分享文件到本地存储
         for (const file of newSharedFiles) {
-          saveFileToStorage(file);
+          await saveFileToStorage(file);
         }
         
         // 合并所有文件
@@ -67,35 +90,6 @@ export function FileManager() {
         }
       }
       
-      // 执行云端同步
-      if (isConnected) {
-        try {
-          const syncResult = await syncFiles(currentFiles);
-          
-          if (syncResult.hasNewFiles) {
-            // 保存同步后的文件到本地存储
-            for (const file of syncResult.files) {
-              saveFileToStorage(file);
-            }
-            
-            currentFiles = syncResult.files;
-            
-            showToast({
-              type: "success",
-              title: "多设备同步完成",
-              description: `发现 ${syncResult.syncedCount} 个新文件`,
-            });
-          }
-        } catch (syncError) {
-          console.warn('云端同步失败，使用本地文件:', syncError);
-          showToast({
-            type: "warning",
-            title: "同步异常",
-            description: "云端同步失败，显示本地文件",
-          });
-        }
-      }
-      
       setFiles(currentFiles);
       setLoading(false);
     } catch (error) {
@@ -103,7 +97,7 @@ export function FileManager() {
       
       // 出错时仅使用本地存储
       try {
-        const localFiles = getStoredFiles();
+        const localFiles = await getStoredFiles();
         setFiles(localFiles);
         setCloudStatus('offline');
       } catch (localError) {
@@ -115,19 +109,31 @@ export function FileManager() {
     }
   }, [showToast]);
 
+  // 加载文件夹列表
+  const loadFolders = useCallback(async () => {
+    const allFolders = await getFolders();
+    setFolders(allFolders);
+
+    // 当前文件夹已被删除（如在其他标签页中）时回到根目录
+    setCurrentFolderId(prev => prev && !allFolders.some(folder => folder.id === prev) ? null : prev);
+  }, []);
+
+  useEffect(() => {
+    loadFolders();
+  }, [loadFolders]);
+
   // 初始化时加载文件
   useEffect(() => {
     loadFiles();
     
     // 设置定时器，每分钟检查一次过期文件和提醒
-    const intervalId = setInterval(() => {
-      const currentFiles = getStoredFiles();
+    const intervalId = setInterval(async () => {
+      const currentFiles = await getStoredFiles();
       const now = new Date().getTime();
       
-      // 检查即将过期的文件（剩余时间少于1小时）
+      // 检查即将过期的文件（剩余时间少于1小时，永久有效的文件不提醒）
       const expiringFiles = currentFiles.filter(file => {
-        const expiryTime = new Date(file.expiresAt || '').getTime();
-        const timeLeft = expiryTime - now;
+        const timeLeft = getTimeLeft(file.expiresAt, now);
         return timeLeft > 0 && timeLeft < 60 * 60 * 1000; // 少于1小时
       });
       
@@ -141,7 +147,7 @@ export function FileManager() {
           showToast({
             type: "info",
             title: "文件即将过期",
-            description: `有 ${expiringFiles.length} 个文件将在1小时内过期并自动删除`,
+            description: `有 ${expiringFiles.length} 个文件将在1小时内过期并移入回收站`,
           });
           localStorage.setItem('lastExpiryWarning', now.toString());
         }
@@ -151,52 +157,55 @@ export function FileManager() {
       loadFiles().catch(console.error);
     }, 60000); // 60秒
     
-    // 启动自动同步
-    let stopAutoSync: (() => void) | null = null;
-    
-    const setupAutoSync = async () => {
-      const isConnected = await checkCloudConnection();
-      if (isConnected) {
-        const currentFiles = getStoredFiles();
-        stopAutoSync = startAutoSync(currentFiles, (syncedFiles, newCount) => {
-          setFiles(syncedFiles);
-          
-          // 保存同步的文件到本地存储
-          for (const file of syncedFiles) {
-            saveFileToStorage(file);
-          }
-          
-          if (newCount > 0) {
-            showToast({
-              type: "success",
-              title: "发现新文件",
-              description: `从其他设备同步了 ${newCount} 个新文件`,
-            });
-          }
-        });
-      }
-    };
-    
-    setupAutoSync();
-    
-    return () => {
-      clearInterval(intervalId);
-      if (stopAutoSync) {
-        stopAutoSync();
-      }
-    };
+    return () => clearInterval(intervalId);
   }, [showToast, loadFiles]);
 
+  // 其他标签页修改文件列表时，实时重新读取本地存储
+  useEffect(() => {
+    const unsubscribe = subscribeIndexChanges(async (change) => {
+      try {
+        if (change.type === 'folders') {
+          await loadFolders();
+          return;
+        }
+        setFiles(await getStoredFiles());
+      } catch (error) {
+        console.error('同步其他标签页的文件变更失败:', error);
+      }
+    });
+
+    return unsubscribe;
+  }, [loadFolders]);
+
   // 应用筛选和排序
-  const applyFilters = useCallback((fileList: FileInfo[], currentFilters: FilterOptions) => {
-    let filtered = [...fileList];
+  const applyFilters = useCallback((
+    fileList: FileInfo[],
+    currentFilters: FilterOptions,
+    allFolders: Folder[],
+    folderId: string | null
+  ) => {
+    // 所属文件夹不存在的文件视为位于根目录
+    const folderIds = new Set(allFolders.map(folder => folder.id));
+    const getParentId = (file: FileInfo) =>
+      file.parentId && folderIds.has(file.parentId) ? file.parentId : null;
+
+    let filtered: FileInfo[];
 
-    // 应用搜索筛选
-    if (currentFilters.searchTerm) {
+    if (currentFilters.searchTerm || currentFilters.tags.length > 0) {
+      // 搜索或按标签筛选时可限定在当前文件夹及其子文件夹，否则在全部文件中查找
+      const scopeIds = currentFilters.scopeToFolder && folderId
+        ? getDescendantFolderIds(allFolders, folderId)
+        : null;
       const searchLower = currentFilters.searchTerm.toLowerCase();
-      filtered = filtered.filter(file =>
-        file.fileName.toLowerCase().includes(searchLower)
-      );
+      filtered = fileList.filter(file => {
+        const parentId = getParentId(file);
+        return (!scopeIds || (parentId !== null && scopeIds.has(parentId))) &&
+          (file.relativePath || file.fileName).toLowerCase().includes(searchLower) &&
+          matchesTags(file, currentFilters.tags, currentFilters.tagMatchMode);
+      });
+    } else {
+      // 未搜索时只显示当前文件夹中的文件
+      filtered = fileList.filter(file => getParentId(file) === folderId);
     }
 
     // 应用排序
@@ -230,26 +239,46 @@ export function FileManager() {
     return filtered;
   }, []);
 
+  // 全部文件中出现过的标签（用于筛选和自动补全）
+  const allTags = useMemo(() => collectAllTags(files), [files]);
+
   // 当文件列表或筛选条件改变时更新筛选后的文件列表
   useEffect(() => {
-    const filtered = applyFilters(files, filters);
+    const filtered = applyFilters(files, filters, folders, currentFolderId);
     setFilteredFiles(filtered);
-  }, [files, filters]);
+  }, [files, filters, folders, currentFolderId, applyFilters]);
+
+  // 按任务ID记录进行中的上传，同名文件互不影响
+  const handleUploadProgress = useCallback((job: UploadJob) => {
+    setUploadJobs(prev => {
+      const next = { ...prev };
+      if (job.status === 'completed' || job.status === 'cancelled') {
+        delete next[job.id];
+      } else {
+        next[job.id] = job;
+      }
+      return next;
+    });
+  }, []);
+
+  // 进行中上传的汇总
+  const uploadSummary = useMemo(() => {
+    const activeJobs = Object.values(uploadJobs).filter(job =>
+      job.status === 'uploading' || job.status === 'retrying' || job.status === 'queued'
+    );
+    const totalSize = activeJobs.reduce((sum, job) => sum + job.fileSize, 0);
+    const bytesSent = activeJobs.reduce((sum, job) => sum + job.bytesSent, 0);
+    return {
+      count: activeJobs.length,
+      failedCount: Object.values(uploadJobs).filter(job => job.status === 'error').length,
+      progress: totalSize > 0 ? Math.round((bytesSent / totalSize) * 100) : 0,
+    };
+  }, [uploadJobs]);
 
   // 处理文件上传完成
   const handleUploadComplete = async (fileInfo: FileInfo) => {
-    setFiles(prevFiles => {
-      const newFiles = [fileInfo, ...prevFiles];
-      
-      // 异步上传文件索引到云端（不阻塞UI）
-      uploadFileIndex(newFiles).then(() => {
-        console.log('[多设备同步] 文件上传后已同步到云端');
-      }).catch(error => {
-        console.warn('[多设备同步] 同步到云端失败:', error);
-      });
-      
-      return newFiles;
-    });
+    // 新版本沿用原文件ID，替换原有记录并移到最前
+    setFiles(prevFiles => [fileInfo, ...prevFiles.filter(f => f.id !== fileInfo.id)]);
   };
 
   // 处理筛选条件变化
@@ -257,7 +286,7 @@ export function FileManager() {
     setFilters(newFilters);
   };
 
-  // 处理单个文件删除
+  // 处理单个文件删除（移入回收站）
   const handleDeleteFile = async (fileId: string) => {
     if (isDeleting) return;
     
@@ -269,11 +298,8 @@ export function FileManager() {
         throw new Error('文件不存在');
       }
 
-      // 从Cloudinary删除文件
-      await deleteFileFromCloudinary(fileToDelete.publicId, fileToDelete.fileType);
-      
-      // 从本地存储删除文件信息
-      deleteFileFromStorage(fileId);
+      // 移入回收站，保留期结束后才会从Cloudinary删除
+      await deleteFileFromStorage(fileId);
       
       // 更新状态
       setFiles(prevFiles => prevFiles.filter(f => f.id !== fileId));
@@ -281,8 +307,8 @@ export function FileManager() {
       // 显示成功提示
       showToast({
         type: "success",
-        title: "删除成功",
-        description: `文件 "${fileToDelete.fileName}" 已成功删除`,
+        title: "已移入回收站",
+        description: `文件 "${fileToDelete.fileName}" 可在 ${getTrashRetentionDays()} 天内从回收站恢复`,
       });
       
     } catch (error) {
@@ -298,42 +324,24 @@ export function FileManager() {
     }
   };
 
-  // 处理批量删除文件
+  // 处理批量删除文件（移入回收站）
   const handleBatchDelete = async (fileIds: string[]) => {
     if (isDeleting || fileIds.length === 0) return;
     
     setIsDeleting(true);
     
     try {
-      const filesToDelete = files.filter(f => fileIds.includes(f.id));
-      const fileInfos = filesToDelete.map(f => ({ publicId: f.publicId, fileType: f.fileType }));
-
-      // 从Cloudinary批量删除文件
-      const result = await batchDeleteFilesFromCloudinary(fileInfos);
-      
-      // 从本地存储批量删除文件信息
-      batchDeleteFilesFromStorage(fileIds);
+      // 批量移入回收站
+      await batchDeleteFilesFromStorage(fileIds);
       
       // 更新状态
       setFiles(prevFiles => prevFiles.filter(f => !fileIds.includes(f.id)));
       
-      // 显示批量删除结果
-      if (result.failedCount > 0) {
-        console.warn(`批量删除完成，成功: ${result.successCount}，失败: ${result.failedCount}`);
-        console.warn('失败详情:', result.errors);
-        showToast({
-          type: "info",
-          title: "批量删除完成",
-          description: `成功删除 ${result.successCount} 个文件，失败 ${result.failedCount} 个文件`,
-        });
-      } else {
-        console.log(`成功删除 ${result.successCount} 个文件`);
-        showToast({
-          type: "success",
-          title: "批量删除成功",
-          description: `成功删除 ${result.successCount} 个文件`,
-        });
-      }
+      showToast({
+        type: "success",
+        title: "已移入回收站",
+        description: `${fileIds.length} 个文件可在 ${getTrashRetentionDays()} 天内从回收站恢复`,
+      });
       
     } catch (error) {
       console.error('批量删除文件失败:', error);
@@ -347,20 +355,99 @@ export function FileManager() {
     }
   };
 
+  // 处理延长有效期
+  const handleExtendExpiry = async (fileIds: string[], option: ExpiryOption) => {
+    try {
+      const updatedFiles = await extendFileExpiry(fileIds, option);
+      const updatedById = new Map(updatedFiles.map(file => [file.id, file]));
+
+      setFiles(prevFiles => prevFiles.map(file => updatedById.get(file.id) || file));
+
+      showToast({
+        type: "success",
+        title: "有效期已更新",
+        description: option === 'never'
+          ? `${updatedFiles.length} 个文件已设为永久有效`
+          : `${updatedFiles.length} 个文件的有效期已延长 ${getExpiryLabel(option)}`,
+      });
+    } catch (error) {
+      console.error('延长有效期失败:', error);
+      showToast({
+        type: "error",
+        title: "延长有效期失败",
+        description: "请重试",
+      });
+    }
+  };
+
+  // 处理修改文件标签
+  const handleUpdateTags = async (fileId: string, tags: string[]) => {
+    try {
+      const normalizedTags = await updateFileTags(fileId, tags);
+      setFiles(prevFiles => prevFiles.map(file => file.id === fileId ? { ...file, tags: normalizedTags } : file));
+    } catch (error) {
+      console.error('修改标签失败:', error);
+      showToast({
+        type: "error",
+        title: "修改标签失败",
+        description: "请重试",
+      });
+    }
+  };
+
+  // 将历史版本设为当前版本
+  const handlePromoteVersion = async (fileId: string, version: number) => {
+    try {
+      const updatedFile = await promoteFileVersion(fileId, version);
+      setFiles(prevFiles => prevFiles.map(file => file.id === fileId ? updatedFile : file));
+      showToast({
+        type: "success",
+        title: "版本已切换",
+        description: `${updatedFile.fileName} 当前版本为 v${version}`,
+      });
+    } catch (error) {
+      console.error('切换版本失败:', error);
+      showToast({
+        type: "error",
+        title: "切换版本失败",
+        description: error instanceof Error ? error.message : "请重试",
+      });
+    }
+  };
+
+  // 处理移动文件到文件夹
+  const handleMoveFiles = async (fileIds: string[], folderId: string | null) => {
+    try {
+      await moveFilesToFolder(fileIds, folderId);
+
+      const idSet = new Set(fileIds);
+      setFiles(prevFiles => prevFiles.map(file => idSet.has(file.id) ? { ...file, parentId: folderId } : file));
+
+      showToast({
+        type: "success",
+        title: "移动成功",
+        description: `已将 ${fileIds.length} 个文件移动到 "${getFolderPathLabel(folders, folderId)}"`,
+      });
+    } catch (error) {
+      console.error('移动文件失败:', error);
+      showToast({
+        type: "error",
+        title: "移动失败",
+        description: error instanceof Error ? error.message : "请重试",
+      });
+    }
+  };
+
   // 刷新文件列表
   const handleRefresh = async () => {
     setLoading(true);
-    await loadFiles();
+    await Promise.all([loadFiles(), loadFolders()]);
   };
 
   // 生成分享链接
   const handleGenerateShareLink = () => {
     try {
-      const validFiles = files.filter(file => {
-        const now = new Date().getTime();
-        const expiryTime = new Date(file.expiresAt || '').getTime();
-        return expiryTime > now; // 只分享未过期的文件
-      });
+      const validFiles = files.filter(file => !isFileExpired(file)); // 只分享未过期的文件
 
       if (validFiles.length === 0) {
         showToast({
@@ -400,7 +487,7 @@ export function FileManager() {
   };
 
   return (
-    <div className="container mx-auto px-4 py-8 max-w-7xl">
+    <div ref={pageRef} className="container mx-auto px-4 py-8 max-w-7xl">
       {/* 页面标题 */}
       <div className="mb-8">
         <div className="flex items-center justify-between">
@@ -411,6 +498,10 @@ export function FileManager() {
             <p className="text-gray-600">
               支持拖拽上传文件，自动保存到云端，随时随地访问和分享
             </p>
+            <Link href="/" className="inline-flex items-center mt-2 text-sm text-blue-600 hover:text-blue-800">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              返回上传首页
+            </Link>
           </div>
           
           {/* 云端连接状态指示器 */}
@@ -437,15 +528,33 @@ export function FileManager() {
         </div>
       </div>
 
+      {/* 损坏数据恢复提示 */}
+      <IndexRecoveryBanner onRestored={() => loadFiles().catch(console.error)} />
+
       {/* 文件上传区域 */}
       <div className="mb-8">
         <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
-          <h2 className="text-xl font-semibold text-gray-900 mb-4">
-            上传文件
-          </h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-semibold text-gray-900">
+              上传文件
+            </h2>
+            {(uploadSummary.count > 0 || uploadSummary.failedCount > 0) && (
+              <span className="text-sm text-gray-500">
+                {uploadSummary.count > 0 && `${uploadSummary.count} 个文件上传中 · ${uploadSummary.progress}%`}
+                {uploadSummary.failedCount > 0 && (
+                  <span className="ml-2 text-red-600">{uploadSummary.failedCount} 个失败</span>
+                )}
+              </span>
+            )}
+          </div>
           <FileUploader
             onUploadComplete={handleUploadComplete}
-            maxFileSize={50}
+            onUploadProgress={handleUploadProgress}
+            maxFileSize={storageProvider.maxUploadSizeMB}
+            folderId={currentFolderId}
+            tagSuggestions={allTags}
+            existingFiles={files}
+            pasteTarget={pageRef}
           />
         </div>
       </div>
@@ -455,9 +564,19 @@ export function FileManager() {
         <div className="p-6 border-b border-gray-200">
           <div className="flex items-center justify-between mb-4">
             <h2 className="text-xl font-semibold text-gray-900">
-              文件列表
+              {showTrash ? '回收站' : '文件列表'}
             </h2>
             <div className="flex items-center space-x-3">
+              <button
+                onClick={() => setShowTrash(!showTrash)}
+                className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 rounded-md"
+              >
+                <Trash2 className="w-4 h-4 mr-1" />
+                {showTrash ? '返回文件列表' : '回收站'}
+              </button>
+              {!showTrash && (
+                <DuplicateReport files={files} onDelete={handleBatchDelete} />
+              )}
               <button
                 onClick={handleGenerateShareLink}
                 className="px-3 py-2 text-sm font-medium text-white bg-green-600 hover:bg-green-700 rounded-md disabled:opacity-50"
@@ -476,29 +595,55 @@ export function FileManager() {
             </div>
           </div>
           
-          {/* 搜索和排序组件 */}
-          <FileSearchSort
-            onFilterChange={handleFilterChange}
-            totalCount={files.length}
-            filteredCount={filteredFiles.length}
-          />
+          {/* 文件夹导航、搜索和排序组件 */}
+          {!showTrash && (
+            <div className="space-y-4">
+              <FolderNavigator
+                folders={folders}
+                files={files}
+                currentFolderId={currentFolderId}
+                onNavigate={setCurrentFolderId}
+                onFoldersChange={() => {
+                  loadFolders().catch(console.error);
+                  getStoredFiles().then(setFiles).catch(console.error);
+                }}
+              />
+              <FileSearchSort
+                onFilterChange={handleFilterChange}
+                totalCount={files.length}
+                filteredCount={filteredFiles.length}
+                currentFolderName={getFolderPath(folders, currentFolderId).pop()?.name}
+                availableTags={allTags}
+              />
+            </div>
+          )}
         </div>
 
-        {/* 文件列表 */}
+        {/* 文件列表 / 回收站 */}
         <div className="p-6">
-          <FileList
-            files={filteredFiles}
-            onDelete={handleDeleteFile}
-            onBatchDelete={handleBatchDelete}
-            loading={loading}
-          />
+          {showTrash ? (
+            <TrashView onRestored={() => loadFiles().catch(console.error)} />
+          ) : (
+            <FileList
+              files={filteredFiles}
+              onDelete={handleDeleteFile}
+              onBatchDelete={handleBatchDelete}
+              onExtendExpiry={handleExtendExpiry}
+              folders={folders}
+              onMoveFiles={handleMoveFiles}
+              onUpdateTags={handleUpdateTags}
+              tagSuggestions={allTags}
+              onPromoteVersion={handlePromoteVersion}
+              loading={loading}
+            />
+          )}
         </div>
       </div>
 
       {/* 页脚信息 */}
       <div className="mt-8 text-center text-sm text-gray-500">
         <p>
-          使用 Cloudinary 提供文件存储服务 • 支持最大 50MB 文件上传
+          使用 {storageProvider.label} 提供文件存储服务 • 支持最大 {storageProvider.maxUploadSizeMB}MB 文件上传{storageProvider.discardUploadProgress ? '（大文件分块上传，支持断点续传）' : ''}
         </p>
       </div>
     </div>
@@ -1,20 +1,26 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { Search, ArrowUpDown, ArrowUp, ArrowDown, Filter } from 'lucide-react';
+import { Search, ArrowUpDown, ArrowUp, ArrowDown, Filter, Tag } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
 import { FileSearchSortProps, FilterOptions } from '@/lib/types';
 
 export function FileSearchSort({
   onFilterChange,
   totalCount,
   filteredCount,
+  currentFolderName,
+  availableTags = [],
 }: FileSearchSortProps) {
   const [searchTerm, setSearchTerm] = useState('');
   const [sortBy, setSortBy] = useState<FilterOptions['sortBy']>('uploadTime');
   const [sortOrder, setSortOrder] = useState<FilterOptions['sortOrder']>('desc');
   const [debouncedSearchTerm, setDebouncedSearchTerm] = useState('');
+  const [scopeToFolder, setScopeToFolder] = useState(true);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [tagMatchMode, setTagMatchMode] = useState<FilterOptions['tagMatchMode']>('or');
 
   // 搜索关键词防抖处理
   useEffect(() => {
@@ -31,10 +37,26 @@ export function FileSearchSort({
       searchTerm: debouncedSearchTerm,
       sortBy,
       sortOrder,
+      scopeToFolder,
+      tags: selectedTags,
+      tagMatchMode,
     };
     
     onFilterChange(filters);
-  }, [debouncedSearchTerm, sortBy, sortOrder, onFilterChange]);
+  }, [debouncedSearchTerm, sortBy, sortOrder, scopeToFolder, selectedTags, tagMatchMode, onFilterChange]);
+
+  // 标签被删除后（如所有文件都移除了该标签）从筛选条件中去掉
+  useEffect(() => {
+    setSelectedTags(prev => {
+      const next = prev.filter(tag => availableTags.includes(tag));
+      return next.length === prev.length ? prev : next;
+    });
+  }, [availableTags]);
+
+  // 切换标签筛选
+  const toggleTag = (tag: string) => {
+    setSelectedTags(prev => prev.includes(tag) ? prev.filter(item => item !== tag) : [...prev, tag]);
+  };
 
   // 处理排序字段变更
   const handleSortByChange = (field: FilterOptions['sortBy']) => {
@@ -71,6 +93,9 @@ export function FileSearchSort({
     setSearchTerm('');
     setSortBy('uploadTime');
     setSortOrder('desc');
+    setScopeToFolder(true);
+    setSelectedTags([]);
+    setTagMatchMode('or');
   };
 
   return (
@@ -109,6 +134,60 @@ export function FileSearchSort({
         </div>
       </div>
 
+      {/* 搜索范围 */}
+      {currentFolderName && (
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <Checkbox
+            checked={scopeToFolder}
+            onCheckedChange={(checked) => setScopeToFolder(!!checked)}
+          />
+          仅搜索当前文件夹（{currentFolderName}）及其子文件夹
+        </label>
+      )}
+
+      {/* 标签筛选 */}
+      {availableTags.length > 0 && (
+        <div className="flex flex-col sm:flex-row gap-2 sm:items-start">
+          <span className="text-sm text-gray-600 whitespace-nowrap sm:pt-1">标签筛选:</span>
+          <div className="flex gap-2 flex-wrap items-center">
+            {availableTags.map(tag => (
+              <button
+                key={tag}
+                onClick={() => toggleTag(tag)}
+                className={`inline-flex items-center px-2 py-1 rounded-full text-xs border ${
+                  selectedTags.includes(tag)
+                    ? 'bg-indigo-600 text-white border-indigo-600'
+                    : 'bg-white text-gray-700 border-gray-300 hover:border-indigo-300'
+                }`}
+              >
+                <Tag className="h-3 w-3 mr-1" />
+                {tag}
+              </button>
+            ))}
+            {selectedTags.length > 1 && (
+              <div className="flex gap-1 ml-2">
+                <Button
+                  variant={tagMatchMode === 'or' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setTagMatchMode('or')}
+                  title="包含任一所选标签"
+                >
+                  任一匹配
+                </Button>
+                <Button
+                  variant={tagMatchMode === 'and' ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setTagMatchMode('and')}
+                  title="包含全部所选标签"
+                >
+                  全部匹配
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* 排序选项 */}
       <div className="flex flex-col sm:flex-row gap-2 sm:items-center">
         <span className="text-sm text-gray-600 whitespace-nowrap">排序方式:</span>
@@ -149,7 +228,7 @@ export function FileSearchSort({
           <span>
             共 {totalCount} 个文件
           </span>
-          {searchTerm && filteredCount !== totalCount && (
+          {(searchTerm || selectedTags.length > 0) && filteredCount !== totalCount && (
             <span className="text-blue-600">
               筛选后显示 {filteredCount} 个文件
             </span>
@@ -163,6 +242,11 @@ export function FileSearchSort({
               搜索: {searchTerm}
             </span>
           )}
+          {selectedTags.length > 0 && (
+            <span className="inline-flex items-center px-2 py-1 rounded-full text-xs bg-indigo-100 text-indigo-800">
+              标签: {selectedTags.join(tagMatchMode === 'and' ? ' 且 ' : ' 或 ')}
+            </span>
+          )}
           <span className="inline-flex items-center px-2 py-1 rounded-full text-xs bg-gray-100 text-gray-800">
             {sortBy === 'fileName' ? '文件名' : sortBy === 'uploadTime' ? '上传时间' : '文件大小'}
             {sortOrder === 'asc' ? ' ↑' : ' ↓'}
@@ -1,39 +1,488 @@
 'use client';
 
-import React, { useCallback, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
-import { Upload, FileIcon, AlertCircle, CheckCircle } from 'lucide-react';
+import { Upload, FileIcon, FolderUp, Link, Lock, AlertCircle } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Progress } from '@/components/ui/progress';
-import { uploadFileToCloudinary } from '@/lib/cloudinary';
-import { saveFileToStorage } from '@/lib/storage';
+import { getActiveStorageProvider } from '@/lib/storage-provider';
+import { createUploadError, isAbortError } from '@/lib/upload-errors';
+import { createUploadQueue, toUploadJob, DEFAULT_UPLOAD_CONCURRENCY, UploadProcessCallbacks } from '@/lib/upload-queue';
 import { validateFileSize, validateFileType, generateId, formatFileSize } from '@/lib/utils';
-import { FileUploaderProps, UploadProgress, FileInfo } from '@/lib/types';
+import { checkFileType } from '@/lib/file-signature';
+import { FileUploaderProps, FileInfo, ExpiryOption, ImageCompressionSettings, StorageUploadResult, UploadQueue, UploadQueueItem } from '@/lib/types';
+import { EXPIRY_OPTIONS, DEFAULT_EXPIRY_OPTION, computeExpiresAt } from '@/lib/expiry';
+import { findVersionTarget, getNextVersion, saveFileVersion } from '@/lib/versions';
+import { MAX_UPLOADER_NAME_LENGTH, getUploaderName, setUploaderName } from '@/lib/storage';
+import { findFilesByHash, hashFile, isHashSupported } from '@/lib/file-hash';
+import {
+  DEFAULT_IMAGE_COMPRESSION_SETTINGS,
+  IMAGE_FORMAT_OPTIONS,
+  IMAGE_QUALITY_OPTIONS,
+  MAX_DIMENSION_OPTIONS,
+  compressImage,
+  getImageCompressionSettings,
+  isCompressibleImage,
+  isImageCompressionSupported,
+  setImageCompressionSettings,
+} from '@/lib/image-compression';
+import { getStripMetadataEnabled, isMetadataStrippable, setStripMetadataEnabled, stripImageMetadata } from '@/lib/image-metadata';
+import { getClipboardFiles, parseRemoteUrl, probeRemoteFile, readRemoteFileHeader } from '@/lib/upload-sources';
+import { MAX_ENCRYPTED_FILE_SIZE_MB, encryptFile, isEncryptionSupported } from '@/lib/encryption';
+import { TagEditor } from './TagEditor';
+import { PendingUploadsNotice } from './PendingUploadsNotice';
+import { UploadQueuePanel } from './UploadQueuePanel';
+
+// 版本设置：自动识别同名文件 / 始终作为新文件（其他取值为目标文件ID）
+const AUTO_VERSION = 'auto';
+const NEW_FILE = 'new';
+
+// 新上传文件使用的存储服务
+const storageProvider = getActiveStorageProvider();
+
+/**
+ * 计算文件内容哈希，失败时不影响上传
+ * @param file 要上传的文件
+ * @returns 哈希值，无法计算时返回undefined
+ */
+async function computeContentHash(file: File): Promise<string | undefined> {
+  if (!isHashSupported()) return undefined;
+
+  try {
+    return await hashFile(file);
+  } catch (error) {
+    console.warn(`计算文件哈希失败: ${file.name}`, error);
+    return undefined;
+  }
+}
+
+/**
+ * 核对由存储服务抓取的远程文件：入队前的HEAD探测可能拿不到大小和类型，抓取完成后按实际大小和文件头重新校验
+ * 不符合要求时删除已抓取的文件
+ * @param result 抓取结果
+ * @param fileName 文件名
+ * @param context 上传设置
+ * @param signal 中止信号
+ * @returns 由文件头识别出的MIME类型
+ */
+async function verifyFetchedFile(
+  result: StorageUploadResult,
+  fileName: string,
+  context: UploadContext,
+  signal: AbortSignal
+): Promise<string> {
+  let error: string | undefined;
+  let mimeType = result.mimeType;
+
+  if (!validateFileSize({ size: result.bytes }, context.maxFileSize)) {
+    error = `文件大小超出限制 (${formatFileSize(result.bytes)} > ${context.maxFileSize}MB)`;
+  } else {
+    try {
+      const header = await readRemoteFileHeader(result.url, signal);
+      const check = await checkFileType(new File([header], fileName, { type: result.mimeType }));
+      mimeType = check.mimeType;
+      error = check.error;
+    } catch (readError) {
+      if (isAbortError(readError)) throw readError;
+      console.warn(`读取抓取文件的文件头失败: ${fileName}`, readError);
+      error = '无法读取抓取到的文件以核对类型';
+    }
+
+    if (!error && !validateFileType({ name: fileName, type: mimeType }, context.acceptedTypes)) {
+      error = `文件类型不支持，支持的类型: ${context.acceptedTypes?.join(', ') || '所有类型'}`;
+    }
+  }
+
+  if (error) {
+    try {
+      await storageProvider.delete(result.publicId, result.mimeType);
+    } catch (deleteError) {
+      console.error(`删除不符合要求的抓取文件失败: ${result.publicId}`, deleteError);
+    }
+    throw createUploadError('config', error, 'remote_file_rejected');
+  }
+
+  return mimeType;
+}
+
+// 入队时记录的上传设置（之后修改设置不影响已在队列中的文件）
+interface UploadContext {
+  maxFileSize: number;        // 最大文件大小（MB）
+  acceptedTypes?: string[];   // 允许的文件类型
+  expiryOption: ExpiryOption;
+  folderId: string | null;
+  tags: string[];
+  versionTarget?: FileInfo;   // 明确指定的新版本目标
+  autoVersion: boolean;       // 是否自动将同名文件作为新版本
+  imageCompression: ImageCompressionSettings | null;  // 图片压缩设置（未开启时为null）
+  stripMetadata: boolean;     // 是否去除图片元数据
+  encrypt: boolean;           // 是否端到端加密
+  uploader: string;           // 上传者名称（未设置时为空）
+}
 
 export function FileUploader({ 
   onUploadComplete, 
   onUploadProgress,
-  maxFileSize = 50,
-  acceptedTypes
+  maxFileSize = storageProvider.maxUploadSizeMB,
+  acceptedTypes,
+  folderId = null,
+  tagSuggestions,
+  existingFiles = [],
+  concurrency: defaultConcurrency = DEFAULT_UPLOAD_CONCURRENCY,
+  pasteTarget
 }: FileUploaderProps) {
-  const [uploadingFiles, setUploadingFiles] = useState<UploadProgress[]>([]);
+  const [queueItems, setQueueItems] = useState<UploadQueueItem<UploadContext>[]>([]);
+  const [concurrency, setConcurrency] = useState(defaultConcurrency);
   const [isDragActive, setIsDragActive] = useState(false);
   const [errors, setErrors] = useState<string[]>([]);
+  const [expiryOption, setExpiryOption] = useState<ExpiryOption>(DEFAULT_EXPIRY_OPTION);
+  const [uploadTags, setUploadTags] = useState<string[]>([]);
+  const [versionTarget, setVersionTarget] = useState<string>(AUTO_VERSION);
+  const [remoteUrl, setRemoteUrl] = useState('');
+  const [isProbing, setIsProbing] = useState(false);
+  const [compressionSettings, setCompressionSettings] = useState<ImageCompressionSettings>(DEFAULT_IMAGE_COMPRESSION_SETTINGS);
+  const [compressionSupported, setCompressionSupported] = useState(false);
+  const [stripMetadata, setStripMetadata] = useState(true);
+  const [keepOriginalIds, setKeepOriginalIds] = useState<string[]>([]);
+  const [encrypt, setEncrypt] = useState(false);
+  const [encryptionSupported, setEncryptionSupported] = useState(false);
+  const [uploader, setUploader] = useState('');
+  // 等待确认是否复用重复文件的队列项（队列项ID → 已有文件名）
+  const [duplicatePrompts, setDuplicatePrompts] = useState<Record<string, string>>({});
+
+  // 队列在组件生命周期内只创建一次，通过ref读取最新的属性
+  const existingFilesRef = useRef(existingFiles);
+  const onUploadCompleteRef = useRef(onUploadComplete);
+  const onUploadProgressRef = useRef(onUploadProgress);
+  existingFilesRef.current = existingFiles;
+  onUploadCompleteRef.current = onUploadComplete;
+  onUploadProgressRef.current = onUploadProgress;
+
+  // 本次会话中已上传的文件，用于识别同时上传的同名文件
+  const uploadedFilesRef = useRef<FileInfo[]>([]);
+  const queueRef = useRef<UploadQueue<UploadContext> | null>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const lastItemsRef = useRef<UploadQueueItem<UploadContext>[]>([]);
+  // 选择保留原图的队列项（处理时读取最新选择）
+  const keepOriginalIdsRef = useRef(new Set<string>());
+  keepOriginalIdsRef.current = new Set(keepOriginalIds);
+  // 重复文件确认的回调（队列项ID → 提交选择）
+  const duplicateResolversRef = useRef(new Map<string, (reuse: boolean) => void>());
+
+  // 在队列项上询问是否复用内容相同的已有文件，不阻塞其他文件上传；暂停或取消时视为不复用
+  const askReuseDuplicate = useCallback((id: string, duplicate: FileInfo, signal: AbortSignal) => {
+    return new Promise<boolean>(resolve => {
+      const settle = (reuse: boolean) => {
+        signal.removeEventListener('abort', handleAbort);
+        duplicateResolversRef.current.delete(id);
+        setDuplicatePrompts(({ [id]: _settled, ...rest }) => rest);
+        resolve(reuse);
+      };
+      const handleAbort = () => settle(false);
+
+      duplicateResolversRef.current.set(id, settle);
+      signal.addEventListener('abort', handleAbort);
+      setDuplicatePrompts(prev => ({ ...prev, [id]: duplicate.fileName }));
+    });
+  }, []);
+
+  // 上传单个队列项
+  const processUpload = useCallback(async (
+    item: UploadQueueItem<UploadContext>,
+    signal: AbortSignal,
+    { onProgress, onRetry, onFileProcessed, onFileEncrypted }: UploadProcessCallbacks
+  ) => {
+    const { context, relativePath } = item;
+    const knownFiles = [...uploadedFilesRef.current, ...existingFilesRef.current];
+    let { file } = item;
+    let metadataStripped = item.metadataStripped || false;
+
+    try {
+      // 上传前预处理图片（重试时已是处理后的文件，不再重复处理）
+      if (file && item.originalSize === undefined) {
+        let processed = file;
+
+        // 压缩图片（用户选择保留原图时跳过），重新编码后的图片不含元数据
+        if (context.imageCompression && isCompressibleImage(file) && !keepOriginalIdsRef.current.has(item.id)) {
+          try {
+            processed = await compressImage(file, context.imageCompression);
+            metadataStripped = processed !== file;
+          } catch (error) {
+            console.warn(`压缩图片失败，将上传原图: ${file.name}`, error);
+          }
+        }
+
+        // 去除EXIF/GPS、XMP和IPTC元数据
+        if (context.stripMetadata && !metadataStripped && isMetadataStrippable(processed)) {
+          try {
+            const result = await stripImageMetadata(processed);
+            processed = result.file;
+            metadataStripped = result.clean;
+          } catch (error) {
+            console.warn(`去除图片元数据失败: ${file.name}`, error);
+          }
+        }
+
+        if (signal.aborted) return;
+        if (processed !== file || metadataStripped) {
+          onFileProcessed(processed, { metadataStripped });
+          file = processed;
+        }
+      }
+
+      const fileName = file ? file.name : item.fileName;
+
+      // 确定是否作为已有文件的新版本：新版本沿用原文件ID
+      const target = context.versionTarget || (context.autoVersion
+        ? findVersionTarget(knownFiles, fileName, context.folderId, relativePath)
+        : undefined);
+
+      // 先创建文件信息对象（用于生成云端标签）
+      const now = new Date();
+      
+      const fileInfo: FileInfo = {
+        id: target ? target.id : generateId(),
+        fileName,
+        uploadTime: now.toISOString(),
+        expiresAt: computeExpiresAt(context.expiryOption, now.getTime()), // 按所选有效期计算过期时间
+        expiryOption: context.expiryOption,
+        fileSize: file ? file.size : item.fileSize, // 从链接上传时以存储服务抓取结果为准
+        cloudinaryUrl: '', // 稍后填充
+        fileType: file ? (await checkFileType(file)).mimeType : '', // 以文件头识别出的类型为准
+        publicId: '', // 稍后填充
+        storageProvider: storageProvider.id,
+        parentId: context.folderId, // 上传到入队时所在的文件夹
+        relativePath, // 随文件夹上传时保留原有路径
+        tags: context.tags,
+        uploader: context.uploader || undefined,
+        contentHash: file ? await computeContentHash(file) : undefined, // 远程文件不在本地，无法计算
+        metadataStripped: metadataStripped || undefined,
+        version: target ? getNextVersion(target) : 1, // 写入云端元数据，其他设备据此还原版本顺序
+      };
+
+      if (signal.aborted) return;
+
+      // 内容与已有文件相同时，可直接复用已有文件的链接，不重复上传（加密与否需一致）
+      const duplicate = fileInfo.contentHash
+        ? findFilesByHash(knownFiles, fileInfo.contentHash).find(other => !!other.encryptionKey === context.encrypt)
+        : undefined;
+      const reuseDuplicate = duplicate ? await askReuseDuplicate(item.id, duplicate, signal) : false;
+      if (signal.aborted) return;
+
+      if (duplicate && reuseDuplicate) {
+        fileInfo.cloudinaryUrl = duplicate.cloudinaryUrl;
+        fileInfo.publicId = duplicate.publicId;
+        fileInfo.storageProvider = duplicate.storageProvider;
+        fileInfo.encryptionKey = duplicate.encryptionKey;
+      } else if (file) {
+        // 加密后再上传，密钥只保存在本地索引和下载链接中；
+        // 密文记录在队列项上，重试和暂停后继续时沿用同一密文，分块上传才能从断点继续
+        let { encrypted } = item;
+        if (context.encrypt && !encrypted) {
+          encrypted = await encryptFile(file);
+          onFileEncrypted(encrypted);
+        }
+        fileInfo.encryptionKey = encrypted?.key;
+        if (signal.aborted) return;
+
+        // 上传到存储服务（包含文件信息用于生成云端标签）
+        const uploadResult = await storageProvider.upload(
+          encrypted ? encrypted.file : file,
+          fileInfo,
+          (_progress, bytesSent) => onProgress(bytesSent),
+          signal,
+          (_attempt, delay, error) => onRetry(delay, error)
+        );
+
+        // 完善文件信息
+        fileInfo.cloudinaryUrl = uploadResult.url;
+        fileInfo.publicId = uploadResult.publicId;
+      } else if (item.sourceUrl) {
+        if (!storageProvider.uploadFromUrl) {
+          throw createUploadError('config', `${storageProvider.label} 不支持从链接上传`);
+        }
+
+        // 由存储服务抓取远程文件，大小和类型以抓取结果为准
+        const uploadResult = await storageProvider.uploadFromUrl(
+          item.sourceUrl,
+          fileInfo,
+          (_progress, bytesSent) => onProgress(bytesSent),
+          signal,
+          (_attempt, delay, error) => onRetry(delay, error)
+        );
+
+        fileInfo.cloudinaryUrl = uploadResult.url;
+        fileInfo.publicId = uploadResult.publicId;
+        fileInfo.fileSize = uploadResult.bytes;
+        fileInfo.fileType = await verifyFetchedFile(uploadResult, fileName, context, signal);
+      }
+
+      // 保存到本地存储（已有文件时记录为新版本）
+      const savedFile = await saveFileVersion(fileInfo);
+      uploadedFilesRef.current = [savedFile, ...uploadedFilesRef.current];
+
+      // 通知父组件上传完成
+      onUploadCompleteRef.current(savedFile);
+
+      // 延迟移除完成的上传项
+      setTimeout(() => queueRef.current?.remove(item.id), 2000);
+    } catch (error) {
+      // 暂停或取消导致的中止不算失败
+      if (isAbortError(error)) return;
+
+      console.error('文件上传失败:', error);
+
+      // 失败项保留在队列中，由用户重试或移除
+      throw error;
+    }
+  }, [askReuseDuplicate]);
+
+  // 队列变化时逐个上报状态有变化的上传任务（队列项不可变，按引用比较即可）
+  const handleQueueChange = useCallback((items: UploadQueueItem<UploadContext>[]) => {
+    const previous = new Set(lastItemsRef.current);
+    lastItemsRef.current = items;
+    setQueueItems(items);
+    setKeepOriginalIds(prev => {
+      const next = prev.filter(id => items.some(item => item.id === id));
+      return next.length === prev.length ? prev : next;
+    });
+
+    items
+      .filter(item => !previous.has(item))
+      .forEach(item => onUploadProgressRef.current?.(toUploadJob(item)));
+  }, []);
+
+  if (!queueRef.current) {
+    queueRef.current = createUploadQueue<UploadContext>({
+      concurrency: defaultConcurrency,
+      process: processUpload,
+      onChange: handleQueueChange,
+    });
+  }
+
+  // 页面卸载时中止所有进行中的上传（分块上传的进度会保留用于续传）
+  useEffect(() => {
+    return () => queueRef.current?.cancelAll();
+  }, []);
+
+  // 修改同时上传数
+  const handleConcurrencyChange = (value: number) => {
+    setConcurrency(value);
+    queueRef.current?.setConcurrency(value);
+  };
+
+  // 取消上传并放弃已上传的分块（加密上传的分块会话属于密文）
+  const handleCancel = (id: string) => {
+    const item = queueRef.current?.getItems().find(queued => queued.id === id);
+    queueRef.current?.cancel(id);
+    const uploadedFile = item?.encrypted?.file || item?.file;
+    if (uploadedFile) {
+      storageProvider.discardUploadProgress?.(uploadedFile);
+    }
+  };
+
+  // 提交重复文件的选择
+  const handleResolveDuplicate = (id: string, reuse: boolean) => {
+    duplicateResolversRef.current.get(id)?.(reuse);
+  };
+
+  const handleCancelAll = () => {
+    if (!window.confirm('确定要取消所有未完成的上传吗？')) return;
+
+    const items = queueRef.current?.getItems() || [];
+    queueRef.current?.cancelAll();
+    items
+      .forEach(item => {
+        const uploadedFile = item.encrypted?.file || item.file;
+        if (uploadedFile && item.status !== 'completed') {
+          storageProvider.discardUploadProgress?.(uploadedFile);
+        }
+      });
+  };
+
+  // 按当前设置创建上传上下文
+  const createUploadContext = useCallback((explicitTarget?: FileInfo): UploadContext => ({
+    maxFileSize,
+    acceptedTypes,
+    expiryOption,
+    folderId,
+    tags: uploadTags,
+    versionTarget: explicitTarget,
+    autoVersion: versionTarget !== NEW_FILE,
+    imageCompression: compressionSettings.enabled && compressionSupported ? compressionSettings : null,
+    stripMetadata,
+    encrypt: encrypt && encryptionSupported,
+    uploader: uploader.trim(),
+  }), [maxFileSize, acceptedTypes, expiryOption, folderId, uploadTags, versionTarget, compressionSettings, compressionSupported, stripMetadata, encrypt, encryptionSupported, uploader]);
+
+  // 读取保存的图片处理设置（挂载后读取，避免与服务端渲染结果不一致）
+  useEffect(() => {
+    setCompressionSettings(getImageCompressionSettings());
+    setCompressionSupported(isImageCompressionSupported());
+    setStripMetadata(getStripMetadataEnabled());
+    setEncryptionSupported(isEncryptionSupported());
+    setUploader(getUploaderName());
+  }, []);
+
+  // 修改并保存是否去除图片元数据
+  const handleStripMetadataChange = (enabled: boolean) => {
+    setStripMetadata(enabled);
+    setStripMetadataEnabled(enabled);
+  };
+
+  // 修改并保存上传者名称
+  const handleUploaderChange = (name: string) => {
+    setUploader(name);
+    setUploaderName(name);
+  };
+
+  // 修改并保存图片压缩设置
+  const updateCompressionSettings = (changes: Partial<ImageCompressionSettings>) => {
+    const next = { ...compressionSettings, ...changes };
+    setCompressionSettings(next);
+    setImageCompressionSettings(next);
+  };
+
+  // 切换单个队列项是否保留原图
+  const handleToggleKeepOriginal = (id: string) => {
+    setKeepOriginalIds(prev => prev.includes(id) ? prev.filter(other => other !== id) : [...prev, id]);
+  };
+
+  // 仍可选择保留原图的队列项：待压缩的图片且尚未开始处理
+  const canKeepOriginal = (item: UploadQueueItem) => {
+    const queued = item as UploadQueueItem<UploadContext>;
+    return Boolean(
+      queued.file && queued.context.imageCompression && queued.originalSize === undefined &&
+      isCompressibleImage(queued.file) && (queued.status === 'queued' || queued.status === 'paused')
+    );
+  };
 
   // 处理文件上传
   const handleFileUpload = useCallback(async (files: File[]) => {
     setErrors([]);
     const validFiles: File[] = [];
     const currentErrors: string[] = [];
+    // 加密时密文整体保存在内存中，单独限制大小
+    const encrypting = encrypt && encryptionSupported;
+    const sizeLimit = encrypting ? Math.min(maxFileSize, MAX_ENCRYPTED_FILE_SIZE_MB) : maxFileSize;
+
+    // 验证文件（读取文件头核对实际内容，不只看扩展名和浏览器提供的类型）
+    const checks = await Promise.all(files.map(file => checkFileType(file)));
+    files.forEach((file, index) => {
+      if (!validateFileSize(file, sizeLimit)) {
+        currentErrors.push(
+          `${file.name}: ${encrypting ? '加密上传的' : ''}文件大小超出限制 (${formatFileSize(file.size)} > ${sizeLimit}MB)`
+        );
+        return;
+      }
 
-    // 验证文件
-    files.forEach(file => {
-      if (!validateFileSize(file, maxFileSize)) {
-        currentErrors.push(`${file.name}: 文件大小超出限制 (${formatFileSize(file.size)} > ${maxFileSize}MB)`);
+      const { mimeType, error } = checks[index];
+      if (error) {
+        currentErrors.push(`${file.name}: ${error}`);
         return;
       }
 
-      if (!validateFileType(file, acceptedTypes)) {
+      if (!validateFileType({ name: file.name, type: mimeType }, acceptedTypes)) {
         const acceptedStr = acceptedTypes?.join(', ') || '所有类型';
         currentErrors.push(`${file.name}: 文件类型不支持，支持的类型: ${acceptedStr}`);
         return;
@@ -42,107 +491,108 @@ export function FileUploader({
       validFiles.push(file);
     });
 
+    // 指定了目标文件时只能上传一个新版本
+    const explicitTarget = existingFiles.find(file => file.id === versionTarget);
+    if (explicitTarget && validFiles.length > 1) {
+      currentErrors.push(`指定作为 "${explicitTarget.fileName}" 的新版本时，一次只能上传一个文件`);
+      validFiles.length = 0;
+    }
+
     if (currentErrors.length > 0) {
       setErrors(currentErrors);
     }
 
-    // 上传有效文件
-    for (const file of validFiles) {
-      const fileId = generateId();
-      const progressInfo: UploadProgress = {
-        fileName: file.name,
-        progress: 0,
-        status: 'uploading'
-      };
+    if (validFiles.length === 0) return;
 
-      // 添加到上传队列
-      setUploadingFiles(prev => [...prev, progressInfo]);
-
-      try {
-        // 先创建文件信息对象（用于生成云端标签）
-        const now = new Date();
-        const expiresAt = new Date(now.getTime() + 24 * 60 * 60 * 1000); // 24小时后过期
-        
-        const fileInfo: FileInfo = {
-          id: fileId,
-          fileName: file.name,
-          uploadTime: now.toISOString(),
-          expiresAt: expiresAt.toISOString(),
-          fileSize: file.size,
-          cloudinaryUrl: '', // 稍后填充
-          fileType: file.type,
-          publicId: '', // 稍后填充
-        };
-
-        // 上传到Cloudinary（包含文件信息用于生成云端标签）
-        const uploadResult = await uploadFileToCloudinary(file, fileInfo, (progress) => {
-          // 更新上传进度
-          setUploadingFiles(prev => 
-            prev.map(item => 
-              item.fileName === file.name 
-                ? { ...item, progress }
-                : item
-            )
-          );
-          
-          if (onUploadProgress) {
-            onUploadProgress({ ...progressInfo, progress });
-          }
-        });
+    // 加入上传队列
+    queueRef.current?.add(validFiles.map(file => ({ file, context: createUploadContext(explicitTarget) })));
 
-        // 完善文件信息
-        fileInfo.cloudinaryUrl = uploadResult.url;
-        fileInfo.publicId = uploadResult.publicId;
+    // 指定的新版本加入队列后恢复为自动识别
+    if (explicitTarget) {
+      setVersionTarget(AUTO_VERSION);
+    }
+  }, [maxFileSize, acceptedTypes, existingFiles, versionTarget, encrypt, encryptionSupported, createUploadContext]);
 
-        // 保存到本地存储
-        saveFileToStorage(fileInfo);
+  // 从链接上传：先尽量获取远程文件的大小和类型进行校验，再交给存储服务抓取（抓取完成后按实际内容再次核对）
+  const handleUrlUpload = async () => {
+    const url = parseRemoteUrl(remoteUrl);
+    if (!url) {
+      setErrors(['请输入以 http:// 或 https:// 开头的有效链接']);
+      return;
+    }
 
-        // 更新状态为完成
-        setUploadingFiles(prev => 
-          prev.map(item => 
-            item.fileName === file.name 
-              ? { ...item, progress: 100, status: 'completed' }
-              : item
-          )
-        );
+    // 远程文件由存储服务直接抓取，不经过浏览器，无法加密
+    if (encrypt && encryptionSupported) {
+      setErrors(['从链接上传的文件由云端直接抓取，无法加密，请取消加密选项或下载后再上传']);
+      return;
+    }
 
-        // 通知父组件上传完成
-        onUploadComplete(fileInfo);
-
-        // 延迟移除完成的上传项
-        setTimeout(() => {
-          setUploadingFiles(prev => 
-            prev.filter(item => item.fileName !== file.name)
-          );
-        }, 2000);
-
-      } catch (error) {
-        console.error('文件上传失败:', error);
-        
-        // 更新状态为错误
-        setUploadingFiles(prev => 
-          prev.map(item => 
-            item.fileName === file.name 
-              ? { ...item, status: 'error' }
-              : item
-          )
-        );
+    setErrors([]);
+    setIsProbing(true);
+    const remoteFile = await probeRemoteFile(url);
+    setIsProbing(false);
+
+    if (remoteFile.fileSize !== undefined && !validateFileSize({ size: remoteFile.fileSize }, maxFileSize)) {
+      setErrors([`${remoteFile.fileName}: 文件大小超出限制 (${formatFileSize(remoteFile.fileSize)} > ${maxFileSize}MB)`]);
+      return;
+    }
+
+    if (!validateFileType({ name: remoteFile.fileName, type: remoteFile.fileType || '' }, acceptedTypes)) {
+      const acceptedStr = acceptedTypes?.join(', ') || '所有类型';
+      setErrors([`${remoteFile.fileName}: 文件类型不支持，支持的类型: ${acceptedStr}`]);
+      return;
+    }
 
-        // 添加错误信息
-        const errorMessage = error instanceof Error ? error.message : '上传失败';
-        setErrors(prev => [...prev, `${file.name}: ${errorMessage}`]);
+    const explicitTarget = existingFiles.find(file => file.id === versionTarget);
+    queueRef.current?.add([{
+      sourceUrl: url.href,
+      fileName: remoteFile.fileName,
+      fileSize: remoteFile.fileSize,
+      context: createUploadContext(explicitTarget),
+    }]);
 
-        // 延迟移除错误的上传项
-        setTimeout(() => {
-          setUploadingFiles(prev => 
-            prev.filter(item => item.fileName !== file.name)
-          );
-        }, 5000);
-      }
+    setRemoteUrl('');
+    if (explicitTarget) {
+      setVersionTarget(AUTO_VERSION);
     }
-  }, [maxFileSize, acceptedTypes, onUploadComplete, onUploadProgress]);
+  };
+
+  // 粘贴上传：剪贴板中有文件或截图时加入上传队列
+  // 只处理在所在页面区域内（或未聚焦任何元素时）的粘贴，在输入框、弹窗等其他位置粘贴时不处理
+  useEffect(() => {
+    const handlePaste = (event: ClipboardEvent) => {
+      const target = event.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) {
+        return;
+      }
+
+      const scope = pasteTarget?.current || rootRef.current;
+      const inScope = target === document.body || Boolean(target && scope?.contains(target));
+      if (!inScope) return;
+
+      const files = getClipboardFiles(event.clipboardData);
+      if (files.length === 0) return;
+
+      event.preventDefault();
+      handleFileUpload(files);
+    };
+
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [handleFileUpload, pasteTarget]);
+
+  // 文件夹选择器：webkitdirectory不在React的属性类型中，挂载后再设置
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
 
-  // 设置dropzone配置
+  const handleFolderSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    handleFileUpload(Array.from(e.target.files || []));
+    // 清空选择，允许再次选择同一文件夹
+    e.target.value = '';
+  };
+
+  // 设置dropzone配置（拖入的文件夹会被展开，文件带有相对路径）
   const onDrop = useCallback((acceptedFiles: File[]) => {
     handleFileUpload(acceptedFiles);
   }, [handleFileUpload]);
@@ -170,7 +620,7 @@ export function FileUploader({
   };
 
   return (
-    <div className="w-full space-y-4">
+    <div ref={rootRef} className="w-full space-y-4">
       {/* 拖拽上传区域 */}
       <div {...getRootProps()} className={getDropzoneClassName()}>
         <input {...getInputProps()} />
@@ -178,10 +628,10 @@ export function FileUploader({
           <Upload className="h-12 w-12 text-gray-400" />
           <div className="text-center">
             <p className="text-lg font-medium text-gray-700">
-              {isDragActive ? '松开以上传文件' : '拖拽文件到此处或点击选择文件'}
+              {isDragActive ? '松开以上传文件' : '拖拽文件或文件夹到此处，或点击选择文件'}
             </p>
             <p className="text-sm text-gray-500 mt-2">
-              支持单个或多个文件上传，最大 {maxFileSize}MB
+              支持多个文件或整个文件夹上传（保留目录结构），也可直接粘贴截图，单个文件最大 {maxFileSize}MB
             </p>
             {acceptedTypes && acceptedTypes.length > 0 && (
               <p className="text-xs text-gray-400 mt-1">
@@ -189,50 +639,226 @@ export function FileUploader({
               </p>
             )}
           </div>
-          <Button type="button" variant="outline">
-            <FileIcon className="w-4 h-4 mr-2" />
-            选择文件
-          </Button>
+          <div className="flex flex-wrap justify-center gap-2">
+            <Button type="button" variant="outline">
+              <FileIcon className="w-4 h-4 mr-2" />
+              选择文件
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={(e) => {
+                e.stopPropagation();
+                folderInputRef.current?.click();
+              }}
+            >
+              <FolderUp className="w-4 h-4 mr-2" />
+              选择文件夹
+            </Button>
+          </div>
         </div>
       </div>
+      <input
+        ref={folderInputRef}
+        type="file"
+        multiple
+        className="hidden"
+        onChange={handleFolderSelect}
+      />
 
-      {/* 上传进度显示 */}
-      {uploadingFiles.length > 0 && (
-        <div className="space-y-3">
-          <h3 className="text-sm font-medium text-gray-700">正在上传:</h3>
-          {uploadingFiles.map((uploadFile, index) => (
-            <div key={`${uploadFile.fileName}-${index}`} className="p-3 border rounded-lg bg-gray-50">
-              <div className="flex items-center justify-between mb-2">
-                <span className="text-sm font-medium truncate flex-1 mr-2">
-                  {uploadFile.fileName}
-                </span>
-                <div className="flex items-center">
-                  {uploadFile.status === 'uploading' && (
-                    <span className="text-xs text-blue-600">{uploadFile.progress}%</span>
-                  )}
-                  {uploadFile.status === 'completed' && (
-                    <CheckCircle className="h-4 w-4 text-green-600" />
-                  )}
-                  {uploadFile.status === 'error' && (
-                    <AlertCircle className="h-4 w-4 text-red-600" />
-                  )}
-                </div>
-              </div>
-              <Progress 
-                value={uploadFile.progress} 
-                className={
-                  uploadFile.status === 'error' 
-                    ? '[&>div]:bg-red-500' 
-                    : uploadFile.status === 'completed'
-                    ? '[&>div]:bg-green-500'
-                    : ''
+      {/* 从链接上传（存储服务支持抓取远程文件时） */}
+      {storageProvider.uploadFromUrl && (
+        <div className="flex items-center gap-2">
+          <div className="relative flex-1">
+            <Link className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <input
+              type="url"
+              value={remoteUrl}
+              onChange={(e) => setRemoteUrl(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleUrlUpload();
                 }
-              />
-            </div>
+              }}
+              placeholder="粘贴文件链接，由云端直接抓取上传"
+              className="w-full h-9 pl-9 pr-3 rounded-md border border-input bg-background text-sm"
+            />
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={handleUrlUpload}
+            disabled={!remoteUrl.trim() || isProbing}
+          >
+            {isProbing ? '检查中...' : '从链接上传'}
+          </Button>
+        </div>
+      )}
+
+      {/* 未完成的分块上传 */}
+      <PendingUploadsNotice />
+
+      {/* 有效期选择 */}
+      <div className="flex items-center gap-2 text-sm text-gray-600">
+        <span className="whitespace-nowrap">文件有效期:</span>
+        <div className="flex gap-2 flex-wrap">
+          {EXPIRY_OPTIONS.map(option => (
+            <Button
+              key={option.value}
+              type="button"
+              size="sm"
+              variant={expiryOption === option.value ? 'default' : 'outline'}
+              onClick={() => setExpiryOption(option.value)}
+            >
+              {option.label}
+            </Button>
           ))}
         </div>
+      </div>
+
+      {/* 版本设置 */}
+      {existingFiles.length > 0 && (
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <span className="whitespace-nowrap">上传为:</span>
+          <select
+            value={versionTarget}
+            onChange={(e) => setVersionTarget(e.target.value)}
+            className="h-9 flex-1 min-w-0 rounded-md border border-input bg-background px-2 text-sm text-gray-700"
+          >
+            <option value={AUTO_VERSION}>自动（同一文件夹中的同名文件作为新版本）</option>
+            <option value={NEW_FILE}>始终作为新文件</option>
+            {existingFiles.map(file => (
+              <option key={file.id} value={file.id}>
+                &quot;{file.fileName}&quot; 的新版本
+              </option>
+            ))}
+          </select>
+        </div>
       )}
 
+      {/* 上传标签 */}
+      <div className="flex items-center gap-2 text-sm text-gray-600">
+        <span className="whitespace-nowrap">文件标签:</span>
+        <TagEditor
+          tags={uploadTags}
+          onChange={setUploadTags}
+          suggestions={tagSuggestions}
+          alwaysShowInput
+          className="flex-1"
+        />
+      </div>
+
+      {/* 上传者 */}
+      <div className="flex items-center gap-2 text-sm text-gray-600">
+        <span className="whitespace-nowrap">上传者:</span>
+        <input
+          type="text"
+          value={uploader}
+          onChange={(e) => handleUploaderChange(e.target.value)}
+          maxLength={MAX_UPLOADER_NAME_LENGTH}
+          placeholder="可选，记录在文件信息中，其他设备同步时可见"
+          className="h-9 flex-1 min-w-0 rounded-md border border-input bg-background px-3 text-sm text-gray-700"
+        />
+      </div>
+
+      {/* 图片隐私 */}
+      <label className="flex items-center gap-2 text-sm text-gray-600">
+        <input
+          type="checkbox"
+          checked={stripMetadata}
+          onChange={(e) => handleStripMetadataChange(e.target.checked)}
+        />
+        上传前去除图片的拍摄位置、设备等元数据（EXIF/XMP/IPTC）
+      </label>
+
+      {/* 端到端加密 */}
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+        <label className="flex items-center gap-2 whitespace-nowrap">
+          <input
+            type="checkbox"
+            checked={encrypt}
+            onChange={(e) => setEncrypt(e.target.checked)}
+            disabled={!encryptionSupported}
+          />
+          <Lock className="h-4 w-4" />
+          加密上传
+        </label>
+        <span className="text-xs text-gray-400">
+          {encryptionSupported
+            ? `文件在浏览器中加密，只有持有带密钥链接的人才能下载（单个文件最大 ${MAX_ENCRYPTED_FILE_SIZE_MB}MB）`
+            : '当前浏览器不支持（需要HTTPS）'}
+        </span>
+      </div>
+
+      {/* 图片压缩 */}
+      <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+        <label className="flex items-center gap-2 whitespace-nowrap">
+          <input
+            type="checkbox"
+            checked={compressionSettings.enabled}
+            onChange={(e) => updateCompressionSettings({ enabled: e.target.checked })}
+            disabled={!compressionSupported}
+          />
+          上传前压缩图片
+        </label>
+        {!compressionSupported && (
+          <span className="text-xs text-gray-400">当前浏览器不支持</span>
+        )}
+        {compressionSettings.enabled && compressionSupported && (
+          <>
+            <select
+              value={compressionSettings.maxDimension}
+              onChange={(e) => updateCompressionSettings({ maxDimension: Number(e.target.value) })}
+              className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+              title="最长边"
+            >
+              {MAX_DIMENSION_OPTIONS.map(value => (
+                <option key={value} value={value}>最长边 {value}px</option>
+              ))}
+            </select>
+            <select
+              value={compressionSettings.quality}
+              onChange={(e) => updateCompressionSettings({ quality: Number(e.target.value) })}
+              className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+              title="输出质量"
+            >
+              {IMAGE_QUALITY_OPTIONS.map(value => (
+                <option key={value} value={value}>质量 {Math.round(value * 100)}%</option>
+              ))}
+            </select>
+            <select
+              value={compressionSettings.format}
+              onChange={(e) => updateCompressionSettings({ format: e.target.value as ImageCompressionSettings['format'] })}
+              className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+              title="输出格式"
+            >
+              {IMAGE_FORMAT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </>
+        )}
+      </div>
+
+      {/* 上传队列 */}
+      <UploadQueuePanel
+        items={queueItems}
+        concurrency={concurrency}
+        onConcurrencyChange={handleConcurrencyChange}
+        onPause={(id) => queueRef.current?.pause(id)}
+        onResume={(id) => queueRef.current?.resume(id)}
+        onRetry={(id) => queueRef.current?.retry(id)}
+        onCancel={handleCancel}
+        onCancelAll={handleCancelAll}
+        canKeepOriginal={canKeepOriginal}
+        keptOriginalIds={keepOriginalIds}
+        onToggleKeepOriginal={handleToggleKeepOriginal}
+        duplicatePrompts={duplicatePrompts}
+        onResolveDuplicate={handleResolveDuplicate}
+      />
+
       {/* 错误信息显示 */}
       {errors.length > 0 && (
         <div className="space-y-2">
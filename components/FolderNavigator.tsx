@@ -0,0 +1,145 @@
+'use client';
+
+import React from 'react';
+import { ChevronRight, Folder as FolderIcon, FolderPlus, Home, Pencil, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Folder, FileInfo } from '@/lib/types';
+import { createFolder, deleteFolder, getFolderPath, renameFolder } from '@/lib/folders';
+import { useSimpleToast } from '@/components/ui/simple-toast';
+
+interface FolderNavigatorProps {
+  folders: Folder[];          // 全部文件夹
+  files: FileInfo[];          // 全部文件（用于统计文件夹中的文件数）
+  currentFolderId: string | null;  // 当前所在文件夹
+  onNavigate: (folderId: string | null) => void;  // 切换文件夹回调
+  onFoldersChange: () => void;  // 文件夹增删改后回调（用于重新加载）
+}
+
+export function FolderNavigator({
+  folders,
+  files,
+  currentFolderId,
+  onNavigate,
+  onFoldersChange,
+}: FolderNavigatorProps) {
+  const { showToast } = useSimpleToast();
+
+  const path = getFolderPath(folders, currentFolderId);
+  const currentFolder = path[path.length - 1];
+  const subfolders = folders.filter(folder => folder.parentId === currentFolderId);
+
+  // 统计文件夹中直接包含的文件数
+  const countFiles = (folderId: string) => files.filter(file => file.parentId === folderId).length;
+
+  const showError = (title: string, error: unknown) => {
+    showToast({
+      type: "error",
+      title,
+      description: error instanceof Error ? error.message : '请重试',
+    });
+  };
+
+  // 新建文件夹
+  const handleCreate = async () => {
+    const name = window.prompt('请输入文件夹名称:');
+    if (name === null) return;
+
+    try {
+      await createFolder(name, currentFolderId);
+      onFoldersChange();
+    } catch (error) {
+      showError('新建文件夹失败', error);
+    }
+  };
+
+  // 重命名当前文件夹
+  const handleRename = async () => {
+    if (!currentFolder) return;
+
+    const name = window.prompt('请输入新的文件夹名称:', currentFolder.name);
+    if (name === null || name.trim() === currentFolder.name) return;
+
+    try {
+      await renameFolder(currentFolder.id, name);
+      onFoldersChange();
+    } catch (error) {
+      showError('重命名失败', error);
+    }
+  };
+
+  // 删除当前文件夹（内容移动到上级目录）
+  const handleDelete = async () => {
+    if (!currentFolder) return;
+    if (!window.confirm(`确定要删除文件夹 "${currentFolder.name}" 吗？其中的文件和子文件夹会移动到上级目录。`)) return;
+
+    try {
+      await deleteFolder(currentFolder.id);
+      onNavigate(currentFolder.parentId);
+      onFoldersChange();
+    } catch (error) {
+      showError('删除文件夹失败', error);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* 面包屑导航 */}
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <nav className="flex flex-wrap items-center text-sm text-gray-600">
+          <button
+            onClick={() => onNavigate(null)}
+            className={`inline-flex items-center hover:text-blue-600 ${currentFolderId === null ? 'font-medium text-gray-900' : ''}`}
+          >
+            <Home className="h-4 w-4 mr-1" />
+            根目录
+          </button>
+          {path.map((folder, index) => (
+            <React.Fragment key={folder.id}>
+              <ChevronRight className="h-4 w-4 mx-1 text-gray-400" />
+              <button
+                onClick={() => onNavigate(folder.id)}
+                className={`hover:text-blue-600 ${index === path.length - 1 ? 'font-medium text-gray-900' : ''}`}
+              >
+                {folder.name}
+              </button>
+            </React.Fragment>
+          ))}
+        </nav>
+
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={handleCreate}>
+            <FolderPlus className="h-4 w-4 mr-2" />
+            新建文件夹
+          </Button>
+          {currentFolder && (
+            <>
+              <Button variant="outline" size="sm" onClick={handleRename} title="重命名文件夹">
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleDelete} title="删除文件夹">
+                <Trash2 className="h-4 w-4 text-red-600" />
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {/* 子文件夹 */}
+      {subfolders.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {subfolders.map(folder => (
+            <button
+              key={folder.id}
+              onClick={() => onNavigate(folder.id)}
+              className="inline-flex items-center px-3 py-2 text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded-md hover:bg-blue-50 hover:border-blue-200"
+            >
+              <FolderIcon className="h-4 w-4 mr-2 text-blue-500" />
+              {folder.name}
+              <span className="ml-2 text-xs text-gray-400">{countFiles(folder.id)}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { AlertTriangle, Download, RotateCcw, X } from 'lucide-react';
+import { QuarantinedIndex } from '@/lib/types';
+import {
+  QUARANTINE_CHANGED_EVENT,
+  discardQuarantinedIndex,
+  getQuarantinedIndexes,
+  getQuarantinedRaw,
+} from '@/lib/index-recovery';
+import { restoreQuarantinedFiles } from '@/lib/storage';
+import { formatDate, formatFileSize, downloadFile } from '@/lib/utils';
+import { useSimpleToast } from '@/components/ui/simple-toast';
+
+interface IndexRecoveryBannerProps {
+  onRestored?: () => void;  // 恢复完成后回调（用于刷新文件列表）
+}
+
+export function IndexRecoveryBanner({ onRestored }: IndexRecoveryBannerProps) {
+  const [entries, setEntries] = useState<QuarantinedIndex[]>([]);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const { showToast } = useSimpleToast();
+
+  const loadEntries = useCallback(() => {
+    setEntries(getQuarantinedIndexes());
+  }, []);
+
+  // 初始化时读取隔离数据，并在隔离数据变化时刷新
+  useEffect(() => {
+    loadEntries();
+    window.addEventListener(QUARANTINE_CHANGED_EVENT, loadEntries);
+    return () => window.removeEventListener(QUARANTINE_CHANGED_EVENT, loadEntries);
+  }, [loadEntries]);
+
+  // 下载原始数据备份
+  const handleDownloadRaw = (entry: QuarantinedIndex) => {
+    const raw = getQuarantinedRaw(entry.id);
+    if (raw === null) return;
+
+    const blobUrl = URL.createObjectURL(new Blob([raw], { type: 'application/json' }));
+    const timestamp = entry.quarantinedAt.replace(/[:.]/g, '-');
+    downloadFile(blobUrl, `uploaded-files-backup-${timestamp}.json`);
+    setTimeout(() => URL.revokeObjectURL(blobUrl), 1000);
+  };
+
+  // 恢复抢救出的文件记录
+  const handleRestore = async (entry: QuarantinedIndex) => {
+    setRestoringId(entry.id);
+    try {
+      const restoredCount = await restoreQuarantinedFiles(entry.id);
+      showToast({
+        type: "success",
+        title: "文件列表已恢复",
+        description: `已恢复 ${restoredCount} 个文件`,
+      });
+      onRestored?.();
+    } catch (error) {
+      showToast({
+        type: "error",
+        title: "恢复失败",
+        description: error instanceof Error ? error.message : "请重试",
+      });
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  // 放弃隔离数据
+  const handleDiscard = (entry: QuarantinedIndex) => {
+    if (window.confirm('确定要删除这份损坏数据的备份吗？删除后将无法再恢复其中的文件。')) {
+      discardQuarantinedIndex(entry.id);
+    }
+  };
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="mb-8 space-y-3">
+      {entries.map((entry) => (
+        <div key={entry.id} className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+          <div className="flex items-start space-x-3">
+            <AlertTriangle className="h-5 w-5 text-yellow-600 flex-shrink-0 mt-0.5" />
+            <div className="flex-1 min-w-0">
+              <h3 className="text-sm font-medium text-yellow-800">
+                检测到损坏的文件列表数据
+              </h3>
+              <p className="text-sm text-yellow-700 mt-1">
+                {formatDate(entry.quarantinedAt)} 读取文件列表失败，原始数据（{formatFileSize(entry.rawSize)}）已备份。
+                {entry.salvagedFiles.length > 0
+                  ? `其中 ${entry.salvagedFiles.length} 个文件记录可以恢复。`
+                  : '未能从中识别出可恢复的文件记录。'}
+              </p>
+              <div className="flex flex-wrap gap-2 mt-3">
+                {entry.salvagedFiles.length > 0 && (
+                  <button
+                    onClick={() => handleRestore(entry)}
+                    disabled={restoringId === entry.id}
+                    className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-white bg-yellow-600 hover:bg-yellow-700 rounded-md disabled:opacity-50"
+                  >
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    {restoringId === entry.id ? '恢复中...' : `恢复 ${entry.salvagedFiles.length} 个文件`}
+                  </button>
+                )}
+                <button
+                  onClick={() => handleDownloadRaw(entry)}
+                  className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-yellow-800 bg-yellow-100 hover:bg-yellow-200 rounded-md"
+                >
+                  <Download className="w-4 h-4 mr-1" />
+                  下载原始数据
+                </button>
+                <button
+                  onClick={() => handleDiscard(entry)}
+                  className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-600 hover:text-gray-800 rounded-md"
+                >
+                  <X className="w-4 h-4 mr-1" />
+                  忽略
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
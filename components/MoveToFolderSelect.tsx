@@ -0,0 +1,46 @@
+'use client';
+
+import React from 'react';
+import { Folder } from '@/lib/types';
+import { getFolderPathLabel } from '@/lib/folders';
+import { cn } from '@/lib/utils';
+
+interface MoveToFolderSelectProps {
+  folders: Folder[];          // 全部文件夹
+  onMove: (folderId: string | null) => void;  // 选择目标文件夹后回调
+  className?: string;
+}
+
+// 根目录在下拉框中的取值（option的value不能为null）
+const ROOT_VALUE = '__root__';
+
+export function MoveToFolderSelect({ folders, onMove, className }: MoveToFolderSelectProps) {
+  // 按完整路径排序，使子文件夹紧跟在上级文件夹之后
+  const options = folders
+    .map(folder => ({ id: folder.id, label: getFolderPathLabel(folders, folder.id) }))
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+  // 选择后立即触发并重置为占位项
+  const handleChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const value = e.target.value;
+    e.target.value = '';
+    if (value) {
+      onMove(value === ROOT_VALUE ? null : value);
+    }
+  };
+
+  return (
+    <select
+      defaultValue=""
+      onChange={handleChange}
+      className={cn('h-9 rounded-md border border-input bg-background px-2 text-sm text-gray-700', className)}
+      title="移动到文件夹"
+    >
+      <option value="" disabled>移动到...</option>
+      <option value={ROOT_VALUE}>根目录</option>
+      {options.map(option => (
+        <option key={option.id} value={option.id}>{option.label}</option>
+      ))}
+    </select>
+  );
+}
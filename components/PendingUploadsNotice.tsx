@@ -0,0 +1,57 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { RotateCcw, X } from 'lucide-react';
+import { UploadSession } from '@/lib/types';
+import {
+  UPLOAD_SESSIONS_CHANGED_EVENT,
+  getPendingUploadSessions,
+  removeUploadSession,
+} from '@/lib/upload-sessions';
+import { formatFileSize } from '@/lib/utils';
+
+/**
+ * 未完成的分块上传提示
+ * 刷新页面后无法取回原文件，提示用户重新选择同一文件以从断点继续
+ */
+export function PendingUploadsNotice() {
+  const [sessions, setSessions] = useState<UploadSession[]>([]);
+
+  useEffect(() => {
+    const refresh = () => setSessions(getPendingUploadSessions());
+
+    refresh();
+    window.addEventListener(UPLOAD_SESSIONS_CHANGED_EVENT, refresh);
+    return () => window.removeEventListener(UPLOAD_SESSIONS_CHANGED_EVENT, refresh);
+  }, []);
+
+  if (sessions.length === 0) return null;
+
+  return (
+    <div className="rounded-md border border-amber-200 bg-amber-50 p-3 text-sm text-amber-800">
+      <div className="flex items-center font-medium mb-2">
+        <RotateCcw className="h-4 w-4 mr-2" />
+        有 {sessions.length} 个文件上次未上传完成，重新选择同一文件即可从断点继续
+      </div>
+      <ul className="space-y-1">
+        {sessions.map(session => (
+          <li key={session.uploadId} className="flex items-center justify-between gap-2">
+            <span className="truncate" title={session.fileName}>
+              {session.fileName}
+              <span className="ml-2 text-xs text-amber-600">
+                已上传 {formatFileSize(session.bytesUploaded)} / {formatFileSize(session.totalSize)}
+              </span>
+            </span>
+            <button
+              onClick={() => removeUploadSession(session.uploadId)}
+              className="flex-shrink-0 p-1 text-amber-500 hover:text-amber-800 rounded"
+              title="放弃续传"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import { ReactNode, useEffect, useState } from 'react';
+import { Cloud } from 'lucide-react';
+import { ConfigGuide } from './ConfigGuide';
+import { getActiveStorageProvider } from '@/lib/storage-provider';
+
+interface StorageConfigGateProps {
+  children: ReactNode;
+}
+
+/**
+ * 存储服务配置检查
+ * 所用存储服务的配置完整时才渲染页面内容，否则显示配置引导页面
+ */
+export function StorageConfigGate({ children }: StorageConfigGateProps) {
+  const [configValid, setConfigValid] = useState<boolean | null>(null);
+  const [missingVars, setMissingVars] = useState<string[]>([]);
+
+  const checkConfig = () => {
+    // 检查所用存储服务的配置
+    const { isValid, missingVars: missing } = getActiveStorageProvider().validateConfig();
+    setConfigValid(isValid);
+    setMissingVars(missing);
+  };
+
+  useEffect(() => {
+    checkConfig();
+  }, []);
+
+  // 如果配置无效，显示配置引导页面
+  if (configValid === false) {
+    return <ConfigGuide missingVars={missingVars} onRetry={checkConfig} />;
+  }
+
+  // 加载中状态
+  if (configValid === null) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50">
+        <div className="text-center">
+          <Cloud className="h-12 w-12 text-blue-500 mx-auto animate-pulse mb-4" />
+          <p className="text-gray-600">正在初始化系统...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import React, { useId, useState } from 'react';
+import { Plus, Tag, X } from 'lucide-react';
+import { dedupeTags, parseTagInput, MAX_TAGS_PER_FILE } from '@/lib/tags';
+import { cn } from '@/lib/utils';
+
+interface TagEditorProps {
+  tags: string[];             // 当前标签
+  onChange?: (tags: string[]) => void;  // 标签变更回调（不传时只读展示）
+  suggestions?: string[];     // 自动补全候选
+  alwaysShowInput?: boolean;  // 始终显示输入框（否则点击"+"后显示）
+  className?: string;
+}
+
+export function TagEditor({ tags, onChange, suggestions = [], alwaysShowInput = false, className }: TagEditorProps) {
+  const [inputValue, setInputValue] = useState('');
+  const [editing, setEditing] = useState(false);
+  const listId = useId();
+
+  const showInput = Boolean(onChange) && (alwaysShowInput || editing);
+  const lowerTags = new Set(tags.map(tag => tag.toLowerCase()));
+  const availableSuggestions = suggestions.filter(tag => !lowerTags.has(tag.toLowerCase()));
+
+  // 提交输入框中的标签
+  const commitInput = () => {
+    const newTags = parseTagInput(inputValue);
+    setInputValue('');
+    if (newTags.length > 0) {
+      onChange?.(dedupeTags([...tags, ...newTags]));
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',' || e.key === '，') {
+      e.preventDefault();
+      commitInput();
+    } else if (e.key === 'Escape') {
+      setInputValue('');
+      setEditing(false);
+    } else if (e.key === 'Backspace' && !inputValue && tags.length > 0) {
+      onChange?.(tags.slice(0, -1));
+    }
+  };
+
+  const handleBlur = () => {
+    commitInput();
+    setEditing(false);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange?.(tags.filter(item => item !== tag));
+  };
+
+  if (tags.length === 0 && !onChange) return null;
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-1', className)}>
+      {tags.map(tag => (
+        <span
+          key={tag}
+          className="inline-flex items-center px-2 py-0.5 rounded-full text-xs bg-indigo-50 text-indigo-700 border border-indigo-100"
+        >
+          <Tag className="h-3 w-3 mr-1" />
+          {tag}
+          {onChange && (
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className="ml-1 text-indigo-400 hover:text-indigo-700"
+              title="移除标签"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </span>
+      ))}
+
+      {showInput ? (
+        <>
+          <input
+            value={inputValue}
+            onChange={(e) => setInputValue(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onBlur={handleBlur}
+            list={listId}
+            autoFocus={!alwaysShowInput}
+            disabled={tags.length >= MAX_TAGS_PER_FILE}
+            placeholder={tags.length >= MAX_TAGS_PER_FILE ? '标签数量已达上限' : '输入标签，回车添加'}
+            className="h-7 min-w-[8rem] flex-1 rounded-md border border-input bg-background px-2 text-xs"
+          />
+          <datalist id={listId}>
+            {availableSuggestions.map(tag => (
+              <option key={tag} value={tag} />
+            ))}
+          </datalist>
+        </>
+      ) : onChange && (
+        <button
+          type="button"
+          onClick={() => setEditing(true)}
+          className="inline-flex items-center px-2 py-0.5 rounded-full text-xs text-gray-500 border border-dashed border-gray-300 hover:text-indigo-700 hover:border-indigo-300"
+          title="添加标签"
+        >
+          <Plus className="h-3 w-3 mr-1" />
+          标签
+        </button>
+      )}
+    </div>
+  );
+}
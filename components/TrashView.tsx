@@ -0,0 +1,252 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { RotateCcw, Trash2, Clock } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { FileInfo } from '@/lib/types';
+import {
+  TRASH_RETENTION_OPTIONS,
+  getPurgeTime,
+  getTrashRetentionDays,
+  getTrashedFiles,
+  purgeFilesFromTrash,
+  restoreFilesFromTrash,
+  setTrashRetentionDays,
+} from '@/lib/trash';
+import { subscribeIndexChanges } from '@/lib/index-sync';
+import { formatFileSize, formatDate, truncateFileName } from '@/lib/utils';
+import { useSimpleToast } from '@/components/ui/simple-toast';
+
+interface TrashViewProps {
+  onRestored?: () => void;  // 恢复文件后回调（用于刷新文件列表）
+}
+
+export function TrashView({ onRestored }: TrashViewProps) {
+  const [files, setFiles] = useState<FileInfo[]>([]);
+  const [selectedFiles, setSelectedFiles] = useState<string[]>([]);
+  const [retentionDays, setRetentionDays] = useState(getTrashRetentionDays());
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const { showToast } = useSimpleToast();
+
+  // 加载回收站文件
+  const loadTrash = useCallback(async () => {
+    const trashed = await getTrashedFiles();
+    setFiles(trashed);
+    setSelectedFiles(prev => prev.filter(id => trashed.some(file => file.id === id)));
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    loadTrash();
+    return subscribeIndexChanges(() => {
+      loadTrash();
+    });
+  }, [loadTrash]);
+
+  // 修改保留天数
+  const handleRetentionChange = (days: number) => {
+    setTrashRetentionDays(days);
+    setRetentionDays(days);
+  };
+
+  // 恢复文件
+  const handleRestore = async (fileIds: string[]) => {
+    if (busy || fileIds.length === 0) return;
+
+    setBusy(true);
+    try {
+      await restoreFilesFromTrash(fileIds);
+      await loadTrash();
+      onRestored?.();
+      showToast({
+        type: "success",
+        title: "恢复成功",
+        description: `已恢复 ${fileIds.length} 个文件`,
+      });
+    } catch (error) {
+      console.error('恢复文件失败:', error);
+      showToast({
+        type: "error",
+        title: "恢复失败",
+        description: "恢复文件失败，请重试",
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // 彻底删除文件
+  const handlePurge = async (fileIds: string[]) => {
+    if (busy || fileIds.length === 0) return;
+    if (!window.confirm(`确定要彻底删除选中的 ${fileIds.length} 个文件吗？此操作无法撤销。`)) return;
+
+    setBusy(true);
+    try {
+      const failedCount = await purgeFilesFromTrash(files.filter(file => fileIds.includes(file.id)));
+      await loadTrash();
+      showToast({
+        type: failedCount > 0 ? "info" : "success",
+        title: "彻底删除完成",
+        description: failedCount > 0
+          ? `成功删除 ${fileIds.length - failedCount} 个文件，失败 ${failedCount} 个文件`
+          : `已彻底删除 ${fileIds.length} 个文件`,
+      });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  // 处理全选/取消全选
+  const handleSelectAll = (checked: boolean) => {
+    setSelectedFiles(checked ? files.map(file => file.id) : []);
+  };
+
+  // 处理单个文件选择
+  const handleFileSelect = (fileId: string, checked: boolean) => {
+    setSelectedFiles(prev => checked ? [...prev, fileId] : prev.filter(id => id !== fileId));
+  };
+
+  // 计算剩余保留天数
+  const getDaysLeft = (file: FileInfo) => {
+    const msLeft = getPurgeTime(file) - Date.now();
+    return Math.max(0, Math.ceil(msLeft / (24 * 60 * 60 * 1000)));
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* 保留期设置 */}
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 text-sm text-gray-600">
+        <p>
+          删除或过期的文件会在回收站保留 {retentionDays} 天，之后将从云端彻底删除
+        </p>
+        <label className="flex items-center gap-2 whitespace-nowrap">
+          保留天数
+          <select
+            value={retentionDays}
+            onChange={(e) => handleRetentionChange(Number(e.target.value))}
+            className="h-9 rounded-md border border-input bg-background px-2 text-sm"
+          >
+            {TRASH_RETENTION_OPTIONS.map(days => (
+              <option key={days} value={days}>{days} 天</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* 批量操作工具栏 */}
+      {selectedFiles.length > 0 && (
+        <div className="flex items-center justify-between p-3 bg-blue-50 rounded-lg border border-blue-200">
+          <span className="text-sm text-blue-700">
+            已选择 {selectedFiles.length} 个文件
+          </span>
+          <div className="flex gap-2">
+            <Button size="sm" onClick={() => handleRestore(selectedFiles)} disabled={busy}>
+              <RotateCcw className="h-4 w-4 mr-2" />
+              恢复选中
+            </Button>
+            <Button variant="destructive" size="sm" onClick={() => handlePurge(selectedFiles)} disabled={busy}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              彻底删除
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex justify-center items-center py-12">
+          <div className="text-gray-500">加载中...</div>
+        </div>
+      ) : files.length === 0 ? (
+        <div className="text-center py-12">
+          <Trash2 className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">回收站为空</h3>
+          <p className="text-gray-500">删除或过期的文件会暂存在这里</p>
+        </div>
+      ) : (
+        <div className="border rounded-lg overflow-hidden">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-12">
+                  <Checkbox
+                    checked={selectedFiles.length === files.length && files.length > 0}
+                    onCheckedChange={handleSelectAll}
+                  />
+                </TableHead>
+                <TableHead>文件名</TableHead>
+                <TableHead>大小</TableHead>
+                <TableHead>删除时间</TableHead>
+                <TableHead>彻底删除</TableHead>
+                <TableHead className="text-right">操作</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {files.map((file) => (
+                <TableRow key={file.id}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selectedFiles.includes(file.id)}
+                      onCheckedChange={(checked) => handleFileSelect(file.id, !!checked)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="text-sm font-medium text-gray-900 truncate" title={file.fileName}>
+                      {truncateFileName(file.fileName)}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {file.deleteReason === 'expired' ? '已过期' : '手动删除'}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-900">
+                    {formatFileSize(file.fileSize)}
+                  </TableCell>
+                  <TableCell className="text-sm text-gray-900">
+                    {file.deletedAt ? formatDate(file.deletedAt) : '-'}
+                  </TableCell>
+                  <TableCell>
+                    <span className="inline-flex items-center text-xs font-medium text-orange-600">
+                      <Clock className="h-3 w-3 mr-1" />
+                      {getDaysLeft(file)} 天后
+                    </span>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center justify-end space-x-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleRestore([file.id])}
+                        disabled={busy}
+                        title="恢复文件"
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handlePurge([file.id])}
+                        disabled={busy}
+                        title="彻底删除"
+                      >
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
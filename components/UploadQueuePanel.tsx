@@ -0,0 +1,215 @@
+'use client';
+
+import React from 'react';
+import { AlertCircle, CheckCircle, Pause, Play, RotateCw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { UploadQueueItem } from '@/lib/types';
+import { UPLOAD_CONCURRENCY_OPTIONS } from '@/lib/upload-queue';
+import { formatDuration, formatFileSize } from '@/lib/utils';
+
+interface UploadQueuePanelProps {
+  items: UploadQueueItem[];   // 队列项
+  concurrency: number;        // 同时上传数
+  onConcurrencyChange: (concurrency: number) => void;
+  onPause: (id: string) => void;
+  onResume: (id: string) => void;
+  onRetry: (id: string) => void;
+  onCancel: (id: string) => void;
+  onCancelAll: () => void;
+  canKeepOriginal?: (item: UploadQueueItem) => boolean;  // 是否可选择保留原图（待压缩的图片）
+  keptOriginalIds?: string[];  // 已选择保留原图的队列项
+  onToggleKeepOriginal?: (id: string) => void;
+  duplicatePrompts?: Record<string, string>;  // 等待确认是否复用的队列项（队列项ID → 内容相同的已有文件名）
+  onResolveDuplicate?: (id: string, reuse: boolean) => void;
+}
+
+// 状态显示文本
+const STATUS_LABELS: Record<UploadQueueItem['status'], string> = {
+  queued: '等待中',
+  uploading: '上传中',
+  retrying: '等待重试',
+  paused: '已暂停',
+  completed: '已完成',
+  error: '失败',
+  cancelled: '已取消',
+};
+
+export function UploadQueuePanel({
+  items,
+  concurrency,
+  onConcurrencyChange,
+  onPause,
+  onResume,
+  onRetry,
+  onCancel,
+  onCancelAll,
+  canKeepOriginal,
+  keptOriginalIds = [],
+  onToggleKeepOriginal,
+  duplicatePrompts = {},
+  onResolveDuplicate,
+}: UploadQueuePanelProps) {
+  if (items.length === 0) return null;
+
+  const activeCount = items.filter(item =>
+    item.status === 'uploading' || item.status === 'retrying' || item.status === 'queued'
+  ).length;
+  const totalSpeed = items.reduce((sum, item) => sum + (item.status === 'uploading' ? item.speed : 0), 0);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-sm font-medium text-gray-700">
+          上传队列 ({activeCount}/{items.length})
+          {totalSpeed > 0 && (
+            <span className="ml-2 text-xs font-normal text-gray-500">
+              总速度 {formatFileSize(totalSpeed)}/s
+            </span>
+          )}
+        </h3>
+        <div className="flex items-center gap-2 text-sm text-gray-600">
+          <label className="flex items-center gap-1">
+            同时上传
+            <select
+              value={concurrency}
+              onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+              className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+            >
+              {UPLOAD_CONCURRENCY_OPTIONS.map(value => (
+                <option key={value} value={value}>{value}</option>
+              ))}
+            </select>
+          </label>
+          {activeCount > 0 && (
+            <Button type="button" variant="outline" size="sm" onClick={onCancelAll}>
+              全部取消
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {items.map(item => (
+        <div key={item.id} className="p-3 border rounded-lg bg-gray-50">
+          <div className="flex items-center justify-between mb-2 gap-2">
+            <span className="text-sm font-medium truncate flex-1" title={item.fileName}>
+              {item.fileName}
+            </span>
+            <div className="flex items-center gap-1 flex-shrink-0">
+              {item.status === 'uploading' && duplicatePrompts[item.id] !== undefined && (
+                <span className="text-xs text-amber-600">等待确认</span>
+              )}
+              {item.status === 'uploading' && duplicatePrompts[item.id] === undefined && (
+                <span className="text-xs text-blue-600">{item.progress}%</span>
+              )}
+              {item.status === 'completed' && (
+                <CheckCircle className="h-4 w-4 text-green-600" />
+              )}
+              {item.status === 'error' && (
+                <AlertCircle className="h-4 w-4 text-red-600" />
+              )}
+              {(item.status === 'queued' || item.status === 'paused' || item.status === 'retrying') && (
+                <span className={`text-xs ${item.status === 'retrying' ? 'text-amber-600' : 'text-gray-500'}`}>
+                  {STATUS_LABELS[item.status]}
+                </span>
+              )}
+              {(item.status === 'uploading' || item.status === 'retrying' || item.status === 'queued') && (
+                <Button type="button" variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => onPause(item.id)} title="暂停">
+                  <Pause className="h-4 w-4" />
+                </Button>
+              )}
+              {item.status === 'paused' && (
+                <Button type="button" variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => onResume(item.id)} title="继续">
+                  <Play className="h-4 w-4" />
+                </Button>
+              )}
+              {item.status === 'error' && (
+                <Button type="button" variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => onRetry(item.id)} title="重试">
+                  <RotateCw className="h-4 w-4" />
+                </Button>
+              )}
+              {item.status !== 'completed' && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 w-7 p-0"
+                  onClick={() => onCancel(item.id)}
+                  title={item.status === 'error' ? '移除' : '取消'}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </div>
+          {duplicatePrompts[item.id] !== undefined && onResolveDuplicate && (
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-2 p-2 rounded-md bg-amber-50 border border-amber-200 text-xs text-amber-800">
+              <span className="truncate" title={duplicatePrompts[item.id]}>
+                与已有文件 &quot;{duplicatePrompts[item.id]}&quot; 内容完全相同
+              </span>
+              <div className="flex gap-1 flex-shrink-0">
+                <Button type="button" size="sm" className="h-7" onClick={() => onResolveDuplicate(item.id, true)}>
+                  复用链接
+                </Button>
+                <Button type="button" variant="outline" size="sm" className="h-7" onClick={() => onResolveDuplicate(item.id, false)}>
+                  仍然上传
+                </Button>
+              </div>
+            </div>
+          )}
+          <Progress
+            value={item.progress}
+            className={
+              item.status === 'error'
+                ? '[&>div]:bg-red-500'
+                : item.status === 'retrying'
+                ? '[&>div]:bg-amber-500'
+                : item.status === 'completed'
+                ? '[&>div]:bg-green-500'
+                : ''
+            }
+          />
+          <div className="flex justify-between mt-1 text-xs text-gray-500">
+            <span>
+              {item.sourceUrl && item.fileSize === 0
+                ? '从链接抓取'
+                : `${formatFileSize(item.bytesSent)} / ${formatFileSize(item.fileSize)}`}
+              {item.originalSize !== undefined && item.originalSize !== item.fileSize && (
+                <span className="ml-2 text-green-600" title="上传前已处理图片（压缩或去除元数据）">
+                  处理前 {formatFileSize(item.originalSize)} → {formatFileSize(item.fileSize)}
+                </span>
+              )}
+              {onToggleKeepOriginal && canKeepOriginal?.(item) && (
+                <label className="ml-2 inline-flex items-center gap-1 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={keptOriginalIds.includes(item.id)}
+                    onChange={() => onToggleKeepOriginal(item.id)}
+                  />
+                  保留原图
+                </label>
+              )}
+            </span>
+            {item.status === 'uploading' && item.speed > 0 && (
+              <span>
+                {formatFileSize(item.speed)}/s
+                {item.eta !== null && ` · 剩余 ${formatDuration(item.eta)}`}
+              </span>
+            )}
+            {item.status === 'retrying' && item.error && (
+              <span className="text-amber-600 truncate ml-2" title={item.error}>
+                {item.error}，正在第 {item.retryCount} 次自动重试
+              </span>
+            )}
+            {item.status === 'error' && item.error && (
+              <span className="text-red-600 truncate ml-2" title={item.errorCode ? `${item.error} (${item.errorCode})` : item.error}>
+                {item.error}
+                {item.retryCount > 0 && ` · 已重试 ${item.retryCount} 次`}
+              </span>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
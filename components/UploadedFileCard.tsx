@@ -1,30 +1,52 @@
 'use client';
 
 import React, { useState } from 'react';
-import { FileIcon, Download, Copy, ExternalLink, Clock, Trash2 } from 'lucide-react';
-import { FileInfo } from '@/lib/types';
+import { FileIcon, Download, Copy, ExternalLink, Clock, Trash2, History, ShieldCheck, Lock } from 'lucide-react';
+import { FileInfo, ExpiryOption } from '@/lib/types';
 import { CountdownTimer } from './ui/countdown-timer';
+import { ExtendExpirySelect } from './ExtendExpirySelect';
+import { TagEditor } from './TagEditor';
+import { VersionHistory } from './VersionHistory';
+import { getCurrentVersion } from '@/lib/versions';
 import { formatFileSize, getFileIcon } from '@/lib/utils';
+import { getFileShareUrl } from '@/lib/encryption';
 
 interface UploadedFileCardProps {
   file: FileInfo;
   onDelete?: (fileId: string) => void;
+  onExpired?: () => void;     // 文件过期回调（由父组件重新加载，过期文件会移入回收站）
+  onExtendExpiry?: (fileId: string, option: ExpiryOption) => void;  // 延长有效期回调
+  onUpdateTags?: (fileId: string, tags: string[]) => void;  // 修改标签回调
+  tagSuggestions?: string[];  // 标签自动补全候选
+  onPromoteVersion?: (fileId: string, version: number) => void;  // 将历史版本设为当前版本回调
   showDeleteButton?: boolean;
 }
 
-export function UploadedFileCard({ file, onDelete, showDeleteButton = true }: UploadedFileCardProps) {
+export function UploadedFileCard({
+  file,
+  onDelete,
+  onExpired,
+  onExtendExpiry,
+  onUpdateTags,
+  tagSuggestions,
+  onPromoteVersion,
+  showDeleteButton = true
+}: UploadedFileCardProps) {
   const [copying, setCopying] = useState(false);
 
+  // 加密文件的链接指向解密页面，密钥在#片段中
+  const shareUrl = getFileShareUrl(file);
+
   // 复制下载链接
   const copyDownloadLink = async () => {
     setCopying(true);
     try {
-      await navigator.clipboard.writeText(file.cloudinaryUrl);
+      await navigator.clipboard.writeText(shareUrl);
       alert('下载链接已复制到剪贴板！');
     } catch (error) {
       // 备用方案
       const textArea = document.createElement('textarea');
-      textArea.value = file.cloudinaryUrl;
+      textArea.value = shareUrl;
       document.body.appendChild(textArea);
       textArea.select();
       try {
@@ -41,13 +63,18 @@ export function UploadedFileCard({ file, onDelete, showDeleteButton = true }: Up
 
   // 处理文件删除
   const handleDelete = () => {
-    if (window.confirm(`确定要删除文件 "${file.fileName}" 吗？`)) {
+    if (window.confirm(`确定要删除文件 "${file.fileName}" 吗？文件将移入回收站。`)) {
       onDelete?.(file.id);
     }
   };
 
-  // 直接下载文件
+  // 直接下载文件（加密文件在解密页面中下载）
   const handleDownload = () => {
+    if (file.encryptionKey) {
+      window.open(shareUrl, '_blank');
+      return;
+    }
+
     const link = document.createElement('a');
     link.href = file.cloudinaryUrl;
     link.download = file.fileName;
@@ -59,7 +86,7 @@ export function UploadedFileCard({ file, onDelete, showDeleteButton = true }: Up
 
   // 在新窗口打开文件
   const handlePreview = () => {
-    window.open(file.cloudinaryUrl, '_blank');
+    window.open(shareUrl, '_blank');
   };
 
   const FileIconComponent = getFileIcon(file.fileType);
@@ -79,6 +106,30 @@ export function UploadedFileCard({ file, onDelete, showDeleteButton = true }: Up
             <p className="text-xs text-gray-500">
               {formatFileSize(file.fileSize)} • {new Date(file.uploadTime).toLocaleString()}
             </p>
+            {file.metadataStripped && (
+              <p className="inline-flex items-center text-xs text-green-600" title="上传前已去除拍摄位置、设备等元数据">
+                <ShieldCheck className="w-3 h-3 mr-1" />
+                已去除元数据
+              </p>
+            )}
+            {file.encryptionKey && (
+              <p className="inline-flex items-center text-xs text-purple-600" title="文件已在浏览器中加密，只能通过带密钥的链接下载">
+                <Lock className="w-3 h-3 mr-1" />
+                已加密
+              </p>
+            )}
+            {file.versions && file.versions.length > 0 && (
+              <VersionHistory
+                file={file}
+                onPromote={onPromoteVersion ? (version) => onPromoteVersion(file.id, version) : undefined}
+                trigger={
+                  <button className="inline-flex items-center text-xs text-blue-600 hover:text-blue-800">
+                    <History className="w-3 h-3 mr-1" />
+                    v{getCurrentVersion(file)} · {file.versions.length} 个历史版本
+                  </button>
+                }
+              />
+            )}
           </div>
         </div>
 
@@ -93,21 +144,37 @@ export function UploadedFileCard({ file, onDelete, showDeleteButton = true }: Up
         )}
       </div>
 
+      {/* 标签 */}
+      <TagEditor
+        tags={file.tags || []}
+        onChange={onUpdateTags ? (tags) => onUpdateTags(file.id, tags) : undefined}
+        suggestions={tagSuggestions}
+        className="mb-3"
+      />
+
       {/* 倒计时显示 */}
-      <div className="mb-3">
+      <div className="mb-3 flex items-center justify-between">
         <CountdownTimer 
           expiresAt={file.expiresAt} 
-          onExpired={() => onDelete?.(file.id)}
+          onExpired={onExpired}
         />
+        {onExtendExpiry && file.expiresAt !== null && (
+          <ExtendExpirySelect
+            onExtend={(option) => onExtendExpiry(file.id, option)}
+            className="h-8 text-xs"
+          />
+        )}
       </div>
 
       {/* 直接下载链接显示 */}
       <div className="mb-3 p-2 bg-gray-50 rounded border">
         <div className="flex items-center justify-between">
           <div className="flex-1 min-w-0 mr-2">
-            <p className="text-xs text-gray-600 mb-1">直接下载链接：</p>
-            <p className="text-xs font-mono text-gray-800 truncate" title={file.cloudinaryUrl}>
-              {file.cloudinaryUrl}
+            <p className="text-xs text-gray-600 mb-1">
+              {file.encryptionKey ? '解密下载链接（包含密钥，请只发给需要的人）：' : '直接下载链接：'}
+            </p>
+            <p className="text-xs font-mono text-gray-800 truncate" title={shareUrl}>
+              {shareUrl}
             </p>
           </div>
           <button
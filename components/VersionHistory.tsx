@@ -0,0 +1,117 @@
+'use client';
+
+import React from 'react';
+import { Copy, ExternalLink, History, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { FileInfo } from '@/lib/types';
+import { getAllVersions, getCurrentVersion } from '@/lib/versions';
+import { copyToClipboard, formatDate, formatFileSize } from '@/lib/utils';
+import { getFileShareUrl } from '@/lib/encryption';
+import { useSimpleToast } from '@/components/ui/simple-toast';
+
+interface VersionHistoryProps {
+  file: FileInfo;
+  onPromote?: (version: number) => void;  // 将历史版本设为当前版本回调
+  trigger?: React.ReactNode;  // 自定义触发按钮
+}
+
+export function VersionHistory({ file, onPromote, trigger }: VersionHistoryProps) {
+  const { showToast } = useSimpleToast();
+  const currentVersion = getCurrentVersion(file);
+  const versions = getAllVersions(file);
+
+  // 复制指定版本的链接
+  const handleCopy = async (url: string, version: number) => {
+    const success = await copyToClipboard(url);
+    showToast(success
+      ? { type: "success", title: "链接已复制", description: `已复制 v${version} 的下载链接` }
+      : { type: "error", title: "复制失败", description: "请手动复制链接" });
+  };
+
+  // 将历史版本设为当前版本
+  const handlePromote = (version: number) => {
+    if (window.confirm(`确定要将 v${version} 设为 "${file.fileName}" 的当前版本吗？当前版本 v${currentVersion} 会保留在历史中。`)) {
+      onPromote?.(version);
+    }
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        {trigger || (
+          <Button variant="ghost" size="sm" title="版本历史">
+            <History className="h-4 w-4" />
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>版本历史</DialogTitle>
+          <DialogDescription className="truncate" title={file.fileName}>
+            {file.fileName} · 共 {versions.length} 个版本
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="max-h-96 overflow-y-auto divide-y border rounded-md">
+          {versions.map(version => {
+            const isCurrent = version.version === currentVersion;
+            return (
+              <div key={version.version} className="flex items-center justify-between gap-3 p-3">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2 text-sm font-medium text-gray-900">
+                    v{version.version}
+                    {isCurrent && (
+                      <span className="px-2 py-0.5 rounded-full text-xs bg-green-100 text-green-700">
+                        当前版本
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {formatDate(version.uploadTime)} · {formatFileSize(version.fileSize)}
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => window.open(getFileShareUrl(version), '_blank')}
+                    title="在新窗口打开"
+                  >
+                    <ExternalLink className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleCopy(getFileShareUrl(version), version.version)}
+                    title="复制该版本链接"
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  {!isCurrent && onPromote && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handlePromote(version.version)}
+                      title="设为当前版本"
+                    >
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      设为当前
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
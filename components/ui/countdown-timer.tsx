@@ -1,23 +1,30 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { Clock } from 'lucide-react';
+import { Clock, Infinity as InfinityIcon } from 'lucide-react';
 
 interface CountdownTimerProps {
-  expiresAt: string;
+  expiresAt: string | null;   // 过期时间，null表示永久有效
   onExpired?: () => void;
 }
 
 export function CountdownTimer({ expiresAt, onExpired }: CountdownTimerProps) {
   const [timeLeft, setTimeLeft] = useState<{
+    days: number;
     hours: number;
     minutes: number;
     seconds: number;
-  }>({ hours: 0, minutes: 0, seconds: 0 });
+  }>({ days: 0, hours: 0, minutes: 0, seconds: 0 });
   
   const [isExpired, setIsExpired] = useState(false);
 
   useEffect(() => {
+    // 永久有效的文件不需要倒计时
+    if (expiresAt === null) {
+      setIsExpired(false);
+      return;
+    }
+
     const updateCountdown = () => {
       const now = new Date().getTime();
       const expiry = new Date(expiresAt).getTime();
@@ -25,16 +32,19 @@ export function CountdownTimer({ expiresAt, onExpired }: CountdownTimerProps) {
 
       if (difference <= 0) {
         setIsExpired(true);
-        setTimeLeft({ hours: 0, minutes: 0, seconds: 0 });
+        setTimeLeft({ days: 0, hours: 0, minutes: 0, seconds: 0 });
         onExpired?.();
         return;
       }
 
-      const hours = Math.floor(difference / (1000 * 60 * 60));
+      setIsExpired(false);
+
+      const days = Math.floor(difference / (1000 * 60 * 60 * 24));
+      const hours = Math.floor((difference % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
       const minutes = Math.floor((difference % (1000 * 60 * 60)) / (1000 * 60));
       const seconds = Math.floor((difference % (1000 * 60)) / 1000);
 
-      setTimeLeft({ hours, minutes, seconds });
+      setTimeLeft({ days, hours, minutes, seconds });
     };
 
     // 立即更新一次
@@ -46,6 +56,15 @@ export function CountdownTimer({ expiresAt, onExpired }: CountdownTimerProps) {
     return () => clearInterval(interval);
   }, [expiresAt, onExpired]);
 
+  if (expiresAt === null) {
+    return (
+      <span className="inline-flex items-center text-xs text-green-600 font-medium">
+        <InfinityIcon className="h-3 w-3 mr-1" />
+        永久有效
+      </span>
+    );
+  }
+
   if (isExpired) {
     return (
       <span className="inline-flex items-center text-xs text-red-600 font-medium">
@@ -57,7 +76,7 @@ export function CountdownTimer({ expiresAt, onExpired }: CountdownTimerProps) {
 
   // 根据剩余时间选择颜色
   const getTimeColor = () => {
-    const totalMinutes = timeLeft.hours * 60 + timeLeft.minutes;
+    const totalMinutes = timeLeft.days * 24 * 60 + timeLeft.hours * 60 + timeLeft.minutes;
     if (totalMinutes < 60) return 'text-red-600'; // 小于1小时，红色警告
     if (totalMinutes < 180) return 'text-orange-600'; // 小于3小时，橙色
     return 'text-gray-600'; // 超过3小时，正常灰色
@@ -65,14 +84,14 @@ export function CountdownTimer({ expiresAt, onExpired }: CountdownTimerProps) {
 
   const formatTime = (num: number) => num.toString().padStart(2, '0');
 
+  const clock = timeLeft.hours > 0 || timeLeft.days > 0
+    ? `${formatTime(timeLeft.hours)}:${formatTime(timeLeft.minutes)}:${formatTime(timeLeft.seconds)}`
+    : `${formatTime(timeLeft.minutes)}:${formatTime(timeLeft.seconds)}`;
+
   return (
     <span className={`inline-flex items-center text-xs font-medium ${getTimeColor()}`}>
       <Clock className="h-3 w-3 mr-1" />
-      {timeLeft.hours > 0 ? (
-        `${formatTime(timeLeft.hours)}:${formatTime(timeLeft.minutes)}:${formatTime(timeLeft.seconds)}`
-      ) : (
-        `${formatTime(timeLeft.minutes)}:${formatTime(timeLeft.seconds)}`
-      )}
+      {timeLeft.days > 0 ? `${timeLeft.days}天 ${clock}` : clock}
     </span>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { decodeCloudinaryAsset, decodeCloudinaryFolders, encodeCloudinaryContext } from '../cloud-storage';
+import { CloudinaryAsset, FileInfo, Folder } from '../types';
+
+/**
+ * 按Cloudinary的规则解析上下文元数据（| 分隔键值对，= 分隔键和值，反斜杠转义）
+ */
+function parseContext(context: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const pair of context.split(/(?<!\\)\|/)) {
+    const separator = pair.search(/(?<!\\)=/);
+    result[pair.slice(0, separator)] = pair.slice(separator + 1).replace(/\\([=|])/g, '$1');
+  }
+  return result;
+}
+
+function createAsset(fileInfo: FileInfo, folderPath: Folder[] = []): CloudinaryAsset {
+  return {
+    public_id: fileInfo.publicId,
+    resource_type: 'raw',
+    bytes: fileInfo.fileSize,
+    url: fileInfo.cloudinaryUrl,
+    secure_url: fileInfo.cloudinaryUrl,
+    created_at: fileInfo.uploadTime,
+    tags: ['upload-center', ...(fileInfo.tags || [])],
+    context: { custom: parseContext(encodeCloudinaryContext(fileInfo, folderPath)) },
+  };
+}
+
+const folders: Folder[] = [
+  { id: 'f1', name: '客户=A', parentId: null, createdAt: '2024-01-01T00:00:00.000Z' },
+  { id: 'f2', name: '合同|2024', parentId: 'f1', createdAt: '2024-01-01T00:00:00.000Z' },
+];
+
+const fileInfo: FileInfo = {
+  id: 'file-1',
+  fileName: '报价单=最终版|v2.pdf',
+  uploadTime: '2024-03-01T08:00:00.000Z',
+  expiresAt: '2024-03-08T08:00:00.000Z',
+  expiryOption: '7d',
+  fileSize: 2048,
+  cloudinaryUrl: 'https://res.cloudinary.com/demo/raw/upload/v1/abc.pdf',
+  fileType: 'application/pdf',
+  publicId: 'abc.pdf',
+  storageProvider: 'cloudinary',
+  parentId: 'f2',
+  relativePath: '客户A/报价单.pdf',
+  tags: ['报价'],
+  uploader: '张三',
+  contentHash: 'b'.repeat(64),
+  metadataStripped: true,
+  version: 2,
+};
+
+describe('Cloudinary上下文元数据', () => {
+  it('编码后再解码还原文件信息、文件夹和版本号', () => {
+    const decoded = decodeCloudinaryAsset(createAsset(fileInfo, folders));
+    expect(decoded).toEqual(fileInfo);
+  });
+
+  it('由文件夹路径重建文件夹', () => {
+    const rebuilt = decodeCloudinaryFolders([createAsset(fileInfo, folders), createAsset({ ...fileInfo, id: 'file-2' }, folders)]);
+    expect(rebuilt).toEqual([
+      { id: 'f1', name: '客户=A', parentId: null, createdAt: fileInfo.uploadTime },
+      { id: 'f2', name: '合同|2024', parentId: 'f1', createdAt: fileInfo.uploadTime },
+    ]);
+  });
+
+  it('加密文件只写入ID、时间、有效期和版本号', () => {
+    const context = parseContext(encodeCloudinaryContext({ ...fileInfo, encryptionKey: 'key' }, folders));
+    expect(Object.keys(context).sort()).toEqual(['expires_at', 'expiry_option', 'file_id', 'upload_time', 'version']);
+  });
+
+  it('永久有效的文件解码后仍为永久有效', () => {
+    const decoded = decodeCloudinaryAsset(createAsset({ ...fileInfo, expiresAt: null, expiryOption: 'never' }));
+    expect(decoded.expiresAt).toBeNull();
+  });
+
+  it('没有元数据的旧文件按上传时间加默认有效期计算过期时间', () => {
+    const decoded = decodeCloudinaryAsset({
+      public_id: 'folder/photo',
+      resource_type: 'image',
+      format: 'png',
+      bytes: 100,
+      url: 'http://example.com/photo.png',
+      secure_url: 'https://example.com/photo.png',
+      created_at: '2024-01-01T00:00:00Z',
+    });
+
+    expect(decoded.fileName).toBe('photo.png');
+    expect(decoded.fileType).toBe('image/png');
+    expect(decoded.parentId).toBeNull();
+    expect(decoded.expiresAt).toBe('2024-01-02T00:00:00.000Z');
+  });
+});
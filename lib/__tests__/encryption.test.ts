@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MAX_ENCRYPTED_FILE_SIZE_MB, createDecryptLink, decryptStream, encryptFile, getFileShareUrl, parseDecryptLink } from '../encryption';
+import { getLocalFileUrl } from '../local-files';
+
+/**
+ * 解密文件并拼接全部明文
+ */
+async function decryptAll(file: Blob, key: string): Promise<{ name: string; type: string; data: Uint8Array }> {
+  const chunks: Uint8Array[] = [];
+  const metadata = await decryptStream(file.stream(), key, { onData: data => { chunks.push(data); } });
+
+  const data = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach(chunk => {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return { name: metadata.name, type: metadata.type, data };
+}
+
+describe('端到端加密', () => {
+  it('加密后解密得到原文件名、类型和内容（跨多个分块）', async () => {
+    const plain = new Uint8Array(2.5 * 1024 * 1024).map((_, index) => index % 251);
+    const encrypted = await encryptFile(new File([plain], '报价单.pdf', { type: 'application/pdf' }));
+
+    expect(encrypted.file.name).toBe('encrypted.bin');
+    const result = await decryptAll(encrypted.file, encrypted.key);
+    expect(result.name).toBe('报价单.pdf');
+    expect(result.type).toBe('application/pdf');
+    expect(Buffer.compare(result.data, plain)).toBe(0);
+  });
+
+  it('空文件也能加密和解密', async () => {
+    const encrypted = await encryptFile(new File([], 'empty.txt', { type: 'text/plain' }));
+    const result = await decryptAll(encrypted.file, encrypted.key);
+    expect(result.data.length).toBe(0);
+  });
+
+  it('使用错误的密钥时解密失败', async () => {
+    const encrypted = await encryptFile(new File(['hello'], 'a.txt', { type: 'text/plain' }));
+    const other = await encryptFile(new File(['hello'], 'a.txt', { type: 'text/plain' }));
+    await expect(decryptAll(encrypted.file, other.key)).rejects.toThrow('解密失败');
+  });
+
+  it('密文被截断时解密失败', async () => {
+    const encrypted = await encryptFile(new File([new Uint8Array(4096)], 'a.bin'));
+    const truncated = encrypted.file.slice(0, encrypted.file.size - 10);
+    await expect(decryptAll(truncated, encrypted.key)).rejects.toThrow();
+  });
+
+  it('超过大小限制的文件拒绝加密', async () => {
+    const file = new File([], 'big.bin');
+    Object.defineProperty(file, 'size', { value: MAX_ENCRYPTED_FILE_SIZE_MB * 1024 * 1024 + 1 });
+    await expect(encryptFile(file)).rejects.toThrow(`${MAX_ENCRYPTED_FILE_SIZE_MB}MB`);
+  });
+});
+
+describe('createDecryptLink', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('解密页面链接包含应用的基础路径，密钥只放在#片段中', () => {
+    vi.stubGlobal('window', { location: { origin: 'https://user.github.io' } });
+    vi.stubEnv('NEXT_PUBLIC_BASE_PATH', '/repo/');
+
+    const link = new URL(createDecryptLink('https://res.cloudinary.com/demo/raw/upload/v1/a.bin', 'secret-key'));
+    expect(link.origin + link.pathname).toBe('https://user.github.io/repo/decrypt');
+    expect(link.search).not.toContain('secret-key');
+    expect(parseDecryptLink(link.search, link.hash)).toEqual({
+      src: 'https://res.cloudinary.com/demo/raw/upload/v1/a.bin',
+      key: 'secret-key',
+    });
+  });
+});
+
+describe('getFileShareUrl', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('本地存储的相对链接按当前站点地址补全', () => {
+    vi.stubGlobal('window', { location: { origin: 'http://192.168.1.5:3001' } });
+    const cloudinaryUrl = getLocalFileUrl('uploads/报价 单.pdf');
+
+    expect(cloudinaryUrl).toBe('/api/local-files/uploads/%E6%8A%A5%E4%BB%B7%20%E5%8D%95.pdf');
+    expect(getFileShareUrl({ cloudinaryUrl })).toBe(`http://192.168.1.5:3001${cloudinaryUrl}`);
+
+    const decryptLink = new URL(getFileShareUrl({ cloudinaryUrl, encryptionKey: 'secret-key' }));
+    expect(parseDecryptLink(decryptLink.search, decryptLink.hash)?.src).toBe(`http://192.168.1.5:3001${cloudinaryUrl}`);
+  });
+
+  it('完整链接原样返回', () => {
+    vi.stubGlobal('window', { location: { origin: 'http://localhost:3000' } });
+    const cloudinaryUrl = 'https://res.cloudinary.com/demo/raw/upload/v1/a.txt';
+    expect(getFileShareUrl({ cloudinaryUrl })).toBe(cloudinaryUrl);
+  });
+});
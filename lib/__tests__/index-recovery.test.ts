@@ -0,0 +1,60 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  discardQuarantinedIndex,
+  getQuarantinedIndexes,
+  getQuarantinedRaw,
+  quarantineCorruptIndex,
+} from '../index-recovery';
+
+// 模拟浏览器环境：模块在加载时判断是否为客户端，需在导入前设置
+const { values } = vi.hoisted(() => {
+  const values = new Map<string, string>();
+  vi.stubGlobal('window', { dispatchEvent: () => true });
+  vi.stubGlobal('CustomEvent', class extends Event {});
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => { values.set(key, value); },
+    removeItem: (key: string) => { values.delete(key); },
+    key: (index: number) => Array.from(values.keys())[index] ?? null,
+    get length() { return values.size; },
+  });
+  return { values };
+});
+
+const raw = '{"version":3,"files":[{"id":"a","fileName":"a.txt","cloudinaryUrl":"u"},{"id":';
+
+describe('损坏索引的隔离', () => {
+  beforeEach(() => {
+    values.clear();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  it('原始数据原样移入隔离区，并抢救出可解析的记录', () => {
+    values.set('uploaded-files', raw);
+
+    expect(quarantineCorruptIndex('uploaded-files', raw)).toBe(true);
+    expect(values.has('uploaded-files')).toBe(false);
+
+    const [entry] = getQuarantinedIndexes();
+    expect(entry.sourceKey).toBe('uploaded-files');
+    expect(entry.rawSize).toBe(raw.length);
+    expect(entry.salvagedFiles.map(file => file.id)).toEqual(['a']);
+    expect(getQuarantinedRaw(entry.id)).toBe(raw);
+  });
+
+  it('隔离信息键不能作为隔离数据读取或删除', () => {
+    quarantineCorruptIndex('uploaded-files', raw);
+    const metaKey = Array.from(values.keys()).find(key => key !== getQuarantinedIndexes()[0].id)!;
+
+    expect(getQuarantinedRaw(metaKey)).toBeNull();
+    discardQuarantinedIndex(metaKey);
+    expect(values.has(metaKey)).toBe(true);
+  });
+
+  it('删除隔离数据时一并删除隔离信息', () => {
+    quarantineCorruptIndex('uploaded-files', raw);
+    discardQuarantinedIndex(getQuarantinedIndexes()[0].id);
+
+    expect(values.size).toBe(0);
+  });
+});
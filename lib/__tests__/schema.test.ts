@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_SCHEMA_VERSION, createFileIndexEnvelope, migrateFileRecords, unwrapFileIndex } from '../schema';
+
+describe('migrateFileRecords', () => {
+  it('v1旧数据补全必填字段，过期时间按上传时间加24小时计算', () => {
+    const [file] = migrateFileRecords([
+      { id: 'a', fileName: 'a.txt', cloudinaryUrl: 'https://example.com/a', uploadTime: '2024-01-01T00:00:00.000Z' },
+    ], 1);
+
+    expect(file.expiresAt).toBe('2024-01-02T00:00:00.000Z');
+    expect(file.fileSize).toBe(0);
+    expect(file.fileType).toBe('application/octet-stream');
+    expect(file.publicId).toBe('');
+  });
+
+  it('v2数据补全文件夹、标签、版本和存储服务字段', () => {
+    const [file] = migrateFileRecords([
+      {
+        id: 'a',
+        fileName: 'a.txt',
+        cloudinaryUrl: 'https://example.com/a',
+        uploadTime: '2024-01-01T00:00:00.000Z',
+        expiresAt: null,
+        fileSize: 1,
+        fileType: 'text/plain',
+        publicId: 'a',
+        tags: ['合同', 1, ''],
+        versions: [{ version: 1, publicId: 'old' }, { version: 'x' }],
+        contentHash: 'not-a-hash',
+        encryptionKey: 'abc_DEF-123',
+      },
+    ], 2);
+
+    expect(file.storageProvider).toBe('cloudinary');
+    expect(file.parentId).toBeNull();
+    expect(file.tags).toEqual(['合同']);
+    expect(file.version).toBe(1);
+    expect(file.versions).toEqual([{ version: 1, publicId: 'old', storageProvider: 'cloudinary' }]);
+    expect(file).not.toHaveProperty('contentHash');
+    expect(file.encryptionKey).toBe('abc_DEF-123');
+  });
+
+  it('保留v2数据中已有的有效字段', () => {
+    const hash = 'a'.repeat(64);
+    const [file] = migrateFileRecords([
+      {
+        id: 'a',
+        fileName: 'a.txt',
+        cloudinaryUrl: 'https://example.com/a',
+        storageProvider: 's3',
+        parentId: 'folder-1',
+        version: 3,
+        contentHash: hash,
+      },
+    ], 2);
+
+    expect(file.storageProvider).toBe('s3');
+    expect(file.parentId).toBe('folder-1');
+    expect(file.version).toBe(3);
+    expect(file.contentHash).toBe(hash);
+  });
+
+  it('高于当前版本的数据拒绝迁移', () => {
+    expect(() => migrateFileRecords([], CURRENT_SCHEMA_VERSION + 1)).toThrow('请升级应用');
+  });
+
+  it('过滤缺少基本字段的记录', () => {
+    expect(migrateFileRecords([{ id: 'a' }, null, 'x'], CURRENT_SCHEMA_VERSION)).toEqual([]);
+  });
+});
+
+describe('unwrapFileIndex', () => {
+  it('纯数组按v1数据处理', () => {
+    const { version, files } = unwrapFileIndex([{ id: 'a', fileName: 'a.txt', cloudinaryUrl: 'u' }]);
+    expect(version).toBe(1);
+    expect(files[0].version).toBe(1);
+  });
+
+  it('当前版本的信封原样读取', () => {
+    const file = {
+      id: 'a',
+      fileName: 'a.txt',
+      cloudinaryUrl: 'u',
+      uploadTime: '2024-01-01T00:00:00.000Z',
+      expiresAt: null,
+      fileSize: 1,
+      fileType: 'text/plain',
+      publicId: 'a',
+    };
+    const { version, files } = unwrapFileIndex(JSON.parse(JSON.stringify(createFileIndexEnvelope([file]))));
+    expect(version).toBe(CURRENT_SCHEMA_VERSION);
+    expect(files).toEqual([file]);
+  });
+
+  it('格式不正确时报错', () => {
+    expect(() => unwrapFileIndex({ files: 'x' })).toThrow('文件索引数据格式不正确');
+  });
+});
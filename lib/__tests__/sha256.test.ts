@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { HASH_CHUNK_SIZE, createSha256, hashBlobInChunks } from '../sha256';
+
+/**
+ * 用SubtleCrypto一次性计算摘要作为对照
+ */
+async function digestHex(data: Uint8Array<ArrayBuffer>): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+describe('createSha256', () => {
+  it('与NIST示例一致', () => {
+    const empty = createSha256();
+    expect(empty.digest()).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+
+    const abc = createSha256();
+    abc.update(new TextEncoder().encode('abc'));
+    expect(abc.digest()).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+  });
+
+  it('分多次追加与一次性计算结果一致（覆盖填充边界）', async () => {
+    for (const length of [55, 56, 63, 64, 65, 119, 120, 1000]) {
+      const data = new Uint8Array(length).map((_, index) => (index * 31) % 256);
+      const sha256 = createSha256();
+      for (let offset = 0; offset < length; offset += 7) {
+        sha256.update(data.subarray(offset, offset + 7));
+      }
+      expect(sha256.digest()).toBe(await digestHex(data));
+    }
+  });
+});
+
+describe('hashBlobInChunks', () => {
+  it('按块读取大文件的结果与一次性计算一致', async () => {
+    const data = new Uint8Array(HASH_CHUNK_SIZE * 2 + 123).map((_, index) => index % 253);
+    expect(await hashBlobInChunks(new Blob([data]))).toBe(await digestHex(data));
+  });
+});
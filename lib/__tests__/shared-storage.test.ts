@@ -0,0 +1,40 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { checkForSharedFiles, generateShareLink } from '../shared-storage';
+import { FileInfo } from '../types';
+
+const encryptedFile: FileInfo = {
+  id: 'file-1',
+  fileName: 'report.pdf',
+  uploadTime: '2024-01-01T00:00:00.000Z',
+  expiresAt: null,
+  expiryOption: 'never',
+  fileSize: 1024,
+  cloudinaryUrl: 'https://res.cloudinary.com/demo/raw/upload/v1/a.bin',
+  fileType: 'application/pdf',
+  publicId: 'a.bin',
+  encryptionKey: 'secret-key',
+};
+
+describe('generateShareLink', () => {
+  beforeEach(() => {
+    vi.stubGlobal('window', { location: { origin: 'https://example.com', pathname: '/app/', search: '', hash: '' } });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('分享数据只放在#片段中，并带上加密文件的密钥', () => {
+    const link = new URL(generateShareLink([encryptedFile]));
+    expect(link.search).toBe('');
+
+    window.location.hash = link.hash;
+    expect(checkForSharedFiles()).toEqual([encryptedFile]);
+  });
+
+  it('兼容查询字符串中的旧版分享链接', () => {
+    const plainFile: FileInfo = { ...encryptedFile, encryptionKey: undefined };
+    window.location.search = `?share=${encodeURIComponent(btoa(JSON.stringify({ files: [plainFile] })))}`;
+    expect(checkForSharedFiles()).toEqual([plainFile]);
+  });
+});
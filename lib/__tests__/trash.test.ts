@@ -0,0 +1,112 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getHybridFileList } from '../cloud-storage';
+import { getFileIndexStore } from '../file-index-store';
+import { purgeFilesFromTrash } from '../trash';
+import { FileInfo } from '../types';
+
+// 模拟浏览器环境：各模块在加载时判断是否为客户端，需在导入前设置
+vi.hoisted(() => {
+  const values = new Map<string, string>();
+  vi.stubGlobal('window', globalThis);
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => values.get(key) ?? null,
+    setItem: (key: string, value: string) => { values.set(key, value); },
+    removeItem: (key: string) => { values.delete(key); },
+    clear: () => values.clear(),
+    key: (index: number) => Array.from(values.keys())[index] ?? null,
+    get length() { return values.size; },
+  });
+});
+
+// 使用不跨标签页同步的localStorage索引存储
+vi.mock('../file-index-store', async importOriginal => {
+  const actual = await importOriginal<typeof import('../file-index-store')>();
+  const store = actual.createLocalStorageFileIndexStore();
+  return { ...actual, getFileIndexStore: () => Promise.resolve(store) };
+});
+
+const trashedFile: FileInfo = {
+  id: 'file-1',
+  fileName: 'a.txt',
+  uploadTime: '2024-01-01T00:00:00.000Z',
+  expiresAt: null,
+  expiryOption: 'never',
+  fileSize: 1,
+  cloudinaryUrl: 'https://res.cloudinary.com/demo/raw/upload/v1/a.txt',
+  fileType: 'text/plain',
+  publicId: 'a.txt',
+  storageProvider: 'cloudinary',
+  deletedAt: new Date().toISOString(),
+  deleteReason: 'deleted',
+};
+
+describe('purgeFilesFromTrash', () => {
+  let listRequests = 0;
+
+  beforeEach(async () => {
+    listRequests = 0;
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+      if (url.startsWith('/api/cloudinary/list')) {
+        listRequests++;
+        return Response.json({ files: [{ ...trashedFile, deletedAt: undefined, deleteReason: undefined }], folders: [], nextCursor: null });
+      }
+      return Response.json({ result: 'ok' });
+    }));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const store = await getFileIndexStore();
+    await store.replaceAll([trashedFile]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('彻底删除后混合列表不会从缓存的云端列表中重新补充该文件', async () => {
+    // 首次列出云端文件，文件仍在回收站中，不会被补充
+    expect(await getHybridFileList()).toEqual([]);
+    expect(listRequests).toBe(1);
+
+    expect(await purgeFilesFromTrash([trashedFile])).toBe(0);
+    expect(fetch).toHaveBeenCalledWith('/api/cloudinary/destroy', expect.objectContaining({ method: 'POST' }));
+
+    // 缓存有效期内再次获取混合列表
+    expect(await getHybridFileList()).toEqual([]);
+    expect(listRequests).toBe(1);
+    expect(await (await getFileIndexStore()).getAll()).toEqual([]);
+  });
+
+  it('远程删除在写入锁外进行', async () => {
+    const store = await getFileIndexStore();
+    const events: string[] = [];
+    vi.mocked(fetch).mockImplementation(async () => {
+      events.push('delete');
+      return Response.json({ result: 'ok' });
+    });
+    const withWriteLock = store.withWriteLock;
+    vi.spyOn(store, 'withWriteLock').mockImplementation(task => {
+      events.push('lock');
+      return withWriteLock(task);
+    });
+
+    await purgeFilesFromTrash([trashedFile]);
+    expect(events).toEqual(['delete', 'lock']);
+  });
+
+  it('远程删除失败的文件保留在回收站中', async () => {
+    vi.mocked(fetch).mockResolvedValue(Response.json({ error: '删除失败' }, { status: 400 }));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await purgeFilesFromTrash([trashedFile])).toBe(1);
+    expect(await (await getFileIndexStore()).getAll()).toEqual([trashedFile]);
+  });
+
+  it('已被恢复的文件不会被清除', async () => {
+    const store = await getFileIndexStore();
+    await store.update(trashedFile.id, { deletedAt: undefined, deleteReason: undefined });
+
+    expect(await purgeFilesFromTrash([trashedFile])).toBe(0);
+    expect(fetch).not.toHaveBeenCalled();
+    expect(await store.getAll()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  CONFIG_MISSING_CODE,
+  MAX_UPLOAD_RETRIES,
+  createAbortError,
+  createApiUploadError,
+  createHttpUploadError,
+  createUploadError,
+  getUploadErrorCode,
+  getRetryDelay,
+  getUploadErrorKind,
+  isAbortError,
+  isRetryableUploadError,
+  withUploadRetry,
+} from '../upload-errors';
+
+describe('上传错误分类', () => {
+  it('5xx和429归为可重试的服务端错误', () => {
+    for (const status of [500, 503, 429]) {
+      const error = createHttpUploadError(status);
+      expect(error.kind).toBe('server');
+      expect(error.code).toBe(`http_${status}`);
+      expect(isRetryableUploadError(error)).toBe(true);
+    }
+  });
+
+  it('其余4xx归为不可重试的配置错误', () => {
+    const error = createHttpUploadError(400);
+    expect(getUploadErrorKind(error)).toBe('config');
+    expect(isRetryableUploadError(error)).toBe(false);
+  });
+
+  it('服务端接口缺少配置时归为配置错误，使用响应中的错误信息', () => {
+    const error = createApiUploadError(503, { error: 'S3配置缺失', code: CONFIG_MISSING_CODE });
+    expect(error.kind).toBe('config');
+    expect(error.code).toBe(CONFIG_MISSING_CODE);
+    expect(error.message).toBe('S3配置缺失');
+    expect(isRetryableUploadError(error)).toBe(false);
+
+    expect(createApiUploadError(503, null).kind).toBe('server');
+  });
+
+  it('网络错误和超时可重试', () => {
+    expect(isRetryableUploadError(createUploadError('network', '网络错误'))).toBe(true);
+    expect(isRetryableUploadError(createUploadError('timeout', '超时'))).toBe(true);
+  });
+
+  it('中止错误可被识别且不重试', () => {
+    const error = createAbortError();
+    expect(isAbortError(error)).toBe(true);
+    expect(getUploadErrorKind(error)).toBe('aborted');
+    expect(isRetryableUploadError(error)).toBe(false);
+  });
+
+  it('未分类的错误记为unknown', () => {
+    expect(getUploadErrorKind(new Error('x'))).toBe('unknown');
+    expect(getUploadErrorCode(new Error('x'))).toBe('unknown');
+  });
+});
+
+describe('getRetryDelay', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('等待时长按指数增长，并在上限的一半到上限之间抖动', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const minimums = [1, 2, 3, 4].map(getRetryDelay);
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    const maximums = [1, 2, 3, 4].map(getRetryDelay);
+
+    expect(maximums[1]).toBe(maximums[0] * 2);
+    minimums.forEach((minimum, index) => expect(minimum * 2).toBe(maximums[index]));
+  });
+
+  it('等待时长不超过上限', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    expect(getRetryDelay(100)).toBe(getRetryDelay(20));
+  });
+});
+
+describe('withUploadRetry', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('暂时性错误自动重试直到成功', async () => {
+    vi.useFakeTimers();
+    try {
+      const request = vi.fn()
+        .mockRejectedValueOnce(createHttpUploadError(503))
+        .mockResolvedValueOnce('ok');
+      const onRetry = vi.fn();
+
+      const result = withUploadRetry(request, undefined, onRetry);
+      await vi.runAllTimersAsync();
+
+      await expect(result).resolves.toBe('ok');
+      expect(request).toHaveBeenCalledTimes(2);
+      expect(onRetry).toHaveBeenCalledWith(1, expect.any(Number), expect.objectContaining({ kind: 'server' }));
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('超过最大重试次数后抛出最后的错误', async () => {
+    vi.useFakeTimers();
+    try {
+      const request = vi.fn().mockRejectedValue(createUploadError('network', '网络错误'));
+
+      const result = withUploadRetry(request);
+      const assertion = expect(result).rejects.toThrow('网络错误');
+      await vi.runAllTimersAsync();
+
+      await assertion;
+      expect(request).toHaveBeenCalledTimes(MAX_UPLOAD_RETRIES + 1);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('配置错误不重试', async () => {
+    const request = vi.fn().mockRejectedValue(createHttpUploadError(401));
+    await expect(withUploadRetry(request)).rejects.toMatchObject({ kind: 'config' });
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
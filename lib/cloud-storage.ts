@@ -1,68 +1,257 @@
-import { FileInfo } from './types';
+import { CloudinaryAsset, FileInfo, Folder } from './types';
+import { DEFAULT_EXPIRY_OPTION, EXPIRY_OPTIONS, computeExpiresAt } from './expiry';
+import { fromCloudinaryTags } from './tags';
+import { isStaticDeployment } from './utils';
 
 /**
  * 云端文件索引管理系统
- * 使用Cloudinary标签作为全局文件索引，实现多设备文件同步
+ * 上传时把文件信息写入Cloudinary上下文元数据，列出带upload-center标签的资源后还原文件信息，实现多设备文件同步
  */
 
-// 全局文件标签，用于标识系统上传的文件
-const GLOBAL_FILE_TAG = 'upload-center-files';
-const INDEX_TAG_PREFIX = 'index-';
+// 上下文元数据的键
+const CONTEXT_KEYS = {
+  id: 'file_id',
+  fileName: 'file_name',
+  fileType: 'file_type',
+  fileSize: 'file_size',
+  uploadTime: 'upload_time',
+  expiresAt: 'expires_at',
+  expiryOption: 'expiry_option',
+  relativePath: 'relative_path',
+  uploader: 'uploader',
+  contentHash: 'content_hash',
+  metadataStripped: 'metadata_stripped',
+  folderPath: 'folder_path',
+  version: 'version',
+};
+
+// 加密文件也写入的上下文键（不含文件名、类型等可能泄露内容的信息）
+const ENCRYPTED_CONTEXT_KEYS = [
+  CONTEXT_KEYS.id,
+  CONTEXT_KEYS.uploadTime,
+  CONTEXT_KEYS.expiresAt,
+  CONTEXT_KEYS.expiryOption,
+  CONTEXT_KEYS.version,
+];
+
+// 云端文件列表（文件及其所在的文件夹）
+export interface CloudFileList {
+  files: FileInfo[];          // 由资源信息重建的文件信息
+  folders: Folder[];          // 由文件夹路径重建的文件夹
+}
+
+// 服务端列出云端文件的接口
+const CLOUD_LIST_ENDPOINT = '/api/cloudinary/list';
+
+// 最多读取的页数（每页500个资源），避免资源过多时长时间阻塞
+const MAX_LIST_PAGES = 20;
+
+// 两次列出云端文件的最短间隔：Admin API有调用频率限制，定时刷新时复用上次的结果
+const CLOUD_LIST_INTERVAL = 5 * 60 * 1000;
+
+// 上次列出的云端文件
+let lastCloudList: (CloudFileList & { fetchedAt: number }) | null = null;
+
+/**
+ * 从云端列出文件和文件夹
+ * 通过服务端接口按upload-center标签分页列出Cloudinary资源，并由资源信息重建文件信息和文件夹；
+ * 静态部署或服务端未配置API Secret时不可用，返回空列表
+ * @param force 是否忽略缓存立即重新列出
+ * @returns Promise<云端文件列表>
+ */
+export async function getCloudFileList(force: boolean = false): Promise<CloudFileList> {
+  if (isStaticDeployment()) {
+    // 静态部署环境中无法安全地访问Cloudinary Admin API
+    console.log('[云端模式] Cloudinary Admin API在静态部署中不可用，使用本地存储');
+    return { files: [], folders: [] };
+  }
+
+  if (!force && lastCloudList && Date.now() - lastCloudList.fetchedAt < CLOUD_LIST_INTERVAL) {
+    return lastCloudList;
+  }
+
+  const files: FileInfo[] = [];
+  const folders = new Map<string, Folder>();
+  let cursor: string | null = null;
+  for (let page = 0; page < MAX_LIST_PAGES; page++) {
+    const response = await fetch(cursor ? `${CLOUD_LIST_ENDPOINT}?cursor=${encodeURIComponent(cursor)}` : CLOUD_LIST_ENDPOINT);
+    if (response.status === 503) {
+      console.log('[云端模式] 服务端未配置CLOUDINARY_API_SECRET，使用本地存储');
+      return { files: [], folders: [] };
+    }
+    if (!response.ok) {
+      throw new Error(`获取云端文件列表失败 (HTTP ${response.status})`);
+    }
+
+    const data: CloudFileList & { nextCursor: string | null } = await response.json();
+    files.push(...data.files);
+    (data.folders || []).forEach(folder => folders.set(folder.id, folder));
+    cursor = data.nextCursor;
+    if (!cursor) break;
+  }
+
+  lastCloudList = { fetchedAt: Date.now(), files, folders: Array.from(folders.values()) };
+  return lastCloudList;
+}
 
 /**
- * 从云端获取文件列表（简化版本）
- * 由于Cloudinary List API需要签名认证，在静态部署中不可用
- * 改为使用本地存储作为主要方式，云端仅用于文件存储
+ * 从缓存的云端文件列表中移除已删除的资源
+ * 删除云端文件后调用，避免混合列表在缓存有效期内把已彻底删除的文件当作本地没有的文件重新补充
+ * @param publicIds 已删除资源的公共ID
+ */
+export function invalidateCloudFileList(publicIds: string[]): void {
+  if (!lastCloudList || publicIds.length === 0) return;
+
+  const deleted = new Set(publicIds);
+  lastCloudList = {
+    ...lastCloudList,
+    files: lastCloudList.files.filter(file => !deleted.has(file.publicId)),
+  };
+}
+
+/**
+ * 从云端获取文件列表
+ * @param force 是否忽略缓存立即重新列出
  * @returns Promise<文件信息数组>
  */
-export async function getFilesFromCloud(): Promise<FileInfo[]> {
-  // 静态部署环境中无法安全地访问Cloudinary List API
-  // 返回空数组，让系统使用本地存储
-  console.log('[云端模式] Cloudinary List API在静态部署中不可用，使用本地存储');
-  return [];
+export async function getFilesFromCloud(force: boolean = false): Promise<FileInfo[]> {
+  return (await getCloudFileList(force)).files;
+}
+
+/**
+ * 转义上下文元数据的值（Cloudinary以 | 分隔键值对、以 = 分隔键和值）
+ * @param value 原始值
+ */
+function escapeContextValue(value: string): string {
+  return value.replace(/[=|]/g, char => `\\${char}`);
 }
 
 /**
- * 将文件信息编码为Cloudinary标签
+ * 将文件信息编码为Cloudinary上下文元数据（key=value|key=value）
+ * 上下文的值不像标签那样限制在160字符以内，中文文件名也能完整保存；
+ * 空值不写入，端到端加密的文件只写入ID、时间、有效期和版本号（避免泄露文件名、文件夹等信息）
  * @param fileInfo 文件信息
- * @returns 标签数组
+ * @param folderPath 文件所在文件夹的路径（从根目录开始）
+ * @returns 上传参数context的值
  */
-export function generateCloudinaryTags(fileInfo: FileInfo): string[] {
-  const tags = [GLOBAL_FILE_TAG];
-  
+export function encodeCloudinaryContext(fileInfo: FileInfo, folderPath: Folder[] = []): string {
+  const entries: Record<string, string | undefined> = {
+    [CONTEXT_KEYS.id]: fileInfo.id,
+    [CONTEXT_KEYS.fileName]: fileInfo.fileName,
+    [CONTEXT_KEYS.fileType]: fileInfo.fileType,
+    [CONTEXT_KEYS.fileSize]: String(fileInfo.fileSize),
+    [CONTEXT_KEYS.uploadTime]: fileInfo.uploadTime,
+    [CONTEXT_KEYS.expiresAt]: fileInfo.expiresAt || undefined,
+    [CONTEXT_KEYS.expiryOption]: fileInfo.expiryOption,
+    [CONTEXT_KEYS.relativePath]: fileInfo.relativePath,
+    [CONTEXT_KEYS.uploader]: fileInfo.uploader,
+    [CONTEXT_KEYS.contentHash]: fileInfo.contentHash,
+    [CONTEXT_KEYS.metadataStripped]: fileInfo.metadataStripped ? 'true' : undefined,
+    [CONTEXT_KEYS.folderPath]: folderPath.length > 0
+      ? JSON.stringify(folderPath.map(folder => ({ id: folder.id, name: folder.name })))
+      : undefined,
+    [CONTEXT_KEYS.version]: fileInfo.version ? String(fileInfo.version) : undefined,
+  };
+
+  return Object.entries(entries)
+    .filter((entry): entry is [string, string] => !!entry[1])
+    .filter(([key]) => !fileInfo.encryptionKey || ENCRYPTED_CONTEXT_KEYS.includes(key))
+    .map(([key, value]) => `${key}=${escapeContextValue(value)}`)
+    .join('|');
+}
+
+/**
+ * 解析时间字符串
+ * @returns ISO格式时间，无效时返回undefined
+ */
+function parseTime(value: string | undefined): string | undefined {
+  const time = value ? new Date(value).getTime() : NaN;
+  return Number.isNaN(time) ? undefined : new Date(time).toISOString();
+}
+
+/**
+ * 解析上下文中的文件夹路径
+ * @returns 从根目录开始的文件夹（ID和名称），无效时返回空数组
+ */
+function parseFolderPath(value: string | undefined): Pick<Folder, 'id' | 'name'>[] {
+  if (!value) return [];
+
   try {
-    // 将文件信息编码为标签（Cloudinary标签有长度限制，只保存关键信息）
-    const essentialInfo = {
-      id: fileInfo.id,
-      fileName: fileInfo.fileName,
-      uploadTime: fileInfo.uploadTime,
-      expiresAt: fileInfo.expiresAt,
-      fileSize: fileInfo.fileSize,
-      fileType: fileInfo.fileType,
-    };
-    
-    const encodedInfo = encodeURIComponent(JSON.stringify(essentialInfo));
-    
-    // Cloudinary标签长度限制为160字符，如果太长则分割
-    if (encodedInfo.length <= 140) { // 留一些余量给前缀
-      tags.push(`${INDEX_TAG_PREFIX}${encodedInfo}`);
-    } else {
-      // 如果信息太长，只保存基本信息
-      const basicInfo = {
-        id: fileInfo.id,
-        fileName: fileInfo.fileName.length > 50 ? fileInfo.fileName.substring(0, 50) : fileInfo.fileName,
-        uploadTime: fileInfo.uploadTime,
-        expiresAt: fileInfo.expiresAt,
-      };
-      
-      const basicEncoded = encodeURIComponent(JSON.stringify(basicInfo));
-      tags.push(`${INDEX_TAG_PREFIX}${basicEncoded}`);
-    }
-  } catch (error) {
-    console.warn('生成文件信息标签失败:', error);
+    const path = JSON.parse(value);
+    if (!Array.isArray(path)) return [];
+    return path.every(item => typeof item?.id === 'string' && item.id && typeof item.name === 'string' && item.name)
+      ? path.map(item => ({ id: item.id, name: item.name }))
+      : [];
+  } catch {
+    return [];
   }
-  
-  return tags;
+}
+
+/**
+ * 由资源的上下文元数据重建文件所在的文件夹（多个资源位于同一文件夹时只保留一个）
+ * @param assets 资源信息
+ * @returns 文件夹列表
+ */
+export function decodeCloudinaryFolders(assets: CloudinaryAsset[]): Folder[] {
+  const folders = new Map<string, Folder>();
+
+  for (const asset of assets) {
+    const context = asset.context?.custom || {};
+    const createdAt = parseTime(context[CONTEXT_KEYS.uploadTime]) || parseTime(asset.created_at) || new Date().toISOString();
+
+    parseFolderPath(context[CONTEXT_KEYS.folderPath]).forEach((folder, index, path) => {
+      if (folders.has(folder.id)) return;
+      folders.set(folder.id, { ...folder, parentId: index > 0 ? path[index - 1].id : null, createdAt });
+    });
+  }
+
+  return Array.from(folders.values());
+}
+
+/**
+ * 由Cloudinary资源信息重建文件信息（用于多设备同步和索引恢复）
+ * 有上下文元数据时还原原文件名、类型、大小、有效期、文件夹、版本号、上传者和内容哈希；
+ * 没有时（旧文件）由公共ID和格式推断，过期时间按上传时间加默认有效期计算
+ * @param asset 资源信息
+ * @returns 文件信息
+ */
+export function decodeCloudinaryAsset(asset: CloudinaryAsset): FileInfo {
+  const context = asset.context?.custom || {};
+
+  // 图片和视频的公共ID不含扩展名，raw资源的公共ID包含扩展名
+  const baseName = asset.public_id.split('/').pop() || asset.public_id;
+  const fallbackName = asset.resource_type !== 'raw' && asset.format ? `${baseName}.${asset.format}` : baseName;
+  const fileSize = Number(context[CONTEXT_KEYS.fileSize]);
+  const expiryOption = EXPIRY_OPTIONS.find(option => option.value === context[CONTEXT_KEYS.expiryOption])?.value;
+  const contentHash = context[CONTEXT_KEYS.contentHash];
+  const uploadTime = parseTime(context[CONTEXT_KEYS.uploadTime]) || parseTime(asset.created_at) || new Date().toISOString();
+  const folderPath = parseFolderPath(context[CONTEXT_KEYS.folderPath]);
+  const version = Number(context[CONTEXT_KEYS.version]);
+
+  // 永久有效的文件不写入过期时间；没有记录有效期的旧文件按默认有效期计算
+  const expiresAt = parseTime(context[CONTEXT_KEYS.expiresAt]) || (expiryOption === 'never'
+    ? null
+    : computeExpiresAt(expiryOption || DEFAULT_EXPIRY_OPTION, new Date(uploadTime).getTime()));
+
+  return {
+    id: context[CONTEXT_KEYS.id] || `cloudinary-${asset.asset_id || asset.public_id}`,
+    fileName: context[CONTEXT_KEYS.fileName] || fallbackName,
+    uploadTime,
+    expiresAt,
+    expiryOption,
+    fileSize: Number.isFinite(fileSize) && fileSize >= 0 ? fileSize : asset.bytes,
+    cloudinaryUrl: asset.secure_url,
+    fileType: context[CONTEXT_KEYS.fileType] || getFileTypeFromFormat(asset.format || '', asset.resource_type),
+    publicId: asset.public_id,
+    storageProvider: 'cloudinary',
+    parentId: folderPath.length > 0 ? folderPath[folderPath.length - 1].id : null,
+    relativePath: context[CONTEXT_KEYS.relativePath] || undefined,
+    tags: fromCloudinaryTags(asset.tags || []),
+    uploader: context[CONTEXT_KEYS.uploader] || undefined,
+    contentHash: contentHash && /^[0-9a-f]{64}$/.test(contentHash) ? contentHash : undefined,
+    metadataStripped: context[CONTEXT_KEYS.metadataStripped] === 'true' || undefined,
+    version: Number.isInteger(version) && version > 0 ? version : undefined,
+  };
 }
 
 /**
@@ -71,7 +260,7 @@ export function generateCloudinaryTags(fileInfo: FileInfo): string[] {
  * @param resourceType 资源类型
  * @returns MIME类型
  */
-function getFileTypeFromFormat(format: string, resourceType: string): string {
+export function getFileTypeFromFormat(format: string, resourceType: string): string {
   if (resourceType === 'image') {
     const imageTypes: Record<string, string> = {
       jpg: 'image/jpeg',
@@ -119,24 +308,46 @@ function getFileTypeFromFormat(format: string, resourceType: string): string {
 }
 
 /**
- * 混合存储策略：云端为主，本地为辅
+ * 混合存储策略：本地索引为主，云端列表补充本地没有的文件
+ * 云端文件的任一版本已在本地索引（含回收站）中时视为已知，不会重复添加或恢复已删除的文件；
+ * 新补充的文件写入本地索引，之后可以像本机上传的文件一样管理
+ * @param force 是否忽略缓存立即重新列出云端文件
  * @returns Promise<文件信息数组>
  */
-export async function getHybridFileList(): Promise<FileInfo[]> {
+export async function getHybridFileList(force: boolean = false): Promise<FileInfo[]> {
   try {
-    // 优先从云端获取
-    const cloudFiles = await getFilesFromCloud();
-    
-    if (cloudFiles.length > 0) {
-      console.log(`从云端获取到 ${cloudFiles.length} 个文件`);
-      return cloudFiles;
-    }
-    
-    // 云端无文件时，回退到本地存储
-    console.log('云端无文件，使用本地存储');
     const { getStoredFiles } = await import('./storage');
+
+    let cloudList: CloudFileList = { files: [], folders: [] };
+    try {
+      cloudList = await getCloudFileList(force);
+    } catch (cloudError) {
+      console.warn('获取云端文件列表失败，使用本地存储:', cloudError);
+    }
+
+    if (cloudList.files.length > 0) {
+      const { getFileIndexStore } = await import('./file-index-store');
+      const { getVersionPublicIds, mergeVersionRecords } = await import('./versions');
+      const indexStore = await getFileIndexStore();
+
+      const added = await indexStore.withWriteLock(async store => {
+        // 补充本地没有的文件夹，已有的文件夹（可能已重命名或移动）以本地为准
+        const knownFolderIds = new Set((await store.getAllFolders()).map(folder => folder.id));
+        const missingFolders = cloudList.folders.filter(folder => !knownFolderIds.has(folder.id));
+        if (missingFolders.length > 0) {
+          await store.putFolders(missingFolders);
+        }
+
+        // 同一文件的多个版本在云端是独立的资源，按文件ID合并为带历史版本的文件
+        const knownPublicIds = new Set((await store.getAll()).flatMap(getVersionPublicIds));
+        return store.addMissing(mergeVersionRecords(cloudList.files.filter(file => !knownPublicIds.has(file.publicId))));
+      });
+      if (added.length > 0) {
+        console.log(`从云端补充了 ${added.length} 个本地没有的文件`);
+      }
+    }
+
     return getStoredFiles();
-    
   } catch (error) {
     console.error('获取混合文件列表失败:', error);
     
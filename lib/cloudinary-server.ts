@@ -0,0 +1,215 @@
+import { v2 as cloudinary } from 'cloudinary';
+import { CloudinaryAsset, FileInfo, Folder } from './types';
+import { decodeCloudinaryAsset, decodeCloudinaryFolders } from './cloud-storage';
+
+/**
+ * 需要签名的Cloudinary操作（仅在服务端使用）
+ * API Secret只保存在服务端环境变量CLOUDINARY_API_SECRET中，浏览器通过 /api/cloudinary/* 接口
+ * 删除文件、查询资源信息和获取上传签名
+ */
+
+// Cloudinary资源类型
+type CloudinaryResourceType = CloudinaryAsset['resource_type'];
+
+// 资源信息（不包含敏感数据）
+export interface CloudinaryResourceInfo {
+  publicId: string;           // 公共ID
+  format: string;             // 格式
+  resourceType: string;       // 资源类型
+  bytes: number;              // 文件大小（字节）
+  url: string;                // 访问URL
+  secureUrl: string;          // HTTPS访问URL
+}
+
+// 云端文件列表的一页
+export interface CloudinaryFileListPage {
+  files: FileInfo[];          // 由资源信息重建的文件信息
+  folders: Folder[];          // 这些文件所在的文件夹
+  nextCursor: string | null;  // 下一页的游标（没有更多时为null）
+}
+
+// 批量删除结果
+export interface CloudinaryDestroyResult {
+  deleted: string[];                                  // 已删除（或本来就不存在）的公共ID
+  errors: { publicId: string; error: string }[];      // 删除失败的公共ID及原因
+}
+
+// 服务端缺少配置时返回给浏览器的错误信息
+export const CLOUDINARY_CONFIG_ERROR = 'Cloudinary配置缺失：请在服务端设置CLOUDINARY_API_SECRET环境变量';
+
+// 本应用上传的资源都带有此标签，只允许删除这些资源
+const MANAGED_TAG = 'upload-center';
+
+// 所有资源类型（上传时使用auto，PDF等文件的实际类型可能与MIME类型不一致）
+const RESOURCE_TYPES: CloudinaryResourceType[] = ['image', 'video', 'raw'];
+
+// Admin API单次请求最多处理的资源数量
+const ADMIN_API_BATCH_SIZE = 100;
+
+// 列出资源时每页的数量（Admin API上限）
+const LIST_PAGE_SIZE = 500;
+
+// 允许浏览器请求签名的上传参数，其余参数（如public_id、overwrite）不予签名
+const SIGNABLE_UPLOAD_PARAMS = ['upload_preset', 'tags', 'context'];
+
+// 只允许使用本应用的上传预设
+const UPLOAD_PRESET = 'upload-preset';
+
+/**
+ * 按服务端环境变量配置Cloudinary SDK
+ * @returns 配置是否完整
+ */
+export function configureCloudinary(): boolean {
+  const cloudName = process.env.NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME;
+  const apiKey = process.env.NEXT_PUBLIC_CLOUDINARY_API_KEY;
+  const apiSecret = process.env.CLOUDINARY_API_SECRET;
+  if (!cloudName || !apiKey || !apiSecret) return false;
+
+  cloudinary.config({ cloud_name: cloudName, api_key: apiKey, api_secret: apiSecret, secure: true });
+  return true;
+}
+
+/**
+ * 按批次大小分组
+ */
+function toBatches<T>(items: T[]): T[][] {
+  const batches: T[][] = [];
+  for (let i = 0; i < items.length; i += ADMIN_API_BATCH_SIZE) {
+    batches.push(items.slice(i, i + ADMIN_API_BATCH_SIZE));
+  }
+  return batches;
+}
+
+/**
+ * 查询资源，找出每个公共ID的实际资源类型和标签
+ * @param publicIds 公共ID数组
+ * @returns 按公共ID索引的资源（不存在的资源不在结果中）
+ */
+async function findResources(publicIds: string[]): Promise<Map<string, CloudinaryAsset>> {
+  const found = new Map<string, CloudinaryAsset>();
+
+  for (const resourceType of RESOURCE_TYPES) {
+    const remaining = publicIds.filter(publicId => !found.has(publicId));
+    for (const batch of toBatches(remaining)) {
+      const response = await cloudinary.api.resources_by_ids(batch, {
+        resource_type: resourceType,
+        tags: true,
+        max_results: ADMIN_API_BATCH_SIZE,
+      });
+      for (const resource of response.resources as unknown as CloudinaryAsset[]) {
+        found.set(resource.public_id, resource);
+      }
+    }
+  }
+
+  return found;
+}
+
+/**
+ * 删除资源（只删除带有本应用标签的资源，已不存在的资源视为删除成功）
+ * @param publicIds 公共ID数组
+ * @returns 删除结果
+ */
+export async function destroyResources(publicIds: string[]): Promise<CloudinaryDestroyResult> {
+  const result: CloudinaryDestroyResult = { deleted: [], errors: [] };
+  const uniqueIds = Array.from(new Set(publicIds));
+  const resources = await findResources(uniqueIds);
+
+  const idsByType = new Map<CloudinaryResourceType, string[]>();
+  for (const publicId of uniqueIds) {
+    const resource = resources.get(publicId);
+    if (!resource) {
+      result.deleted.push(publicId);
+    } else if (!resource.tags?.includes(MANAGED_TAG)) {
+      result.errors.push({ publicId, error: '只能删除本应用上传的文件' });
+    } else {
+      idsByType.set(resource.resource_type, [...(idsByType.get(resource.resource_type) || []), publicId]);
+    }
+  }
+
+  for (const [resourceType, ids] of Array.from(idsByType)) {
+    for (const batch of toBatches(ids)) {
+      const response = await cloudinary.api.delete_resources(batch, { resource_type: resourceType, invalidate: true });
+      const statuses: Record<string, string> = response.deleted || {};
+      for (const publicId of batch) {
+        if (statuses[publicId] === 'deleted' || statuses[publicId] === 'not_found') {
+          result.deleted.push(publicId);
+        } else {
+          result.errors.push({ publicId, error: `删除失败 (${statuses[publicId] || '无响应'})` });
+        }
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * 列出本应用上传的资源（一页）
+ * 每种资源类型需要分别列出，游标格式为 资源类型:Cloudinary游标，依次列完image、video、raw
+ * @param cursor 上一页返回的游标（为空时从第一页开始）
+ * @returns 文件信息和下一页游标，游标格式不正确时返回null
+ */
+export async function listManagedFiles(cursor?: string): Promise<CloudinaryFileListPage | null> {
+  const separatorIndex = cursor ? cursor.indexOf(':') : -1;
+  const resourceType = (cursor ? cursor.slice(0, separatorIndex) : RESOURCE_TYPES[0]) as CloudinaryResourceType;
+  const typeCursor = cursor ? cursor.slice(separatorIndex + 1) : '';
+  if (!RESOURCE_TYPES.includes(resourceType)) return null;
+
+  const response = await cloudinary.api.resources_by_tag(MANAGED_TAG, {
+    resource_type: resourceType,
+    max_results: LIST_PAGE_SIZE,
+    tags: true,
+    context: true,
+    ...(typeCursor ? { next_cursor: typeCursor } : {}),
+  });
+
+  const nextType = RESOURCE_TYPES[RESOURCE_TYPES.indexOf(resourceType) + 1];
+  const nextCursor = response.next_cursor
+    ? `${resourceType}:${response.next_cursor}`
+    : nextType ? `${nextType}:` : null;
+
+  const assets = response.resources as unknown as CloudinaryAsset[];
+  return {
+    files: assets.map(decodeCloudinaryAsset),
+    folders: decodeCloudinaryFolders(assets),
+    nextCursor,
+  };
+}
+
+/**
+ * 查询资源信息
+ * @param publicId 公共ID
+ * @returns 资源信息，不存在时返回null
+ */
+export async function getResourceInfo(publicId: string): Promise<CloudinaryResourceInfo | null> {
+  const resource = (await findResources([publicId])).get(publicId);
+  if (!resource) return null;
+
+  return {
+    publicId: resource.public_id,
+    format: resource.format || '',
+    resourceType: resource.resource_type,
+    bytes: resource.bytes,
+    url: resource.url,
+    secureUrl: resource.secure_url,
+  };
+}
+
+/**
+ * 为上传参数签名
+ * @param params 浏览器提交的上传参数
+ * @returns 签名、时间戳和API Key，包含不允许签名的参数或其他上传预设时返回null
+ */
+export function signUploadParams(params: Record<string, string>): {
+  signature: string;
+  timestamp: number;
+  apiKey: string;
+} | null {
+  if (Object.keys(params).some(name => !SIGNABLE_UPLOAD_PARAMS.includes(name))) return null;
+  if (params.upload_preset !== UPLOAD_PRESET) return null;
+
+  const timestamp = Math.round(Date.now() / 1000);
+  const signature = cloudinary.utils.api_sign_request({ ...params, timestamp }, process.env.CLOUDINARY_API_SECRET!);
+  return { signature, timestamp, apiKey: process.env.NEXT_PUBLIC_CLOUDINARY_API_KEY! };
+}
@@ -1,106 +1,411 @@
-import { CloudinaryUploadResponse, FileInfo } from './types';
-import { generateCloudinaryTags } from './cloud-storage';
+import { CloudinaryUploadResponse, FileInfo, Folder, StorageProvider, UploadSession } from './types';
+import { encodeCloudinaryContext, invalidateCloudFileList } from './cloud-storage';
+import { toCloudinaryTags } from './tags';
+import { UploadError, createAbortError, createApiUploadError, createHttpUploadError, createUploadError, getUploadErrorCode, withUploadRetry } from './upload-errors';
+import { findUploadSession, getFileFingerprint, removeUploadSession, saveUploadSession } from './upload-sessions';
+import { generateId, isStaticDeployment } from './utils';
+
+// 单次上传允许的最大文件大小（MB），大文件通过分块上传
+export const MAX_UPLOAD_SIZE_MB = 500;
+
+// 分块大小：Cloudinary要求除最后一块外每块不小于5MB
+export const UPLOAD_CHUNK_SIZE = 6 * 1024 * 1024;
+
+// 单个请求（整文件或单个分块）的超时时间
+const REQUEST_TIMEOUT = 5 * 60 * 1000;
+
+// 需要签名的操作由服务端接口完成（API Secret不下发到浏览器）
+const CLOUDINARY_API_ENDPOINT = '/api/cloudinary';
+
+// 无签名上传预设
+const UPLOAD_PRESET = 'upload-preset';
 
 /**
- * 上传文件到Cloudinary（支持云端文件索引）
- * @param file 要上传的文件
- * @param fileInfo 文件信息（用于生成云端标签）
- * @param onProgress 上传进度回调函数
- * @returns Promise<上传结果>
+ * 上传结果
  */
-export async function uploadFileToCloudinary(
-  file: File, 
-  fileInfo?: FileInfo,
-  onProgress?: (progress: number) => void
-): Promise<{
+interface UploadResult {
   url: string;
   publicId: string;
   secureUrl: string;
-}> {
+  bytes: number;
+  mimeType: string;
+}
+
+// 自动重试回调：重试次数、等待时长（毫秒）、导致重试的错误
+type UploadRetryCallback = (attempt: number, delay: number, error: UploadError) => void;
+
+/**
+ * 放弃文件的分块上传进度（取消上传时调用，下次重新上传将从头开始）
+ * @param file 文件
+ */
+export function discardUploadProgress(file: File): void {
+  const session = findUploadSession(getFileFingerprint(file));
+  if (session) {
+    removeUploadSession(session.uploadId);
+  }
+}
+
+/**
+ * 获取上传接口地址
+ */
+function getUploadEndpoint(): string {
   const cloudName = process.env.NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME;
   
   if (!cloudName) {
-    throw new Error('Cloudinary配置缺失：请设置NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME环境变量');
+    throw createUploadError('config', 'Cloudinary配置缺失：请设置NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME环境变量');
   }
 
-  // 创建FormData - 使用无签名上传预设
-  const formData = new FormData();
-  formData.append('file', file);
-  formData.append('upload_preset', 'upload-preset'); // 使用您需要创建的无签名预设
-  formData.append('resource_type', 'auto'); // 自动检测资源类型
-  
-  // 如果提供了文件信息，添加简单标签
+  return `https://api.cloudinary.com/v1_1/${cloudName}/auto/upload`;
+}
+
+/**
+ * 调用服务端Cloudinary接口
+ * @param action 接口名称（destroy、batch-destroy、resource、sign-upload）
+ * @param body 请求内容
+ * @param signal 中止信号
+ * @returns 响应内容，失败时抛出带分类的上传错误
+ */
+async function requestCloudinaryApi<T>(action: string, body: unknown, signal?: AbortSignal): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(`${CLOUDINARY_API_ENDPOINT}/${action}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) throw createAbortError();
+    throw createUploadError('network', '网络错误，请检查网络连接');
+  }
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw createApiUploadError(response.status, data);
+  }
+  return response.json();
+}
+
+/**
+ * 读取文件夹路径（写入上下文元数据，其他设备据此还原文件夹）
+ * @param folderId 文件夹ID
+ */
+async function loadFolderPath(folderId: string): Promise<Folder[]> {
+  const { getFolderPath, getFolders } = await import('./folders');
+  return getFolderPath(await getFolders(), folderId);
+}
+
+/**
+ * 创建上传参数 - 使用上传预设
+ * @param fileInfo 文件信息（用于生成云端标签和上下文元数据）
+ */
+async function createUploadParams(fileInfo?: FileInfo): Promise<Record<string, string>> {
+  const params: Record<string, string> = { upload_preset: UPLOAD_PRESET };
+
+  // 如果提供了文件信息，添加系统标签和用户标签（加密文件不上传用户标签，避免泄露内容信息）
   if (fileInfo) {
-    const tags = ['upload-center', `file-${fileInfo.id.substring(0, 8)}`];
-    formData.append('tags', tags.join(','));
+    const tags = [
+      'upload-center',
+      `file-${fileInfo.id.substring(0, 8)}`,
+      ...(fileInfo.encryptionKey ? [] : toCloudinaryTags(fileInfo.tags || [])),
+    ];
+    params.tags = tags.join(',');
+
+    // 原文件名、有效期、文件夹、上传者等写入上下文元数据，供其他设备列出文件时还原（加密文件只写入有效期等信息）
+    const folderPath = fileInfo.parentId && !fileInfo.encryptionKey ? await loadFolderPath(fileInfo.parentId) : [];
+    params.context = encodeCloudinaryContext(fileInfo, folderPath);
   }
 
+  return params;
+}
+
+/**
+ * 由服务端为上传参数签名
+ * 静态部署或服务端未配置API Secret时沿用无签名上传
+ * @param params 上传参数
+ * @param signal 中止信号
+ * @param onRetry 自动重试回调
+ * @returns 附加了签名、时间戳和API Key的上传参数
+ */
+async function signUploadParams(
+  params: Record<string, string>,
+  signal?: AbortSignal,
+  onRetry?: UploadRetryCallback
+): Promise<Record<string, string>> {
+  if (isStaticDeployment()) return params;
+
   try {
-    return new Promise((resolve, reject) => {
-      const xhr = new XMLHttpRequest();
-      
-      // 设置上传进度监听
-      if (onProgress) {
-        xhr.upload.addEventListener('progress', (event) => {
-          if (event.lengthComputable) {
-            const progress = Math.round((event.loaded / event.total) * 100);
-            onProgress(progress);
-          }
-        });
-      }
-      
-      // 设置完成处理
-      xhr.onload = function() {
-        if (xhr.status === 200) {
-          try {
-            const response: CloudinaryUploadResponse = JSON.parse(xhr.responseText);
-            resolve({
-              url: response.secure_url,
-              publicId: response.public_id,
-              secureUrl: response.secure_url,
-            });
-          } catch (parseError) {
-            reject(new Error('解析响应数据失败'));
-          }
-        } else {
-          reject(new Error(`上传失败: HTTP ${xhr.status}`));
-        }
-      };
-      
-      // 设置错误处理
-      xhr.onerror = function() {
-        reject(new Error('网络错误，请检查网络连接'));
-      };
-      
-      // 设置超时处理
-      xhr.timeout = 300000; // 5分钟超时
-      xhr.ontimeout = function() {
-        reject(new Error('上传超时，请重试'));
-      };
-      
-      // 发送请求
-      xhr.open('POST', `https://api.cloudinary.com/v1_1/${cloudName}/auto/upload`);
-      xhr.send(formData);
-    });
+    const signed = await withUploadRetry(
+      () => requestCloudinaryApi<{ signature: string; timestamp: number; apiKey: string }>('sign-upload', { params }, signal),
+      signal,
+      onRetry
+    );
+    return { ...params, timestamp: String(signed.timestamp), signature: signed.signature, api_key: signed.apiKey };
   } catch (error) {
-    console.error('文件上传失败:', error);
-    throw new Error('文件上传失败，请重试');
+    if (getUploadErrorCode(error) !== 'http_503') throw error;
+    console.warn('[上传] 服务端未配置CLOUDINARY_API_SECRET，使用无签名上传');
+    return params;
+  }
+}
+
+/**
+ * 创建上传表单
+ * @param file 文件或分块，或由Cloudinary抓取的远程链接
+ * @param params 上传参数（可能已签名）
+ * @param fileName 文件名（上传分块时指定原文件名）
+ */
+function createUploadFormData(file: Blob | string, params: Record<string, string>, fileName?: string): FormData {
+  const formData = new FormData();
+  if (typeof file === 'string') {
+    formData.append('file', file);
+  } else {
+    formData.append('file', file, fileName);
+  }
+  Object.entries(params).forEach(([name, value]) => formData.append(name, value));
+  formData.append('resource_type', 'auto'); // 自动检测资源类型
+
+  return formData;
+}
+
+/**
+ * 发送上传请求
+ * @param formData 上传表单
+ * @param headers 额外请求头（分块上传时使用）
+ * @param onProgress 已发送字节数回调
+ * @param signal 中止信号（暂停或取消上传时中止请求）
+ * @returns Cloudinary响应
+ */
+function sendUploadRequest(
+  formData: FormData,
+  headers: Record<string, string>,
+  onProgress?: (loaded: number) => void,
+  signal?: AbortSignal
+): Promise<CloudinaryUploadResponse> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const handleAbort = () => xhr.abort();
+    signal?.addEventListener('abort', handleAbort);
+    xhr.onloadend = () => signal?.removeEventListener('abort', handleAbort);
+    
+    // 设置上传进度监听
+    if (onProgress) {
+      xhr.upload.addEventListener('progress', (event) => {
+        onProgress(event.loaded);
+      });
+    }
+    
+    // 设置完成处理
+    xhr.onload = function() {
+      if (xhr.status === 200) {
+        try {
+          resolve(JSON.parse(xhr.responseText));
+        } catch (parseError) {
+          reject(createUploadError('server', '解析响应数据失败', 'invalid_response'));
+        }
+      } else {
+        reject(createHttpUploadError(xhr.status));
+      }
+    };
+    
+    // 设置错误处理
+    xhr.onerror = function() {
+      reject(createUploadError('network', '网络错误，请检查网络连接'));
+    };
+    
+    // 设置超时处理
+    xhr.timeout = REQUEST_TIMEOUT;
+    xhr.ontimeout = function() {
+      reject(createUploadError('timeout', '上传超时'));
+    };
+
+    // 设置中止处理
+    xhr.onabort = function() {
+      reject(createAbortError());
+    };
+    
+    // 发送请求
+    xhr.open('POST', getUploadEndpoint());
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+    xhr.send(formData);
+  });
+}
+
+/**
+ * 转换Cloudinary响应为上传结果
+ */
+function toUploadResult(response: CloudinaryUploadResponse): UploadResult {
+  return {
+    url: response.secure_url,
+    publicId: response.public_id,
+    secureUrl: response.secure_url,
+    bytes: response.bytes,
+    mimeType: getMimeTypeFromResponse(response),
+  };
+}
+
+/**
+ * 根据Cloudinary响应推断MIME类型（raw资源无法推断时返回通用类型）
+ */
+function getMimeTypeFromResponse(response: CloudinaryUploadResponse): string {
+  if ((response.resource_type === 'image' || response.resource_type === 'video') && response.format) {
+    return `${response.resource_type}/${response.format === 'jpg' ? 'jpeg' : response.format}`;
+  }
+  return 'application/octet-stream';
+}
+
+/**
+ * 分块上传大文件（X-Unique-Upload-Id / Content-Range协议）
+ * 每个分块确认后记录会话进度，中断后重新上传同一文件会从最后确认的分块继续
+ * @param file 要上传的文件
+ * @param fileInfo 文件信息（用于生成云端标签）
+ * @param onProgress 上传进度回调函数
+ * @param signal 中止信号
+ * @param onRetry 自动重试回调
+ */
+async function uploadInChunks(
+  file: File,
+  fileInfo?: FileInfo,
+  onProgress?: (progress: number, bytesSent: number) => void,
+  signal?: AbortSignal,
+  onRetry?: UploadRetryCallback
+): Promise<UploadResult> {
+  const fingerprint = getFileFingerprint(file);
+  const session: UploadSession = findUploadSession(fingerprint) || {
+    uploadId: `uc-${generateId()}`,
+    fingerprint,
+    fileName: file.name,
+    totalSize: file.size,
+    chunkSize: UPLOAD_CHUNK_SIZE,
+    bytesUploaded: 0,
+    updatedAt: new Date().toISOString(),
+  };
+  // 加密上传的密钥不持久化，刷新页面后无法生成相同的密文，会话只保留在内存中供重试和暂停后继续使用
+  const persistSession = !fileInfo?.encryptionKey;
+
+  if (session.bytesUploaded > 0) {
+    console.log(`[分块上传] ${file.name} 从 ${session.bytesUploaded}/${file.size} 字节处继续上传`);
+  }
+
+  const reportProgress = (uploaded: number) => {
+    onProgress?.(Math.min(100, Math.round((uploaded / file.size) * 100)), uploaded);
+  };
+  reportProgress(session.bytesUploaded);
+
+  // 所有分块使用同一组上传参数
+  const params = await signUploadParams(await createUploadParams(fileInfo), signal, onRetry);
+
+  let start = session.bytesUploaded;
+  while (true) {
+    const end = Math.min(start + session.chunkSize, file.size);
+    const chunk = file.slice(start, end);
+
+    // 失败时只重传当前分块
+    const response = await withUploadRetry(() => sendUploadRequest(
+      createUploadFormData(chunk, params, file.name),
+      {
+        'X-Unique-Upload-Id': session.uploadId,
+        'Content-Range': `bytes ${start}-${end - 1}/${file.size}`,
+      },
+      (loaded) => reportProgress(start + Math.min(loaded, chunk.size)),
+      signal
+    ), signal, onRetry);
+
+    if (end >= file.size) {
+      // 最后一块的响应包含完整的资源信息
+      removeUploadSession(session.uploadId);
+      return toUploadResult(response);
+    }
+
+    session.bytesUploaded = end;
+    saveUploadSession(session, persistSession);
+    start = end;
   }
 }
 
 /**
- * 从Cloudinary删除文件（GitHub Pages静态部署版本）
- * 注意：静态部署无法安全地删除Cloudinary文件，此函数仅作占位符
+ * 上传文件到Cloudinary（支持云端文件索引）
+ * 超过一个分块大小的文件自动使用分块上传
+ * @param file 要上传的文件
+ * @param fileInfo 文件信息（用于生成云端标签）
+ * @param onProgress 上传进度回调函数（百分比、已发送字节数）
+ * @param signal 中止信号（暂停或取消上传时中止请求，分块上传的进度会保留）
+ * @param onRetry 自动重试回调（网络错误、超时和服务端错误会自动重试）
+ * @returns Promise<上传结果>
+ */
+export async function uploadFileToCloudinary(
+  file: File, 
+  fileInfo?: FileInfo,
+  onProgress?: (progress: number, bytesSent: number) => void,
+  signal?: AbortSignal,
+  onRetry?: UploadRetryCallback
+): Promise<UploadResult> {
+  if (file.size > UPLOAD_CHUNK_SIZE) {
+    return uploadInChunks(file, fileInfo, onProgress, signal, onRetry);
+  }
+
+  const params = await signUploadParams(await createUploadParams(fileInfo), signal, onRetry);
+  const response = await withUploadRetry(() => sendUploadRequest(
+    createUploadFormData(file, params),
+    {},
+    onProgress && ((loaded) => onProgress(Math.round((loaded / file.size) * 100), Math.min(loaded, file.size))),
+    signal
+  ), signal, onRetry);
+  return toUploadResult(response);
+}
+
+/**
+ * 从远程链接上传到Cloudinary：把链接作为file参数提交，由Cloudinary服务端抓取文件
+ * 浏览器只发送一个很小的请求，抓取完成前无法获得真实进度
+ * @param url 远程文件链接
+ * @param fileInfo 文件信息（用于生成云端标签）
+ * @param onProgress 上传进度回调函数（百分比、已发送字节数），完成时报告100%
+ * @param signal 中止信号
+ * @param onRetry 自动重试回调
+ * @returns Promise<上传结果>（包含抓取到的文件大小和类型）
+ */
+export async function uploadUrlToCloudinary(
+  url: string,
+  fileInfo?: FileInfo,
+  onProgress?: (progress: number, bytesSent: number) => void,
+  signal?: AbortSignal,
+  onRetry?: UploadRetryCallback
+): Promise<UploadResult> {
+  const params = await signUploadParams(await createUploadParams(fileInfo), signal, onRetry);
+  const response = await withUploadRetry(() => sendUploadRequest(
+    createUploadFormData(url, params),
+    {},
+    undefined,
+    signal
+  ), signal, onRetry);
+
+  onProgress?.(100, response.bytes);
+  return toUploadResult(response);
+}
+
+// 服务端批量删除接口单次最多处理的文件数量
+const BATCH_DELETE_SIZE = 100;
+
+/**
+ * 从Cloudinary删除文件
+ * 由服务端接口签名删除；GitHub Pages静态部署无法安全地删除Cloudinary文件，只从本地列表移除
  * @param publicId Cloudinary公共ID
- * @param fileType 文件类型，用于确定资源类型
+ * @param fileType 文件类型（服务端会查询实际资源类型，仅为与其他存储服务保持一致）
  * @returns Promise<删除结果>
  */
 export async function deleteFileFromCloudinary(publicId: string, fileType?: string): Promise<void> {
-  console.log(`[静态部署] 无法从Cloudinary删除文件: ${publicId}`);
-  console.log('文件仍保留在Cloudinary中，只从本地存储移除');
-  // 在静态部署中，我们无法安全地删除Cloudinary文件
-  // 文件将继续保留在云端，但会从本地列表中移除
-  return Promise.resolve();
+  if (isStaticDeployment()) {
+    console.log(`[静态部署] 无法从Cloudinary删除文件: ${publicId}`);
+    console.log('文件仍保留在Cloudinary中，只从本地存储移除');
+    return;
+  }
+
+  await requestCloudinaryApi('destroy', { publicId });
+  invalidateCloudFileList([publicId]);
 }
 
 /**
@@ -119,27 +424,31 @@ export async function batchDeleteFilesFromCloudinary(files: {publicId: string, f
     errors: [] as string[],
   };
 
-  // 并发删除文件，但限制并发数量
-  const concurrencyLimit = 5;
-  const chunks = [];
-  
-  for (let i = 0; i < files.length; i += concurrencyLimit) {
-    chunks.push(files.slice(i, i + concurrencyLimit));
+  if (isStaticDeployment()) {
+    console.log(`[静态部署] 无法从Cloudinary删除 ${files.length} 个文件，只从本地存储移除`);
+    results.successCount = files.length;
+    return results;
   }
 
-  for (const chunk of chunks) {
-    const promises = chunk.map(async (file) => {
-      try {
-        await deleteFileFromCloudinary(file.publicId, file.fileType);
-        results.successCount++;
-      } catch (error) {
-        results.failedCount++;
-        const errorMessage = error instanceof Error ? error.message : '未知错误';
-        results.errors.push(`${file.publicId}: ${errorMessage}`);
-      }
-    });
-    
-    await Promise.all(promises);
+  // 按服务端接口的上限分批删除
+  for (let i = 0; i < files.length; i += BATCH_DELETE_SIZE) {
+    const batch = files.slice(i, i + BATCH_DELETE_SIZE);
+    try {
+      const { deleted, errors } = await requestCloudinaryApi<{
+        deleted: string[];
+        errors: { publicId: string; error: string }[];
+      }>('batch-destroy', { publicIds: batch.map(file => file.publicId) });
+      invalidateCloudFileList(deleted);
+      const deletedIds = new Set(deleted);
+      const deletedCount = batch.filter(file => deletedIds.has(file.publicId)).length;
+      results.successCount += deletedCount;
+      results.failedCount += batch.length - deletedCount;
+      results.errors.push(...errors.map(item => `${item.publicId}: ${item.error}`));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : '未知错误';
+      results.failedCount += batch.length;
+      results.errors.push(...batch.map(file => `${file.publicId}: ${errorMessage}`));
+    }
   }
 
   return results;
@@ -208,6 +517,22 @@ export function getPreviewUrl(originalUrl: string): string {
   });
 }
 
+/**
+ * 根据公共ID生成Cloudinary访问URL
+ * @param publicId Cloudinary公共ID
+ * @param fileType 文件类型，用于确定资源类型（图片/视频/其他）
+ * @returns 访问URL
+ */
+export function getCloudinaryUrl(publicId: string, fileType?: string): string {
+  const cloudName = process.env.NEXT_PUBLIC_CLOUDINARY_CLOUD_NAME;
+  const resourceType = fileType?.startsWith('image/')
+    ? 'image'
+    : fileType?.startsWith('video/') || fileType?.startsWith('audio/')
+    ? 'video'
+    : 'raw';
+  return `https://res.cloudinary.com/${cloudName}/${resourceType}/upload/${publicId}`;
+}
+
 /**
  * 验证Cloudinary配置
  * @returns 配置是否有效
@@ -248,22 +573,30 @@ export async function getFileInfo(publicId: string): Promise<{
   url: string;
   secureUrl: string;
 } | null> {
+  // 静态部署没有服务端接口
+  if (isStaticDeployment()) return null;
+
   try {
-    const response = await fetch('/api/file-info', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ publicId }),
-    });
-    
-    if (!response.ok) {
-      throw new Error('获取文件信息失败');
-    }
-    
-    return await response.json();
+    return await requestCloudinaryApi('resource', { publicId });
   } catch (error) {
     console.error('获取文件信息失败:', error);
     return null;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Cloudinary存储服务（无签名上传，大文件分块上传并支持断点续传）
+ */
+export const cloudinaryProvider: StorageProvider = {
+  id: 'cloudinary',
+  label: 'Cloudinary',
+  maxUploadSizeMB: MAX_UPLOAD_SIZE_MB,
+  upload: uploadFileToCloudinary,
+  uploadFromUrl: uploadUrlToCloudinary,
+  discardUploadProgress,
+  delete: deleteFileFromCloudinary,
+  batchDelete: batchDeleteFilesFromCloudinary,
+  getPublicUrl: getCloudinaryUrl,
+  getPreviewUrl,
+  validateConfig: validateCloudinaryConfig,
+};
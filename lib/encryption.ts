@@ -0,0 +1,373 @@
+import { EncryptedUpload, FileInfo } from './types';
+import { getBasePath, toAbsoluteUrl } from './utils';
+
+/**
+ * 端到端加密上传
+ * 文件在浏览器中用AES-GCM分块加密后再上传，密钥只放在下载链接的#片段中（不会发送给任何服务器），
+ * 持有Cloudinary公开链接的人只能拿到密文；解密页面边下载边解密，按原文件名和类型保存
+ *
+ * 加密文件格式：
+ *   文件头（20字节）：魔数"UCE1" | 分块大小(uint32) | 随机数前缀(8字节) | 元数据密文长度(uint32)
+ *   元数据密文：原文件名、类型和大小的JSON（以文件头作为附加认证数据）
+ *   数据块密文：按分块大小依次加密，每块附带16字节认证标签
+ * 每块的IV为"随机数前缀 + 块序号"（元数据为0，数据块从1开始），块被调换顺序或截断时解密会失败
+ */
+
+// 加密文件中保存的原文件信息
+export interface EncryptedFileMetadata {
+  name: string;               // 原文件名
+  type: string;               // 原MIME类型
+  size: number;               // 原文件大小（字节）
+}
+
+// 流式解密的回调
+interface DecryptHandlers {
+  onMetadata?: (metadata: EncryptedFileMetadata) => void | Promise<void>;  // 读到文件信息时调用（早于数据）
+  onData: (data: Uint8Array) => void | Promise<void>;                      // 每解密一块调用
+}
+
+// 加密上传的文件大小上限：密文在上传前整体保存在内存中，低于普通上传的上限
+export const MAX_ENCRYPTED_FILE_SIZE_MB = 100;
+
+// 加密文件魔数
+const ENCRYPTION_MAGIC = 'UCE1';
+
+// 文件头长度
+const HEADER_LENGTH = 20;
+
+// 明文分块大小
+const ENCRYPTION_CHUNK_SIZE = 1024 * 1024;
+
+// AES-GCM认证标签长度
+const TAG_LENGTH = 16;
+
+// 上传加密文件时使用的文件名（不暴露原文件名）
+const ENCRYPTED_FILE_NAME = 'encrypted.bin';
+
+// 下载链接中的密钥参数名
+const KEY_PARAM = 'key';
+
+/**
+ * 检查当前浏览器是否支持加密（WebCrypto只在HTTPS或localhost下可用）
+ */
+export function isEncryptionSupported(): boolean {
+  return typeof crypto !== 'undefined' && typeof crypto.subtle !== 'undefined';
+}
+
+/**
+ * 字节转为base64url字符串
+ */
+function toBase64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...Array.from(bytes)))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * base64url字符串转为字节
+ */
+function fromBase64Url(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+/**
+ * 生成第index块的IV
+ * @param noncePrefix 随机数前缀（8字节）
+ * @param index 块序号
+ */
+function createIv(noncePrefix: Uint8Array, index: number): Uint8Array<ArrayBuffer> {
+  const iv = new Uint8Array(12);
+  iv.set(noncePrefix);
+  new DataView(iv.buffer).setUint32(8, index);
+  return iv;
+}
+
+/**
+ * 导入base64url格式的密钥
+ * @param key 链接中的密钥
+ */
+async function importKey(key: string): Promise<CryptoKey> {
+  const raw = fromBase64Url(key);
+  if (raw.length !== 32) {
+    throw new Error('解密密钥无效');
+  }
+  return crypto.subtle.importKey('raw', raw, 'AES-GCM', false, ['decrypt']);
+}
+
+/**
+ * 加密文件
+ * 每次调用都会生成新的密钥，同一次上传的重试应沿用第一次的结果
+ * @param file 原文件（不超过MAX_ENCRYPTED_FILE_SIZE_MB）
+ * @returns 加密后的文件（不含原文件名）和base64url格式的密钥
+ */
+export async function encryptFile(file: File): Promise<EncryptedUpload> {
+  if (file.size > MAX_ENCRYPTED_FILE_SIZE_MB * 1024 * 1024) {
+    throw new Error(`加密上传的文件不能超过 ${MAX_ENCRYPTED_FILE_SIZE_MB}MB`);
+  }
+
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt']);
+  const noncePrefix = crypto.getRandomValues(new Uint8Array(8));
+
+  const metadata: EncryptedFileMetadata = { name: file.name, type: file.type, size: file.size };
+  const metadataBytes = new TextEncoder().encode(JSON.stringify(metadata));
+
+  const header = new Uint8Array(HEADER_LENGTH);
+  const view = new DataView(header.buffer);
+  header.set(new TextEncoder().encode(ENCRYPTION_MAGIC));
+  view.setUint32(4, ENCRYPTION_CHUNK_SIZE);
+  header.set(noncePrefix, 8);
+  view.setUint32(16, metadataBytes.length + TAG_LENGTH);
+
+  const parts: BlobPart[] = [
+    header,
+    await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv: createIv(noncePrefix, 0), additionalData: header },
+      key,
+      metadataBytes
+    ),
+  ];
+
+  for (let offset = 0, index = 1; offset < file.size; offset += ENCRYPTION_CHUNK_SIZE, index++) {
+    const chunk = await file.slice(offset, offset + ENCRYPTION_CHUNK_SIZE).arrayBuffer();
+    parts.push(await crypto.subtle.encrypt({ name: 'AES-GCM', iv: createIv(noncePrefix, index) }, key, chunk));
+  }
+
+  const rawKey = new Uint8Array(await crypto.subtle.exportKey('raw', key));
+  return {
+    file: new File(parts, ENCRYPTED_FILE_NAME, { type: 'application/octet-stream' }),
+    key: toBase64Url(rawKey),
+  };
+}
+
+/**
+ * 创建按需读取的字节队列（网络数据块大小不固定，按加密分块重新切分）
+ * @param reader 密文流读取器
+ */
+function createByteReader(reader: ReadableStreamDefaultReader<Uint8Array>) {
+  const pending: Uint8Array[] = [];
+  let pendingLength = 0;
+  let done = false;
+
+  return {
+    /**
+     * 读取指定长度的字节，数据不足时返回null
+     */
+    async read(length: number): Promise<Uint8Array<ArrayBuffer> | null> {
+      while (pendingLength < length && !done) {
+        const result = await reader.read();
+        if (result.done) {
+          done = true;
+        } else {
+          pending.push(result.value);
+          pendingLength += result.value.length;
+        }
+      }
+      if (pendingLength < length) return null;
+
+      const output = new Uint8Array(length);
+      let filled = 0;
+      while (filled < length) {
+        const piece = pending[0];
+        const take = Math.min(piece.length, length - filled);
+        output.set(piece.subarray(0, take), filled);
+        filled += take;
+        if (take === piece.length) {
+          pending.shift();
+        } else {
+          pending[0] = piece.subarray(take);
+        }
+      }
+      pendingLength -= length;
+      return output;
+    },
+
+    /**
+     * 检查是否还有未读取的数据
+     */
+    async hasMore(): Promise<boolean> {
+      if (pendingLength > 0) return true;
+      while (!done) {
+        const result = await reader.read();
+        if (result.done) {
+          done = true;
+        } else if (result.value.length > 0) {
+          pending.push(result.value);
+          pendingLength += result.value.length;
+          return true;
+        }
+      }
+      return false;
+    },
+  };
+}
+
+/**
+ * 流式解密
+ * 先读取并校验文件头和元数据，再逐块解密；onMetadata抛出错误或解密失败时停止读取
+ * @param stream 密文流
+ * @param key 链接中的密钥
+ * @param handlers 回调
+ * @returns 原文件信息
+ */
+export async function decryptStream(
+  stream: ReadableStream<Uint8Array>,
+  key: string,
+  handlers: DecryptHandlers
+): Promise<EncryptedFileMetadata> {
+  const cryptoKey = await importKey(key);
+  const reader = stream.getReader();
+  const bytes = createByteReader(reader);
+
+  const decrypt = async (data: Uint8Array<ArrayBuffer>, iv: Uint8Array<ArrayBuffer>, additionalData?: Uint8Array<ArrayBuffer>) => {
+    try {
+      return new Uint8Array(await crypto.subtle.decrypt(
+        additionalData ? { name: 'AES-GCM', iv, additionalData } : { name: 'AES-GCM', iv },
+        cryptoKey,
+        data
+      ));
+    } catch {
+      throw new Error('解密失败：密钥不正确或文件已损坏');
+    }
+  };
+
+  try {
+    const header = await bytes.read(HEADER_LENGTH);
+    if (!header || new TextDecoder().decode(header.subarray(0, 4)) !== ENCRYPTION_MAGIC) {
+      throw new Error('不是加密文件，或文件格式不受支持');
+    }
+
+    const view = new DataView(header.buffer);
+    const chunkSize = view.getUint32(4);
+    const noncePrefix = header.slice(8, 16);
+    const metadataCipher = await bytes.read(view.getUint32(16));
+    if (!metadataCipher || chunkSize === 0) {
+      throw new Error('加密文件已损坏');
+    }
+
+    const metadata: EncryptedFileMetadata = JSON.parse(
+      new TextDecoder().decode(await decrypt(metadataCipher, createIv(noncePrefix, 0), header))
+    );
+    await handlers.onMetadata?.(metadata);
+
+    // 块数由已认证的原文件大小决定，数据被截断或追加时都会报错
+    const chunkCount = Math.ceil(metadata.size / chunkSize);
+    for (let index = 1; index <= chunkCount; index++) {
+      const plainLength = Math.min(chunkSize, metadata.size - (index - 1) * chunkSize);
+      const cipher = await bytes.read(plainLength + TAG_LENGTH);
+      if (!cipher) {
+        throw new Error('加密文件不完整，请重新下载');
+      }
+      await handlers.onData(await decrypt(cipher, createIv(noncePrefix, index)));
+    }
+
+    if (await bytes.hasMore()) {
+      throw new Error('加密文件已损坏：包含多余的数据');
+    }
+    return metadata;
+  } finally {
+    reader.cancel().catch(() => undefined);
+  }
+}
+
+/**
+ * 下载加密文件并流式解密
+ * @param url 加密文件地址
+ * @param key 链接中的密钥
+ * @param handlers 回调
+ * @returns 原文件信息
+ */
+export async function decryptFromUrl(url: string, key: string, handlers: DecryptHandlers): Promise<EncryptedFileMetadata> {
+  const response = await fetch(url);
+  if (!response.ok || !response.body) {
+    throw new Error(`下载失败: HTTP ${response.status}`);
+  }
+  return decryptStream(response.body, key, handlers);
+}
+
+/**
+ * 只读取加密文件的原文件信息（读到元数据后即停止下载）
+ * @param url 加密文件地址
+ * @param key 链接中的密钥
+ * @returns 原文件信息
+ */
+export async function readEncryptedMetadata(url: string, key: string): Promise<EncryptedFileMetadata> {
+  let result = null as EncryptedFileMetadata | null;
+  const stop = new Error('metadata-read');
+  try {
+    await decryptFromUrl(url, key, {
+      onMetadata: (metadata) => {
+        result = metadata;
+        throw stop;
+      },
+      onData: () => undefined,
+    });
+  } catch (error) {
+    if (error !== stop) throw error;
+  }
+
+  if (!result) {
+    throw new Error('无法读取加密文件信息');
+  }
+  return result;
+}
+
+/**
+ * 下载并解密为文件（按原文件名和类型，整个文件保存在内存中，用于不支持保存文件选择器的浏览器）
+ * @param url 加密文件地址
+ * @param key 链接中的密钥
+ * @param onProgress 已解密字节数回调
+ * @returns 解密后的文件
+ */
+export async function downloadDecryptedFile(
+  url: string,
+  key: string,
+  onProgress?: (bytesDecrypted: number) => void
+): Promise<File> {
+  const parts: BlobPart[] = [];
+  let bytesDecrypted = 0;
+  const metadata = await decryptFromUrl(url, key, {
+    onData: (data) => {
+      parts.push(data as Uint8Array<ArrayBuffer>);
+      bytesDecrypted += data.length;
+      onProgress?.(bytesDecrypted);
+    },
+  });
+  return new File(parts, metadata.name, { type: metadata.type });
+}
+
+/**
+ * 生成加密文件的解密下载链接（密钥放在#片段中，浏览器不会把它发送给服务器）
+ * @param url 加密文件地址
+ * @param key 密钥
+ */
+export function createDecryptLink(url: string, key: string): string {
+  const link = new URL(`${getBasePath()}/decrypt`, window.location.origin);
+  link.searchParams.set('src', url);
+  link.hash = `${KEY_PARAM}=${key}`;
+  return link.toString();
+}
+
+/**
+ * 解析解密下载链接
+ * @param search 链接的查询字符串
+ * @param hash 链接的#片段
+ * @returns 加密文件地址和密钥，链接无效时返回null
+ */
+export function parseDecryptLink(search: string, hash: string): { src: string; key: string } | null {
+  const src = new URLSearchParams(search).get('src');
+  const key = new URLSearchParams(hash.replace(/^#/, '')).get(KEY_PARAM);
+  if (!src || !key || !/^https?:\/\//i.test(src)) return null;
+  return { src, key };
+}
+
+/**
+ * 获取文件的分享/下载链接：加密文件为带密钥的解密页面链接，其他文件为存储服务的完整链接
+ * @param file 文件信息
+ */
+export function getFileShareUrl(file: Pick<FileInfo, 'cloudinaryUrl' | 'encryptionKey'>): string {
+  const url = toAbsoluteUrl(file.cloudinaryUrl);
+  return file.encryptionKey ? createDecryptLink(url, file.encryptionKey) : url;
+}
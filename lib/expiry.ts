@@ -0,0 +1,77 @@
+import { ExpiryOption, FileInfo } from './types';
+
+/**
+ * 文件有效期
+ * 上传时可选择有效期，expiresAt为null表示永久有效
+ */
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// 可选的有效期
+export const EXPIRY_OPTIONS: { value: ExpiryOption; label: string; durationMs: number | null }[] = [
+  { value: '1h', label: '1小时', durationMs: HOUR },
+  { value: '24h', label: '24小时', durationMs: DAY },
+  { value: '7d', label: '7天', durationMs: 7 * DAY },
+  { value: '30d', label: '30天', durationMs: 30 * DAY },
+  { value: 'never', label: '永久', durationMs: null },
+];
+
+// 默认有效期
+export const DEFAULT_EXPIRY_OPTION: ExpiryOption = '24h';
+
+/**
+ * 获取有效期选项的显示名称
+ * @param option 有效期选项
+ */
+export function getExpiryLabel(option: ExpiryOption): string {
+  return EXPIRY_OPTIONS.find(item => item.value === option)?.label || option;
+}
+
+/**
+ * 根据有效期选项计算过期时间
+ * @param option 有效期选项
+ * @param from 起始时间戳（默认当前时间）
+ * @returns ISO格式过期时间，永久有效时返回null
+ */
+export function computeExpiresAt(option: ExpiryOption, from: number = Date.now()): string | null {
+  const duration = EXPIRY_OPTIONS.find(item => item.value === option)?.durationMs;
+  if (duration === undefined) {
+    throw new Error(`未知的有效期选项: ${option}`);
+  }
+  return duration === null ? null : new Date(from + duration).toISOString();
+}
+
+/**
+ * 获取文件剩余有效时间
+ * @param expiresAt 过期时间
+ * @param now 当前时间戳
+ * @returns 剩余毫秒数，永久有效时返回Infinity
+ */
+export function getTimeLeft(expiresAt: string | null, now: number = Date.now()): number {
+  if (expiresAt === null) return Infinity;
+  return new Date(expiresAt).getTime() - now;
+}
+
+/**
+ * 判断文件是否已过期
+ * @param file 文件信息
+ * @param now 当前时间戳
+ */
+export function isFileExpired(file: Pick<FileInfo, 'expiresAt'>, now: number = Date.now()): boolean {
+  return getTimeLeft(file.expiresAt, now) <= 0;
+}
+
+/**
+ * 计算延长有效期后的过期时间
+ * 从当前过期时间（已过期则从现在）开始累加所选时长
+ * @param expiresAt 当前过期时间
+ * @param option 延长的有效期选项
+ * @returns 新的过期时间
+ */
+export function extendExpiresAt(expiresAt: string | null, option: ExpiryOption): string | null {
+  if (expiresAt === null) return null;
+
+  const now = Date.now();
+  return computeExpiresAt(option, Math.max(now, new Date(expiresAt).getTime()));
+}
@@ -0,0 +1,133 @@
+import { FileInfo } from './types';
+import { isTrashed } from './trash';
+import { HASH_CHUNK_SIZE, hashBlobInChunks } from './sha256';
+
+/**
+ * 文件内容哈希
+ * 上传前计算SHA-256用于识别重复文件，大文件在Web Worker中按块读取计算，不会整个读入内存
+ */
+
+// 超过该大小的文件在Worker中计算（字节）
+const WORKER_THRESHOLD = 1024 * 1024;
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, { resolve: (hash: string) => void; reject: (error: Error) => void }>();
+
+/**
+ * 检查当前环境是否支持计算哈希（SubtleCrypto仅在安全上下文中可用）
+ */
+export function isHashSupported(): boolean {
+  return typeof window !== 'undefined' && Boolean(window.crypto?.subtle);
+}
+
+/**
+ * 将摘要转换为十六进制字符串
+ */
+function digestToHex(digest: ArrayBuffer): string {
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * 获取哈希Worker（不支持时返回null）
+ */
+function getHashWorker(): Worker | null {
+  if (typeof Worker === 'undefined') return null;
+
+  if (!worker) {
+    try {
+      worker = new Worker(new URL('./workers/hash.worker.ts', import.meta.url));
+      worker.onmessage = (event: MessageEvent<{ id: number; hash?: string; error?: string }>) => {
+        const { id, hash, error } = event.data;
+        const request = pendingRequests.get(id);
+        if (!request) return;
+
+        pendingRequests.delete(id);
+        if (hash) {
+          request.resolve(hash);
+        } else {
+          request.reject(new Error(error || '计算文件哈希失败'));
+        }
+      };
+      worker.onerror = (event) => {
+        // Worker整体失败时让所有等待中的请求回退到主线程计算
+        console.warn('哈希Worker出错:', event.message);
+        pendingRequests.forEach(request => request.reject(new Error('哈希Worker出错')));
+        pendingRequests.clear();
+        worker?.terminate();
+        worker = null;
+      };
+    } catch (error) {
+      console.warn('无法创建哈希Worker，将在主线程计算:', error);
+      return null;
+    }
+  }
+
+  return worker;
+}
+
+/**
+ * 在主线程计算SHA-256（大文件按块读取）
+ */
+async function hashOnMainThread(file: Blob): Promise<string> {
+  if (file.size > HASH_CHUNK_SIZE) {
+    return hashBlobInChunks(file);
+  }
+  return digestToHex(await crypto.subtle.digest('SHA-256', await file.arrayBuffer()));
+}
+
+/**
+ * 计算文件的SHA-256哈希
+ * @param file 文件
+ * @returns 十六进制哈希字符串
+ */
+export async function hashFile(file: Blob): Promise<string> {
+  if (!isHashSupported()) {
+    throw new Error('当前环境不支持计算文件哈希（需要HTTPS）');
+  }
+
+  const hashWorker = file.size > WORKER_THRESHOLD ? getHashWorker() : null;
+  if (!hashWorker) {
+    return hashOnMainThread(file);
+  }
+
+  try {
+    return await new Promise<string>((resolve, reject) => {
+      const id = nextRequestId++;
+      pendingRequests.set(id, { resolve, reject });
+      hashWorker.postMessage({ id, file });
+    });
+  } catch (error) {
+    console.warn('Worker计算哈希失败，改为在主线程计算:', error);
+    return hashOnMainThread(file);
+  }
+}
+
+/**
+ * 查找与指定哈希内容相同的文件（不含回收站中的文件）
+ * @param files 文件列表
+ * @param contentHash 内容哈希
+ */
+export function findFilesByHash(files: FileInfo[], contentHash: string): FileInfo[] {
+  return files.filter(file => !isTrashed(file) && file.contentHash === contentHash);
+}
+
+/**
+ * 按内容哈希对文件分组，返回包含重复文件的分组
+ * @param files 文件列表
+ * @returns 重复文件分组（每组至少两个文件，按组内文件数倒序）
+ */
+export function findDuplicateGroups(files: FileInfo[]): FileInfo[][] {
+  const groups = new Map<string, FileInfo[]>();
+
+  for (const file of files) {
+    if (!file.contentHash || isTrashed(file)) continue;
+    groups.set(file.contentHash, [...(groups.get(file.contentHash) || []), file]);
+  }
+
+  return Array.from(groups.values())
+    .filter(group => group.length > 1)
+    .sort((a, b) => b.length - a.length);
+}
@@ -0,0 +1,489 @@
+import { FileInfo, FileIndexStore, Folder } from './types';
+import { quarantineCorruptIndex } from './index-recovery';
+import { notifyIndexChange, withIndexWriteLock } from './index-sync';
+import { CURRENT_SCHEMA_VERSION, LEGACY_SCHEMA_VERSION, createFileIndexEnvelope, migrateFileRecords, unwrapFileIndex } from './schema';
+
+/**
+ * 文件索引存储层
+ * 优先使用IndexedDB按记录存储文件信息，不可用时回退到localStorage整块存储
+ */
+
+// IndexedDB 数据库配置
+const DB_NAME = 'upload-center';
+const DB_VERSION = 3;
+const FILES_STORE = 'files';
+const FOLDERS_STORE = 'folders';
+const META_STORE = 'meta';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+// 旧版localStorage存储键名（同时作为回退存储的键名）
+export const LEGACY_STORAGE_KEY = 'uploaded-files';
+
+// 回退存储中文件夹列表的键名
+const FOLDERS_STORAGE_KEY = 'upload-folders';
+
+// 检查是否在客户端环境
+const isClient = typeof window !== 'undefined';
+
+// 缓存已初始化的存储实例
+let storePromise: Promise<FileIndexStore> | null = null;
+
+/**
+ * 将IDBRequest包装为Promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * 等待事务完成
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('事务已中止'));
+  });
+}
+
+/**
+ * 打开IndexedDB数据库
+ * @returns Promise<数据库连接>
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (!isClient || !window.indexedDB) {
+      reject(new Error('当前环境不支持IndexedDB'));
+      return;
+    }
+
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(FILES_STORE)) {
+        db.createObjectStore(FILES_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(FOLDERS_STORE)) {
+        db.createObjectStore(FOLDERS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        const metaStore = db.createObjectStore(META_STORE);
+        // 新建的数据库直接标记为当前数据版本，已有数据库保留旧记录等待迁移
+        if (event.oldVersion === 0) {
+          metaStore.put(CURRENT_SCHEMA_VERSION, SCHEMA_VERSION_KEY);
+        }
+      }
+    };
+
+    request.onsuccess = () => {
+      const db = request.result;
+      // 其他标签页升级数据库时主动关闭连接，下次访问时重新打开
+      db.onversionchange = () => {
+        db.close();
+        storePromise = null;
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error || new Error('打开IndexedDB失败'));
+    request.onblocked = () => console.warn('IndexedDB升级等待其他标签页关闭旧连接');
+  });
+}
+
+/**
+ * 将IndexedDB中的文件记录迁移到当前数据版本
+ * @param db 数据库连接
+ */
+async function migrateIndexedDBRecords(db: IDBDatabase): Promise<void> {
+  const readTransaction = db.transaction([FILES_STORE, META_STORE], 'readonly');
+  const [storedVersion, records] = await Promise.all([
+    requestToPromise(readTransaction.objectStore(META_STORE).get(SCHEMA_VERSION_KEY)),
+    requestToPromise<unknown[]>(readTransaction.objectStore(FILES_STORE).getAll()),
+  ]);
+  const version = typeof storedVersion === 'number' ? storedVersion : LEGACY_SCHEMA_VERSION;
+
+  if (version === CURRENT_SCHEMA_VERSION) return;
+
+  const migrated = migrateFileRecords(records, version);
+
+  const writeTransaction = db.transaction([FILES_STORE, META_STORE], 'readwrite');
+  const filesStore = writeTransaction.objectStore(FILES_STORE);
+  filesStore.clear();
+  migrated.forEach(file => filesStore.put(file));
+  writeTransaction.objectStore(META_STORE).put(CURRENT_SCHEMA_VERSION, SCHEMA_VERSION_KEY);
+  await transactionDone(writeTransaction);
+
+  console.log(`文件索引已从 v${version} 迁移到 v${CURRENT_SCHEMA_VERSION}（${migrated.length} 个文件）`);
+}
+
+/**
+ * 创建基于IndexedDB的文件索引存储
+ * @param db 数据库连接
+ * @returns 文件索引存储
+ */
+export function createIndexedDBFileIndexStore(db: IDBDatabase): FileIndexStore {
+  const store: FileIndexStore = {
+    backend: 'indexeddb',
+
+    async getAll() {
+      const transaction = db.transaction(FILES_STORE, 'readonly');
+      return requestToPromise<FileInfo[]>(transaction.objectStore(FILES_STORE).getAll());
+    },
+
+    async get(fileId) {
+      const transaction = db.transaction(FILES_STORE, 'readonly');
+      return requestToPromise<FileInfo | undefined>(transaction.objectStore(FILES_STORE).get(fileId));
+    },
+
+    async putMany(files) {
+      const transaction = db.transaction(FILES_STORE, 'readwrite');
+      const objectStore = transaction.objectStore(FILES_STORE);
+      files.forEach(file => objectStore.put(file));
+      await transactionDone(transaction);
+    },
+
+    async addMissing(files) {
+      const transaction = db.transaction(FILES_STORE, 'readwrite');
+      const objectStore = transaction.objectStore(FILES_STORE);
+      const existingKeys = new Set(await requestToPromise(objectStore.getAllKeys()));
+      const added = files.filter(file => !existingKeys.has(file.id));
+      added.forEach(file => objectStore.put(file));
+      await transactionDone(transaction);
+      return added;
+    },
+
+    async update(fileId, updates) {
+      const transaction = db.transaction(FILES_STORE, 'readwrite');
+      const objectStore = transaction.objectStore(FILES_STORE);
+      const existing = await requestToPromise<FileInfo | undefined>(objectStore.get(fileId));
+      if (!existing) {
+        transaction.abort();
+        return undefined;
+      }
+      const updated = { ...existing, ...updates };
+      objectStore.put(updated);
+      await transactionDone(transaction);
+      return updated;
+    },
+
+    async removeMany(fileIds) {
+      const transaction = db.transaction(FILES_STORE, 'readwrite');
+      const objectStore = transaction.objectStore(FILES_STORE);
+      fileIds.forEach(fileId => objectStore.delete(fileId));
+      await transactionDone(transaction);
+    },
+
+    async replaceAll(files) {
+      const transaction = db.transaction(FILES_STORE, 'readwrite');
+      const objectStore = transaction.objectStore(FILES_STORE);
+      objectStore.clear();
+      files.forEach(file => objectStore.put(file));
+      await transactionDone(transaction);
+    },
+
+    async clear() {
+      const transaction = db.transaction(FILES_STORE, 'readwrite');
+      transaction.objectStore(FILES_STORE).clear();
+      await transactionDone(transaction);
+    },
+
+    async getAllFolders() {
+      const transaction = db.transaction(FOLDERS_STORE, 'readonly');
+      return requestToPromise<Folder[]>(transaction.objectStore(FOLDERS_STORE).getAll());
+    },
+
+    async putFolders(folders) {
+      const transaction = db.transaction(FOLDERS_STORE, 'readwrite');
+      const objectStore = transaction.objectStore(FOLDERS_STORE);
+      folders.forEach(folder => objectStore.put(folder));
+      await transactionDone(transaction);
+    },
+
+    async removeFolders(folderIds) {
+      const transaction = db.transaction(FOLDERS_STORE, 'readwrite');
+      const objectStore = transaction.objectStore(FOLDERS_STORE);
+      folderIds.forEach(folderId => objectStore.delete(folderId));
+      await transactionDone(transaction);
+    },
+
+    withWriteLock: (task) => task(store),
+  };
+  return store;
+}
+
+/**
+ * 创建基于localStorage的文件索引存储（回退方案）
+ * @param storageKey 存储键名
+ * @returns 文件索引存储
+ */
+export function createLocalStorageFileIndexStore(storageKey: string = LEGACY_STORAGE_KEY): FileIndexStore {
+  const readAll = (): FileInfo[] => {
+    const stored = localStorage.getItem(storageKey);
+    if (!stored) return [];
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(stored);
+    } catch (error) {
+      console.error('文件列表数据已损坏:', error);
+      // 隔离损坏数据，避免后续写入将其覆盖；隔离失败时拒绝读写，原始数据留在原处
+      if (!quarantineCorruptIndex(storageKey, stored)) {
+        throw new Error('文件列表数据已损坏且无法隔离备份，已暂停写入以免覆盖原始数据');
+      }
+      return [];
+    }
+
+    const { version, files } = unwrapFileIndex(parsed);
+    // 旧版本数据读取后立即以当前版本回写
+    if (version !== CURRENT_SCHEMA_VERSION) {
+      writeAll(files);
+    }
+    return files;
+  };
+
+  const writeAll = (files: FileInfo[]) => {
+    localStorage.setItem(storageKey, JSON.stringify(createFileIndexEnvelope(files)));
+  };
+
+  const readFolders = (): Folder[] => {
+    try {
+      const folders = JSON.parse(localStorage.getItem(FOLDERS_STORAGE_KEY) || '[]');
+      return Array.isArray(folders) ? folders : [];
+    } catch (error) {
+      console.error('读取文件夹列表失败:', error);
+      return [];
+    }
+  };
+
+  const writeFolders = (folders: Folder[]) => {
+    localStorage.setItem(FOLDERS_STORAGE_KEY, JSON.stringify(folders));
+  };
+
+  const store: FileIndexStore = {
+    backend: 'localstorage',
+
+    async getAll() {
+      return readAll();
+    },
+
+    async get(fileId) {
+      return readAll().find(file => file.id === fileId);
+    },
+
+    async putMany(files) {
+      const existing = readAll();
+      const indexById = new Map(existing.map((file, index) => [file.id, index]));
+
+      files.forEach(file => {
+        const existingIndex = indexById.get(file.id);
+        if (existingIndex !== undefined) {
+          existing[existingIndex] = file;
+        } else {
+          indexById.set(file.id, existing.length);
+          existing.push(file);
+        }
+      });
+
+      writeAll(existing);
+    },
+
+    async addMissing(files) {
+      const existing = readAll();
+      const existingIds = new Set(existing.map(file => file.id));
+      const added = files.filter(file => !existingIds.has(file.id));
+
+      if (added.length > 0) {
+        writeAll([...existing, ...added]);
+      }
+      return added;
+    },
+
+    async update(fileId, updates) {
+      const existing = readAll();
+      const fileIndex = existing.findIndex(file => file.id === fileId);
+      if (fileIndex === -1) return undefined;
+
+      existing[fileIndex] = { ...existing[fileIndex], ...updates };
+      writeAll(existing);
+      return existing[fileIndex];
+    },
+
+    async removeMany(fileIds) {
+      const idSet = new Set(fileIds);
+      const existing = readAll();
+      const remaining = existing.filter(file => !idSet.has(file.id));
+
+      // 只有实际删除了文件才更新存储
+      if (remaining.length !== existing.length) {
+        writeAll(remaining);
+      }
+    },
+
+    async replaceAll(files) {
+      readAll(); // 原数据损坏且未能隔离时拒绝覆盖
+      writeAll(files);
+    },
+
+    async clear() {
+      readAll(); // 原数据损坏且未能隔离时拒绝删除
+      localStorage.removeItem(storageKey);
+    },
+
+    async getAllFolders() {
+      return readFolders();
+    },
+
+    async putFolders(folders) {
+      const updatedIds = new Set(folders.map(folder => folder.id));
+      writeFolders([...readFolders().filter(folder => !updatedIds.has(folder.id)), ...folders]);
+    },
+
+    async removeFolders(folderIds) {
+      const idSet = new Set(folderIds);
+      writeFolders(readFolders().filter(folder => !idSet.has(folder.id)));
+    },
+
+    withWriteLock: (task) => task(store),
+  };
+  return store;
+}
+
+/**
+ * 为存储的写操作加上跨标签页写入锁，并在写入完成后广播变更
+ * @param store 原始存储
+ * @returns 带同步能力的存储
+ */
+function withCrossTabSync(store: FileIndexStore): FileIndexStore {
+  // 写入后广播变更但不加锁，在已持有写入锁的操作内使用（Web Locks不可重入，重复加锁会死锁）
+  const notifying: FileIndexStore = {
+    ...store,
+
+    async putMany(files) {
+      await store.putMany(files);
+      notifyIndexChange({ type: 'put', fileIds: files.map(file => file.id) });
+    },
+
+    async addMissing(files) {
+      const added = await store.addMissing(files);
+      if (added.length > 0) {
+        notifyIndexChange({ type: 'put', fileIds: added.map(file => file.id) });
+      }
+      return added;
+    },
+
+    async update(fileId, updates) {
+      const updated = await store.update(fileId, updates);
+      if (updated) {
+        notifyIndexChange({ type: 'put', fileIds: [fileId] });
+      }
+      return updated;
+    },
+
+    async removeMany(fileIds) {
+      await store.removeMany(fileIds);
+      notifyIndexChange({ type: 'remove', fileIds });
+    },
+
+    async replaceAll(files) {
+      await store.replaceAll(files);
+      notifyIndexChange({ type: 'replace', fileIds: files.map(file => file.id) });
+    },
+
+    async clear() {
+      await store.clear();
+      notifyIndexChange({ type: 'clear', fileIds: [] });
+    },
+
+    async putFolders(folders) {
+      await store.putFolders(folders);
+      notifyIndexChange({ type: 'folders', fileIds: folders.map(folder => folder.id) });
+    },
+
+    async removeFolders(folderIds) {
+      await store.removeFolders(folderIds);
+      notifyIndexChange({ type: 'folders', fileIds: folderIds });
+    },
+
+    withWriteLock: (task) => task(notifying),
+  };
+
+  return {
+    ...notifying,
+    putMany: (files) => withIndexWriteLock(() => notifying.putMany(files)),
+    addMissing: (files) => withIndexWriteLock(() => notifying.addMissing(files)),
+    update: (fileId, updates) => withIndexWriteLock(() => notifying.update(fileId, updates)),
+    removeMany: (fileIds) => withIndexWriteLock(() => notifying.removeMany(fileIds)),
+    replaceAll: (files) => withIndexWriteLock(() => notifying.replaceAll(files)),
+    clear: () => withIndexWriteLock(() => notifying.clear()),
+    putFolders: (folders) => withIndexWriteLock(() => notifying.putFolders(folders)),
+    removeFolders: (folderIds) => withIndexWriteLock(() => notifying.removeFolders(folderIds)),
+    withWriteLock: (task) => withIndexWriteLock(() => task(notifying)),
+  };
+}
+
+/**
+ * 将旧版localStorage中的文件列表迁移到IndexedDB
+ * 迁移成功后删除旧键，解析失败时将原数据移入隔离区
+ * @param store 目标存储
+ */
+async function migrateLegacyIndex(store: FileIndexStore): Promise<void> {
+  const stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!stored) return;
+
+  let validFiles: FileInfo[];
+  try {
+    validFiles = unwrapFileIndex(JSON.parse(stored)).files;
+  } catch (error) {
+    console.error('旧版文件列表解析失败，已隔离原始数据:', error);
+    quarantineCorruptIndex(LEGACY_STORAGE_KEY, stored);
+    return;
+  }
+
+  // 已存在于IndexedDB中的记录以IndexedDB为准
+  const newFiles = await store.addMissing(validFiles);
+
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  console.log(`已将 ${newFiles.length} 个文件从localStorage迁移到IndexedDB`);
+}
+
+/**
+ * 初始化文件索引存储
+ * @returns Promise<文件索引存储>
+ */
+async function initFileIndexStore(): Promise<FileIndexStore> {
+  try {
+    const db = await openDatabase();
+    await withIndexWriteLock(() => migrateIndexedDBRecords(db));
+    const store = withCrossTabSync(createIndexedDBFileIndexStore(db));
+
+    try {
+      await migrateLegacyIndex(store);
+    } catch (error) {
+      console.error('迁移旧版文件列表失败:', error);
+    }
+
+    return store;
+  } catch (error) {
+    console.warn('IndexedDB不可用，回退到localStorage存储:', error);
+    return withCrossTabSync(createLocalStorageFileIndexStore());
+  }
+}
+
+/**
+ * 获取文件索引存储（首次调用时初始化并迁移旧数据）
+ * @returns Promise<文件索引存储>
+ */
+export function getFileIndexStore(): Promise<FileIndexStore> {
+  if (!isClient) {
+    return Promise.reject(new Error('无法在服务器端访问文件索引'));
+  }
+
+  if (!storePromise) {
+    storePromise = initFileIndexStore();
+  }
+
+  return storePromise;
+}
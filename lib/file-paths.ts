@@ -0,0 +1,164 @@
+import { FileInfo } from './types';
+import { downloadFile } from './utils';
+import { decryptStream, getFileShareUrl } from './encryption';
+
+/**
+ * 文件夹上传的相对路径
+ * 拖入文件夹或通过文件夹选择器上传时记录每个文件在原文件夹中的路径，
+ * 文件列表据此分组显示，下载时按原路径还原目录结构
+ */
+
+// 按路径分组的文件
+export interface FilePathGroup {
+  path: string;               // 所在目录（空字符串表示未随文件夹上传的文件）
+  files: FileInfo[];          // 该目录下的文件
+}
+
+// 顺序下载时相邻两个文件的间隔，避免浏览器拦截连续下载
+const SEQUENTIAL_DOWNLOAD_INTERVAL = 300;
+
+// 目录选择器返回的目录句柄（只声明用到的部分）
+interface WritableDirectoryHandle {
+  getDirectoryHandle: (name: string, options: { create: boolean }) => Promise<WritableDirectoryHandle>;
+  getFileHandle: (name: string, options: { create: boolean }) => Promise<{
+    createWritable: () => Promise<{ write: (data: Blob) => Promise<void>; close: () => Promise<void> }>;
+  }>;
+}
+
+type DirectoryPickerWindow = Window & {
+  showDirectoryPicker?: (options?: { mode?: 'read' | 'readwrite' }) => Promise<WritableDirectoryHandle>;
+};
+
+/**
+ * 拆分并清理路径片段（去掉空片段、"."和".."）
+ * @param path 路径
+ */
+function splitPath(path: string): string[] {
+  return path
+    .split(/[\\/]+/)
+    .map(segment => segment.trim())
+    .filter(segment => segment && segment !== '.' && segment !== '..');
+}
+
+/**
+ * 获取上传文件在所选文件夹中的相对路径
+ * 拖入的文件夹由react-dropzone写入path/relativePath，文件夹选择器由浏览器写入webkitRelativePath
+ * @param file 上传的文件
+ * @returns 相对路径，单独选择的文件返回undefined
+ */
+export function getRelativePath(file: File): string | undefined {
+  const { relativePath, path } = file as File & { relativePath?: string; path?: string };
+  const candidate = [relativePath, path, file.webkitRelativePath]
+    .find(value => typeof value === 'string' && value.length > 0);
+  if (!candidate) return undefined;
+
+  const segments = splitPath(candidate);
+  return segments.length > 1 ? segments.join('/') : undefined;
+}
+
+/**
+ * 获取相对路径所在的目录
+ * @param relativePath 相对路径
+ * @returns 目录路径，没有目录时返回空字符串
+ */
+export function getDirectoryPath(relativePath?: string): string {
+  if (!relativePath) return '';
+  return splitPath(relativePath).slice(0, -1).join('/');
+}
+
+/**
+ * 按所在目录分组文件（未随文件夹上传的文件排在最前，各组内保持原有顺序）
+ * @param files 文件列表
+ * @returns 分组列表
+ */
+export function groupFilesByPath(files: FileInfo[]): FilePathGroup[] {
+  const groups = new Map<string, FileInfo[]>();
+
+  files.forEach(file => {
+    const path = getDirectoryPath(file.relativePath);
+    groups.set(path, [...(groups.get(path) || []), file]);
+  });
+
+  return Array.from(groups, ([path, groupFiles]) => ({ path, files: groupFiles }))
+    .sort((a, b) => a.path.localeCompare(b.path, 'zh-CN'));
+}
+
+/**
+ * 检查浏览器是否支持选择本地目录写入文件
+ */
+export function isDirectoryPickerSupported(): boolean {
+  return typeof window !== 'undefined' && typeof (window as DirectoryPickerWindow).showDirectoryPicker === 'function';
+}
+
+/**
+ * 将文件写入所选目录，按相对路径创建子目录
+ * @param root 目录句柄
+ * @param file 文件信息
+ */
+async function writeFileToDirectory(root: WritableDirectoryHandle, file: FileInfo): Promise<void> {
+  const response = await fetch(file.cloudinaryUrl);
+  if (!response.ok || !response.body) {
+    throw new Error(`下载失败: HTTP ${response.status}`);
+  }
+
+  const segments = splitPath(file.relativePath || file.fileName);
+  const fileName = segments.pop() || file.fileName;
+
+  let directory = root;
+  for (const segment of segments) {
+    directory = await directory.getDirectoryHandle(segment, { create: true });
+  }
+
+  const writable = await (await directory.getFileHandle(fileName, { create: true })).createWritable();
+  try {
+    // 加密文件边下载边解密后写入
+    if (file.encryptionKey) {
+      await decryptStream(response.body, file.encryptionKey, { onData: (data) => writable.write(new Blob([data as Uint8Array<ArrayBuffer>])) });
+    } else {
+      await writable.write(await response.blob());
+    }
+  } finally {
+    await writable.close();
+  }
+}
+
+/**
+ * 下载文件并保留原有目录结构
+ * 支持目录选择器的浏览器直接写入用户所选目录；其他浏览器逐个下载，并把路径编入文件名
+ * @param files 要下载的文件
+ * @returns 下载方式和失败的文件名
+ */
+export async function downloadFilesWithPaths(files: FileInfo[]): Promise<{
+  mode: 'directory' | 'sequential';
+  failed: string[];
+}> {
+  const failed: string[] = [];
+
+  if (isDirectoryPickerSupported()) {
+    const root = await (window as DirectoryPickerWindow).showDirectoryPicker!({ mode: 'readwrite' });
+
+    for (const file of files) {
+      try {
+        await writeFileToDirectory(root, file);
+      } catch (error) {
+        console.error(`写入文件失败: ${file.relativePath || file.fileName}`, error);
+        failed.push(file.relativePath || file.fileName);
+      }
+    }
+    return { mode: 'directory', failed };
+  }
+
+  for (let index = 0; index < files.length; index++) {
+    const file = files[index];
+    if (index > 0) {
+      await new Promise(resolve => setTimeout(resolve, SEQUENTIAL_DOWNLOAD_INTERVAL));
+    }
+    // 加密文件无法在此解密，打开解密页面下载
+    if (file.encryptionKey) {
+      window.open(getFileShareUrl(file), '_blank');
+      continue;
+    }
+    downloadFile(file.cloudinaryUrl, file.relativePath ? splitPath(file.relativePath).join('_') : file.fileName);
+  }
+  return { mode: 'sequential', failed };
+}
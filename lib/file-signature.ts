@@ -0,0 +1,215 @@
+import { getFileExtension } from './utils';
+
+/**
+ * 根据文件头（魔数）识别文件类型
+ * 扩展名和浏览器提供的MIME类型都可以随意修改（如把.exe改名为.pdf），
+ * 上传前读取文件开头的字节核对实际内容，并以识别出的类型作为文件类型保存
+ */
+
+// 文件签名定义
+interface FileSignature {
+  mimeType: string;                       // 默认MIME类型
+  label: string;                          // 用于错误提示的类型名称
+  extensions: string[];                   // 使用该格式的扩展名
+  mimeTypes?: Record<string, string>;     // 同一格式下按扩展名区分的MIME类型（如OOXML文档都是ZIP）
+  executable?: boolean;                   // 是否为可执行文件（伪装成其他扩展名时一律拒绝）
+  match: (header: Uint8Array) => boolean; // 判断文件头是否匹配
+}
+
+// 文件类型检查结果
+export interface FileTypeCheckResult {
+  mimeType: string;           // 识别出的MIME类型（无法识别时沿用浏览器提供的类型）
+  error?: string;             // 文件内容与扩展名不符时的错误信息
+}
+
+// 读取的文件头长度（PDF允许文件头前有少量其他数据，PE头位置也在此范围内）
+export const FILE_HEADER_LENGTH = 1024;
+
+// 无法识别且浏览器也未提供类型时使用的MIME类型
+const FALLBACK_MIME_TYPE = 'application/octet-stream';
+
+// HEIF/AVIF图片在ftyp盒中声明的品牌
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+const AVIF_BRANDS = ['avif', 'avis'];
+
+// 没有ftyp盒的旧版MP4/MOV文件开头的盒类型
+const LEGACY_MP4_BOXES = ['moov', 'mdat', 'free', 'skip', 'wide'];
+
+/**
+ * 判断文件头在指定位置是否为给定字节
+ * @param header 文件头
+ * @param bytes 期望的字节
+ * @param offset 起始位置
+ */
+function hasBytes(header: Uint8Array, bytes: number[], offset: number = 0): boolean {
+  return bytes.every((value, index) => header[offset + index] === value);
+}
+
+/**
+ * 读取文件头中指定位置的ASCII字符串
+ * @param header 文件头
+ * @param offset 起始位置
+ * @param length 长度
+ */
+function readAscii(header: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...Array.from(header.subarray(offset, offset + length)));
+}
+
+/**
+ * 读取ISO媒体文件（MP4/MOV/HEIF）ftyp盒中的主品牌
+ * @returns 主品牌，不是ftyp盒时返回null
+ */
+function readFtypBrand(header: Uint8Array): string | null {
+  return readAscii(header, 4, 4) === 'ftyp' ? readAscii(header, 8, 4) : null;
+}
+
+/**
+ * 判断是否为Windows可执行文件（MZ头且指向有效的PE头）
+ */
+function isPortableExecutable(header: Uint8Array): boolean {
+  if (!hasBytes(header, [0x4d, 0x5a]) || header.length < 0x40) return false;
+  const peOffset = new DataView(header.buffer, header.byteOffset, header.byteLength).getUint32(0x3c, true);
+  return hasBytes(header, [0x50, 0x45, 0x00, 0x00], peOffset);
+}
+
+// 支持识别的文件格式
+const FILE_SIGNATURES: FileSignature[] = [
+  {
+    mimeType: 'application/pdf',
+    label: 'PDF 文档',
+    extensions: ['pdf'],
+    match: header => readAscii(header, 0, header.length).includes('%PDF-'),
+  },
+  {
+    mimeType: 'image/png',
+    label: 'PNG 图片',
+    extensions: ['png'],
+    match: header => hasBytes(header, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  },
+  {
+    mimeType: 'image/jpeg',
+    label: 'JPEG 图片',
+    extensions: ['jpg', 'jpeg', 'jpe', 'jfif'],
+    match: header => hasBytes(header, [0xff, 0xd8, 0xff]),
+  },
+  {
+    mimeType: 'image/gif',
+    label: 'GIF 图片',
+    extensions: ['gif'],
+    match: header => ['GIF87a', 'GIF89a'].includes(readAscii(header, 0, 6)),
+  },
+  {
+    mimeType: 'image/heic',
+    label: 'HEIC 图片',
+    extensions: ['heic', 'heif'],
+    mimeTypes: { heif: 'image/heif' },
+    match: header => HEIF_BRANDS.includes(readFtypBrand(header) || ''),
+  },
+  {
+    mimeType: 'image/avif',
+    label: 'AVIF 图片',
+    extensions: ['avif'],
+    match: header => AVIF_BRANDS.includes(readFtypBrand(header) || ''),
+  },
+  {
+    mimeType: 'video/mp4',
+    label: 'MP4 视频',
+    extensions: ['mp4', 'm4v', 'm4a', 'mov', '3gp'],
+    mimeTypes: { m4a: 'audio/mp4', mov: 'video/quicktime', '3gp': 'video/3gpp' },
+    // 图片品牌已由HEIC/AVIF处理，这里匹配其余的ftyp盒
+    match: header => readFtypBrand(header) !== null || LEGACY_MP4_BOXES.includes(readAscii(header, 4, 4)),
+  },
+  {
+    mimeType: 'audio/mpeg',
+    label: 'MP3 音频',
+    extensions: ['mp3'],
+    // ID3标签，或MPEG Layer III帧同步字
+    match: header => readAscii(header, 0, 3) === 'ID3' ||
+      (header[0] === 0xff && (header[1] & 0xe0) === 0xe0 && ((header[1] >> 1) & 0x03) === 0x01),
+  },
+  {
+    mimeType: 'application/zip',
+    label: 'ZIP 压缩包',
+    extensions: ['zip', 'docx', 'xlsx', 'pptx', 'odt', 'ods', 'odp', 'epub', 'jar', 'apk'],
+    mimeTypes: {
+      docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+      xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+      odt: 'application/vnd.oasis.opendocument.text',
+      ods: 'application/vnd.oasis.opendocument.spreadsheet',
+      odp: 'application/vnd.oasis.opendocument.presentation',
+      epub: 'application/epub+zip',
+      jar: 'application/java-archive',
+      apk: 'application/vnd.android.package-archive',
+    },
+    // 普通文件、空压缩包和分卷压缩包的开头
+    match: header => [[0x03, 0x04], [0x05, 0x06], [0x07, 0x08]]
+      .some(bytes => hasBytes(header, [0x50, 0x4b, ...bytes])),
+  },
+  {
+    mimeType: 'application/vnd.rar',
+    label: 'RAR 压缩包',
+    extensions: ['rar'],
+    match: header => hasBytes(header, [0x52, 0x61, 0x72, 0x21, 0x1a, 0x07]),
+  },
+  {
+    mimeType: 'application/x-7z-compressed',
+    label: '7z 压缩包',
+    extensions: ['7z'],
+    match: header => hasBytes(header, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c]),
+  },
+  {
+    mimeType: 'application/x-msdownload',
+    label: 'Windows 可执行文件',
+    extensions: ['exe', 'dll', 'sys', 'scr', 'efi'],
+    executable: true,
+    match: isPortableExecutable,
+  },
+];
+
+/**
+ * 根据文件头识别文件格式
+ * @param file 文件
+ * @returns 匹配的格式，无法识别时返回null
+ */
+async function detectSignature(file: Blob): Promise<FileSignature | null> {
+  const header = new Uint8Array(await file.slice(0, FILE_HEADER_LENGTH).arrayBuffer());
+  return FILE_SIGNATURES.find(signature => signature.match(header)) || null;
+}
+
+/**
+ * 检查文件内容是否与扩展名相符，并返回识别出的MIME类型
+ * 扩展名属于已知格式但内容不是该格式，或可执行文件使用了其他扩展名时视为不符；
+ * 文本等没有固定文件头的格式无法识别，沿用浏览器提供的类型
+ * @param file 文件
+ * @returns 检查结果
+ */
+export async function checkFileType(file: File): Promise<FileTypeCheckResult> {
+  const extension = getFileExtension(file.name);
+  const expected = FILE_SIGNATURES.find(signature => signature.extensions.includes(extension));
+  const detected = await detectSignature(file);
+  const matchesExtension = !!detected && (!extension || detected.extensions.includes(extension));
+
+  if (expected && !matchesExtension) {
+    return {
+      mimeType: detected?.mimeType || file.type || FALLBACK_MIME_TYPE,
+      error: detected
+        ? `文件内容为${detected.label}，与扩展名 .${extension}（${expected.label}）不符`
+        : `文件内容不是有效的${expected.label}，与扩展名 .${extension} 不符`,
+    };
+  }
+
+  if (detected?.executable && !matchesExtension) {
+    return {
+      mimeType: detected.mimeType,
+      error: `文件内容为${detected.label}，与扩展名 .${extension} 不符`,
+    };
+  }
+
+  if (detected && matchesExtension) {
+    return { mimeType: detected.mimeTypes?.[extension] || detected.mimeType };
+  }
+
+  // 无法识别，或扩展名是未列出的同类格式（如以ZIP为容器的其他格式）
+  return { mimeType: file.type || detected?.mimeType || FALLBACK_MIME_TYPE };
+}
@@ -0,0 +1,210 @@
+import { Folder } from './types';
+import { getFileIndexStore } from './file-index-store';
+import { generateId } from './utils';
+
+/**
+ * 文件夹管理
+ * 文件通过parentId归属到文件夹，parentId为空表示位于根目录
+ */
+
+// 检查是否在客户端环境
+const isClient = typeof window !== 'undefined';
+
+// 文件夹名称最大长度
+const MAX_FOLDER_NAME_LENGTH = 50;
+
+/**
+ * 校验并规范化文件夹名称
+ * @param name 原始名称
+ * @returns 去除首尾空白后的名称
+ */
+function normalizeFolderName(name: string): string {
+  const trimmed = name.trim();
+  if (!trimmed) {
+    throw new Error('文件夹名称不能为空');
+  }
+  if (trimmed.length > MAX_FOLDER_NAME_LENGTH) {
+    throw new Error(`文件夹名称不能超过 ${MAX_FOLDER_NAME_LENGTH} 个字符`);
+  }
+  return trimmed;
+}
+
+/**
+ * 检查同一目录下是否已有同名文件夹
+ */
+function assertUniqueName(folders: Folder[], name: string, parentId: string | null, excludeId?: string): void {
+  const exists = folders.some(folder =>
+    folder.id !== excludeId &&
+    folder.parentId === parentId &&
+    folder.name.toLowerCase() === name.toLowerCase()
+  );
+  if (exists) {
+    throw new Error(`当前目录下已存在名为"${name}"的文件夹`);
+  }
+}
+
+/**
+ * 获取全部文件夹（按名称排序）
+ * @returns 文件夹列表
+ */
+export async function getFolders(): Promise<Folder[]> {
+  if (!isClient) return [];
+
+  try {
+    const store = await getFileIndexStore();
+    const folders = await store.getAllFolders();
+    return folders.sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error('读取文件夹失败:', error);
+    return [];
+  }
+}
+
+/**
+ * 新建文件夹
+ * @param name 文件夹名称
+ * @param parentId 上级文件夹ID（null表示根目录）
+ * @returns 新建的文件夹
+ */
+export async function createFolder(name: string, parentId: string | null): Promise<Folder> {
+  const folderName = normalizeFolderName(name);
+  const store = await getFileIndexStore();
+  const folders = await store.getAllFolders();
+
+  if (parentId && !folders.some(folder => folder.id === parentId)) {
+    throw new Error('上级文件夹不存在');
+  }
+  assertUniqueName(folders, folderName, parentId);
+
+  const folder: Folder = {
+    id: generateId(),
+    name: folderName,
+    parentId,
+    createdAt: new Date().toISOString(),
+  };
+  await store.putFolders([folder]);
+  return folder;
+}
+
+/**
+ * 重命名文件夹
+ * @param folderId 文件夹ID
+ * @param name 新名称
+ */
+export async function renameFolder(folderId: string, name: string): Promise<void> {
+  const folderName = normalizeFolderName(name);
+  const store = await getFileIndexStore();
+  const folders = await store.getAllFolders();
+  const folder = folders.find(item => item.id === folderId);
+
+  if (!folder) {
+    throw new Error('文件夹不存在');
+  }
+  assertUniqueName(folders, folderName, folder.parentId, folderId);
+
+  await store.putFolders([{ ...folder, name: folderName }]);
+}
+
+/**
+ * 删除文件夹
+ * 文件夹中的文件和子文件夹会移动到其上级目录，不会被删除
+ * @param folderId 文件夹ID
+ */
+export async function deleteFolder(folderId: string): Promise<void> {
+  const store = await getFileIndexStore();
+  const folders = await store.getAllFolders();
+  const folder = folders.find(item => item.id === folderId);
+
+  if (!folder) return;
+
+  const children = folders
+    .filter(item => item.parentId === folderId)
+    .map(item => ({ ...item, parentId: folder.parentId }));
+  if (children.length > 0) {
+    await store.putFolders(children);
+  }
+
+  const files = await store.getAll();
+  for (const file of files.filter(item => item.parentId === folderId)) {
+    await store.update(file.id, { parentId: folder.parentId });
+  }
+
+  await store.removeFolders([folderId]);
+}
+
+/**
+ * 将文件移动到指定文件夹
+ * @param fileIds 文件ID数组
+ * @param folderId 目标文件夹ID（null表示根目录）
+ */
+export async function moveFilesToFolder(fileIds: string[], folderId: string | null): Promise<void> {
+  if (!isClient || fileIds.length === 0) return;
+
+  const store = await getFileIndexStore();
+  if (folderId) {
+    const folders = await store.getAllFolders();
+    if (!folders.some(folder => folder.id === folderId)) {
+      throw new Error('目标文件夹不存在');
+    }
+  }
+
+  for (const fileId of fileIds) {
+    await store.update(fileId, { parentId: folderId });
+  }
+}
+
+/**
+ * 获取从根目录到指定文件夹的路径（用于面包屑导航）
+ * @param folders 全部文件夹
+ * @param folderId 当前文件夹ID
+ * @returns 按层级排列的文件夹数组（不含根目录）
+ */
+export function getFolderPath(folders: Folder[], folderId: string | null): Folder[] {
+  const path: Folder[] = [];
+  const visited = new Set<string>();
+  let currentId = folderId;
+
+  // visited防止异常数据形成环时死循环
+  while (currentId && !visited.has(currentId)) {
+    visited.add(currentId);
+    const folder = folders.find(item => item.id === currentId);
+    if (!folder) break;
+    path.unshift(folder);
+    currentId = folder.parentId;
+  }
+
+  return path;
+}
+
+/**
+ * 获取文件夹及其全部子孙文件夹的ID
+ * @param folders 全部文件夹
+ * @param folderId 文件夹ID
+ * @returns 包含自身的ID集合
+ */
+export function getDescendantFolderIds(folders: Folder[], folderId: string): Set<string> {
+  const ids = new Set<string>([folderId]);
+  const queue = [folderId];
+
+  while (queue.length > 0) {
+    const parentId = queue.shift();
+    for (const folder of folders) {
+      if (folder.parentId === parentId && !ids.has(folder.id)) {
+        ids.add(folder.id);
+        queue.push(folder.id);
+      }
+    }
+  }
+
+  return ids;
+}
+
+/**
+ * 获取文件夹的显示路径，如"客户A / 交付物"
+ * @param folders 全部文件夹
+ * @param folderId 文件夹ID
+ */
+export function getFolderPathLabel(folders: Folder[], folderId: string | null): string {
+  const path = getFolderPath(folders, folderId);
+  return path.length > 0 ? path.map(folder => folder.name).join(' / ') : '根目录';
+}
@@ -0,0 +1,156 @@
+import { ImageCompressionSettings } from './types';
+
+/**
+ * 上传前图片压缩
+ * 在Web Worker中缩小尺寸、重新编码并校正EXIF方向，减少手机照片占用的存储和流量
+ */
+
+// 压缩设置的存储键名
+const SETTINGS_STORAGE_KEY = 'image-compression-settings';
+
+// 默认设置
+export const DEFAULT_IMAGE_COMPRESSION_SETTINGS: ImageCompressionSettings = {
+  enabled: false,
+  maxDimension: 2560,
+  quality: 0.85,
+  format: 'image/jpeg',
+};
+
+// 可选的最长边上限（像素）
+export const MAX_DIMENSION_OPTIONS = [1280, 1920, 2560, 3840];
+
+// 可选的输出质量
+export const IMAGE_QUALITY_OPTIONS = [0.6, 0.75, 0.85, 0.95];
+
+// 可选的输出格式
+export const IMAGE_FORMAT_OPTIONS: { value: ImageCompressionSettings['format']; label: string; extension: string }[] = [
+  { value: 'image/jpeg', label: 'JPEG', extension: 'jpg' },
+  { value: 'image/webp', label: 'WebP', extension: 'webp' },
+];
+
+// 可压缩的图片类型（GIF可能是动图、SVG是矢量图，均不处理）
+const COMPRESSIBLE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/bmp'];
+
+// 检查是否在客户端环境
+const isClient = typeof window !== 'undefined';
+
+let worker: Worker | null = null;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, { resolve: (blob: Blob) => void; reject: (error: Error) => void }>();
+
+/**
+ * 获取图片压缩设置
+ * @returns 压缩设置
+ */
+export function getImageCompressionSettings(): ImageCompressionSettings {
+  if (!isClient) return DEFAULT_IMAGE_COMPRESSION_SETTINGS;
+
+  try {
+    const stored = JSON.parse(localStorage.getItem(SETTINGS_STORAGE_KEY) || '{}');
+    return { ...DEFAULT_IMAGE_COMPRESSION_SETTINGS, ...stored };
+  } catch {
+    return DEFAULT_IMAGE_COMPRESSION_SETTINGS;
+  }
+}
+
+/**
+ * 保存图片压缩设置
+ * @param settings 压缩设置
+ */
+export function setImageCompressionSettings(settings: ImageCompressionSettings): void {
+  if (!isClient) return;
+  localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+/**
+ * 检查当前浏览器是否支持在Worker中压缩图片
+ */
+export function isImageCompressionSupported(): boolean {
+  return typeof Worker !== 'undefined' &&
+    typeof OffscreenCanvas !== 'undefined' &&
+    typeof createImageBitmap !== 'undefined';
+}
+
+/**
+ * 判断文件是否为可压缩的图片
+ * @param file 文件
+ */
+export function isCompressibleImage(file: File): boolean {
+  return COMPRESSIBLE_TYPES.includes(file.type);
+}
+
+/**
+ * 获取图片压缩Worker
+ */
+function getImageWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('./workers/image.worker.ts', import.meta.url));
+    worker.onmessage = (event: MessageEvent<{ id: number; blob?: Blob; error?: string }>) => {
+      const { id, blob, error } = event.data;
+      const request = pendingRequests.get(id);
+      if (!request) return;
+
+      pendingRequests.delete(id);
+      if (blob) {
+        request.resolve(blob);
+      } else {
+        request.reject(new Error(error || '压缩图片失败'));
+      }
+    };
+    worker.onerror = (event) => {
+      console.warn('图片压缩Worker出错:', event.message);
+      pendingRequests.forEach(request => request.reject(new Error('图片压缩Worker出错')));
+      pendingRequests.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+
+  return worker;
+}
+
+/**
+ * 替换文件扩展名
+ * @param fileName 文件名
+ * @param extension 新扩展名
+ */
+function replaceExtension(fileName: string, extension: string): string {
+  const lastDotIndex = fileName.lastIndexOf('.');
+  const baseName = lastDotIndex > 0 ? fileName.substring(0, lastDotIndex) : fileName;
+  return `${baseName}.${extension}`;
+}
+
+/**
+ * 压缩图片
+ * 压缩后反而更大（如已经很小的图片）时返回原文件
+ * @param file 原始图片
+ * @param settings 压缩设置
+ * @returns 压缩后的文件（扩展名随输出格式修改）或原文件
+ */
+export async function compressImage(file: File, settings: ImageCompressionSettings): Promise<File> {
+  if (!isImageCompressionSupported()) {
+    throw new Error('当前浏览器不支持压缩图片');
+  }
+
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    const id = nextRequestId++;
+    pendingRequests.set(id, { resolve, reject });
+    getImageWorker().postMessage({
+      id,
+      file,
+      maxDimension: settings.maxDimension,
+      quality: settings.quality,
+      format: settings.format,
+    });
+  });
+
+  if (blob.size >= file.size) {
+    return file;
+  }
+
+  const extension = IMAGE_FORMAT_OPTIONS.find(option => option.value === settings.format)?.extension || 'jpg';
+  return new File([blob], replaceExtension(file.name, extension), {
+    type: settings.format,
+    lastModified: file.lastModified,
+  });
+}
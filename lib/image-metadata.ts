@@ -0,0 +1,258 @@
+/**
+ * 上传前去除图片元数据
+ * 直接在文件字节层面删除EXIF、XMP和IPTC数据块（不重新编码，画质不变），
+ * 避免分享给客户的图片泄露拍摄位置和设备信息
+ */
+
+// 设置的存储键名
+const STRIP_METADATA_STORAGE_KEY = 'strip-image-metadata';
+
+// 检查是否在客户端环境
+const isClient = typeof window !== 'undefined';
+
+// JPEG标记
+const JPEG_SOI = 0xd8;
+const JPEG_SOS = 0xda;
+const JPEG_EOI = 0xd9;
+const JPEG_APP1 = 0xe1;         // EXIF / XMP
+const JPEG_APP13 = 0xed;        // Photoshop IRB（IPTC）
+
+// EXIF方向标签
+const EXIF_ORIENTATION_TAG = 0x0112;
+
+// PNG文件签名
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+// 需要删除的PNG数据块：EXIF、文本（含XMP）和修改时间
+const PNG_METADATA_CHUNKS = ['eXIf', 'tEXt', 'zTXt', 'iTXt', 'tIME'];
+
+// 需要删除的WebP数据块
+const WEBP_METADATA_CHUNKS = ['EXIF', 'XMP '];
+
+// WebP扩展头中表示包含EXIF和XMP的标志位
+const WEBP_VP8X_METADATA_FLAGS = 0x08 | 0x04;
+
+// 去除元数据的结果
+export interface StripMetadataResult {
+  file: File;                 // 处理后的文件（没有可删除的数据时为原文件）
+  clean: boolean;             // 文件是否已确认不含元数据（不支持的格式或无法解析时为false）
+  removed: boolean;           // 是否删除了元数据
+}
+
+// 单个格式的解析结果：重新拼接文件的数据段，以及是否删除了元数据
+interface StrippedParts {
+  parts: Uint8Array[];
+  removed: boolean;
+}
+
+/**
+ * 是否在上传前去除图片元数据（默认开启）
+ */
+export function getStripMetadataEnabled(): boolean {
+  if (!isClient) return true;
+  return localStorage.getItem(STRIP_METADATA_STORAGE_KEY) !== 'false';
+}
+
+/**
+ * 设置是否在上传前去除图片元数据
+ * @param enabled 是否开启
+ */
+export function setStripMetadataEnabled(enabled: boolean): void {
+  if (!isClient) return;
+  localStorage.setItem(STRIP_METADATA_STORAGE_KEY, String(enabled));
+}
+
+/**
+ * 判断文件是否为可去除元数据的图片（HEIC需先转换为JPEG）
+ * @param file 文件
+ */
+export function isMetadataStrippable(file: File): boolean {
+  return ['image/jpeg', 'image/png', 'image/webp'].includes(file.type);
+}
+
+/**
+ * 读取JPEG APP1段中的EXIF方向（没有时返回1）
+ * @param bytes 文件字节
+ * @param start APP1段数据起始位置（长度字段之后）
+ * @param end APP1段结束位置
+ */
+function readExifOrientation(bytes: Uint8Array, start: number, end: number): number {
+  const header = String.fromCharCode(...Array.from(bytes.subarray(start, start + 6)));
+  if (header !== 'Exif\0\0') return 1;
+
+  const tiff = start + 6;
+  if (tiff + 8 > end) return 1;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const littleEndian = bytes[tiff] === 0x49;
+  const ifd = tiff + view.getUint32(tiff + 4, littleEndian);
+  if (ifd + 2 > end) return 1;
+
+  const count = view.getUint16(ifd, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > end) break;
+    if (view.getUint16(entry, littleEndian) === EXIF_ORIENTATION_TAG) {
+      return view.getUint16(entry + 8, littleEndian);
+    }
+  }
+  return 1;
+}
+
+/**
+ * 创建只包含方向标签的最小EXIF段，避免删除EXIF后照片显示方向错误
+ * @param orientation EXIF方向
+ */
+function createOrientationSegment(orientation: number): Uint8Array {
+  return new Uint8Array([
+    0xff, JPEG_APP1, 0x00, 0x22,                          // APP1，长度34
+    0x45, 0x78, 0x69, 0x66, 0x00, 0x00,                   // "Exif\0\0"
+    0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08,       // 大端TIFF头，IFD偏移8
+    0x00, 0x01,                                           // 1个条目
+    0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01,       // 方向标签，SHORT×1
+    0x00, orientation & 0xff, 0x00, 0x00,                 // 方向值
+    0x00, 0x00, 0x00, 0x00,                               // 无下一个IFD
+  ]);
+}
+
+/**
+ * 删除JPEG中的APP1（EXIF/XMP）和APP13（IPTC）段，保留方向信息
+ * @returns 处理结果，无法解析时返回null
+ */
+function stripJpeg(bytes: Uint8Array): StrippedParts | null {
+  if (bytes[0] !== 0xff || bytes[1] !== JPEG_SOI) return null;
+
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)];
+  let orientation = 1;
+  let removed = false;
+  let offset = 2;
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // 图像数据开始后不再有元数据段
+    if (marker === JPEG_SOS || marker === JPEG_EOI) break;
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    const end = offset + 2 + length;
+    if (length < 2 || end > bytes.length) return null;
+
+    if (marker === JPEG_APP1 || marker === JPEG_APP13) {
+      if (marker === JPEG_APP1 && orientation === 1) {
+        orientation = readExifOrientation(bytes, offset + 4, end);
+      }
+      removed = true;
+    } else {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  if (orientation !== 1) {
+    // JFIF要求APP0紧跟SOI，方向段放在其后
+    const insertIndex = parts.length > 1 && parts[1][1] === 0xe0 ? 2 : 1;
+    parts.splice(insertIndex, 0, createOrientationSegment(orientation));
+  }
+  parts.push(bytes.subarray(offset));
+  return { parts, removed };
+}
+
+/**
+ * 删除PNG中的EXIF和文本数据块
+ * @returns 处理结果，无法解析时返回null
+ */
+function stripPng(bytes: Uint8Array): StrippedParts | null {
+  if (!PNG_SIGNATURE.every((value, index) => bytes[index] === value)) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const parts: Uint8Array[] = [bytes.subarray(0, 8)];
+  let removed = false;
+  let offset = 8;
+
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...Array.from(bytes.subarray(offset + 4, offset + 8)));
+    const end = offset + 12 + length;
+    if (end > bytes.length) return null;
+
+    if (PNG_METADATA_CHUNKS.includes(type)) {
+      removed = true;
+    } else {
+      parts.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+    if (type === 'IEND') break;
+  }
+
+  return { parts, removed };
+}
+
+/**
+ * 删除WebP中的EXIF和XMP数据块，并清除扩展头中的对应标志
+ * @returns 处理结果，无法解析时返回null
+ */
+function stripWebp(bytes: Uint8Array): StrippedParts | null {
+  const fourCC = (offset: number) => String.fromCharCode(...Array.from(bytes.subarray(offset, offset + 4)));
+  if (fourCC(0) !== 'RIFF' || fourCC(8) !== 'WEBP') return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Uint8Array[] = [];
+  let removed = false;
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const type = fourCC(offset);
+    const size = view.getUint32(offset + 4, true);
+    // 数据块按偶数字节对齐
+    const end = Math.min(bytes.length, offset + 8 + size + (size % 2));
+
+    if (WEBP_METADATA_CHUNKS.includes(type)) {
+      removed = true;
+    } else if (type === 'VP8X') {
+      const chunk = bytes.slice(offset, end);
+      chunk[8] &= ~WEBP_VP8X_METADATA_FLAGS;
+      chunks.push(chunk);
+    } else {
+      chunks.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+
+  if (!removed) return { parts: [bytes], removed };
+
+  // 重写RIFF头中的文件大小
+  const header = bytes.slice(0, 12);
+  const riffSize = 4 + chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  new DataView(header.buffer).setUint32(4, riffSize, true);
+  return { parts: [header, ...chunks], removed };
+}
+
+/**
+ * 去除图片中的EXIF、XMP和IPTC元数据
+ * 不支持的格式或无法解析的文件原样返回
+ * @param file 图片文件
+ * @returns 处理结果
+ */
+export async function stripImageMetadata(file: File): Promise<StripMetadataResult> {
+  if (!isMetadataStrippable(file)) {
+    return { file, clean: false, removed: false };
+  }
+
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const result = file.type === 'image/jpeg'
+    ? stripJpeg(bytes)
+    : file.type === 'image/png'
+    ? stripPng(bytes)
+    : stripWebp(bytes);
+
+  if (!result) {
+    return { file, clean: false, removed: false };
+  }
+  if (!result.removed) {
+    return { file, clean: true, removed: false };
+  }
+
+  return {
+    file: new File(result.parts as BlobPart[], file.name, { type: file.type, lastModified: file.lastModified }),
+    clean: true,
+    removed: true,
+  };
+}
@@ -0,0 +1,203 @@
+import { FileInfo, QuarantinedIndex } from './types';
+import { LEGACY_SCHEMA_VERSION, isValidFileRecord, migrateFileRecords } from './schema';
+
+/**
+ * 损坏文件索引的隔离与恢复
+ * 解析失败的原始数据不再直接删除，而是原样移动到带时间戳的隔离键中（来源和时间另存在单独的小键中），
+ * 并尽量从中抢救出仍可解析的单条文件记录
+ */
+
+// 隔离数据键名前缀（后接隔离时间戳，值为原始数据）
+// 两个前缀互不为前缀，隔离数据ID不会指向隔离信息键
+const QUARANTINE_KEY_PREFIX = 'uploaded-files-quarantine-raw-';
+
+// 隔离信息键名前缀（后接与隔离数据相同的时间戳）
+const QUARANTINE_META_KEY_PREFIX = 'uploaded-files-quarantine-meta-';
+
+// 隔离数据变化时派发的窗口事件
+export const QUARANTINE_CHANGED_EVENT = 'upload-center:index-quarantined';
+
+// 检查是否在客户端环境
+const isClient = typeof window !== 'undefined';
+
+interface StoredQuarantineMeta {
+  sourceKey: string;          // 原始存储键名
+  quarantinedAt: string;      // ISO格式隔离时间
+}
+
+/**
+ * 由隔离数据ID（原始数据键名）得到隔离信息键名
+ */
+function toMetaKey(quarantineId: string): string {
+  return `${QUARANTINE_META_KEY_PREFIX}${quarantineId.slice(QUARANTINE_KEY_PREFIX.length)}`;
+}
+
+/**
+ * 通知界面隔离数据已变化
+ */
+function notifyQuarantineChanged(): void {
+  window.dispatchEvent(new CustomEvent(QUARANTINE_CHANGED_EVENT));
+}
+
+/**
+ * 从损坏的JSON文本中抢救可解析的文件记录
+ * 逐个匹配花括号包围的对象并单独解析，嵌套在其他有效记录内部的对象会被忽略
+ * @param raw 原始文本
+ * @returns 抢救出的文件列表
+ */
+export function salvageFileRecords(raw: string): FileInfo[] {
+  const candidates: { start: number; end: number; record: any }[] = [];
+  const openStack: number[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      openStack.push(i);
+    } else if (char === '}' && openStack.length > 0) {
+      const start = openStack.pop()!;
+      try {
+        const record = JSON.parse(raw.substring(start, i + 1));
+        if (isValidFileRecord(record)) {
+          candidates.push({ start, end: i, record });
+        }
+      } catch {
+        // 该片段本身已损坏，继续尝试其他片段
+      }
+    }
+  }
+
+  // 只保留最外层的有效记录
+  const outermost = candidates.filter(candidate =>
+    !candidates.some(other =>
+      other !== candidate && other.start < candidate.start && other.end > candidate.end
+    )
+  );
+
+  // 原始数据中声明的版本号决定迁移起点，无法识别时按旧版数据处理
+  const versionMatch = raw.match(/"version"\s*:\s*(\d+)/);
+  const version = versionMatch ? parseInt(versionMatch[1]) : LEGACY_SCHEMA_VERSION;
+
+  const seenIds = new Set<string>();
+  const unique = outermost
+    .map(candidate => candidate.record)
+    .filter(record => {
+      if (seenIds.has(record.id)) return false;
+      seenIds.add(record.id);
+      return true;
+    });
+
+  try {
+    return migrateFileRecords(unique, version);
+  } catch (error) {
+    console.warn('抢救记录迁移失败，按旧版数据处理:', error);
+    return migrateFileRecords(unique, LEGACY_SCHEMA_VERSION);
+  }
+}
+
+/**
+ * 将损坏的索引数据移动到隔离区
+ * 原始数据原样保存（不再包装，所需空间与移除的原数据相同），失败时放回原处
+ * @param sourceKey 原始存储键名
+ * @param raw 原始数据
+ * @returns 是否隔离成功（失败时原始数据仍在原键中，不能写入原键）
+ */
+export function quarantineCorruptIndex(sourceKey: string, raw: string): boolean {
+  if (!isClient) return false;
+
+  const quarantinedAt = new Date().toISOString();
+  const quarantineId = `${QUARANTINE_KEY_PREFIX}${Date.now()}`;
+  const meta: StoredQuarantineMeta = { sourceKey, quarantinedAt };
+
+  // 先移除原始数据释放空间，写入隔离区失败时再放回原处
+  localStorage.removeItem(sourceKey);
+  try {
+    localStorage.setItem(quarantineId, raw);
+    localStorage.setItem(toMetaKey(quarantineId), JSON.stringify(meta));
+  } catch (error) {
+    console.error('隔离损坏数据失败，保留原始数据:', error);
+    localStorage.removeItem(quarantineId);
+    try {
+      localStorage.setItem(sourceKey, raw);
+    } catch (restoreError) {
+      console.error('放回原始数据失败:', restoreError);
+    }
+    return false;
+  }
+
+  console.warn(`文件索引已损坏，原始数据已隔离保存（${quarantinedAt}）`);
+  notifyQuarantineChanged();
+  return true;
+}
+
+/**
+ * 获取所有被隔离的索引数据
+ * @returns 隔离数据列表（按隔离时间倒序）
+ */
+export function getQuarantinedIndexes(): QuarantinedIndex[] {
+  if (!isClient) return [];
+
+  const entries: QuarantinedIndex[] = [];
+
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (!key || !key.startsWith(QUARANTINE_META_KEY_PREFIX)) continue;
+
+    const id = `${QUARANTINE_KEY_PREFIX}${key.slice(QUARANTINE_META_KEY_PREFIX.length)}`;
+    try {
+      const meta: StoredQuarantineMeta = JSON.parse(localStorage.getItem(key) || '');
+      const raw = localStorage.getItem(id);
+      if (raw === null) continue;
+
+      entries.push({
+        id,
+        sourceKey: meta.sourceKey,
+        quarantinedAt: meta.quarantinedAt,
+        rawSize: raw.length,
+        salvagedFiles: salvageFileRecords(raw),
+      });
+    } catch (error) {
+      console.error(`读取隔离数据失败: ${id}`, error);
+    }
+  }
+
+  return entries.sort((a, b) => b.quarantinedAt.localeCompare(a.quarantinedAt));
+}
+
+/**
+ * 获取隔离数据的原始内容
+ * @param quarantineId 隔离数据ID
+ * @returns 原始数据，不存在时返回null
+ */
+export function getQuarantinedRaw(quarantineId: string): string | null {
+  if (!isClient || !quarantineId.startsWith(QUARANTINE_KEY_PREFIX)) return null;
+
+  return localStorage.getItem(quarantineId);
+}
+
+/**
+ * 删除隔离数据
+ * @param quarantineId 隔离数据ID
+ */
+export function discardQuarantinedIndex(quarantineId: string): void {
+  if (!isClient || !quarantineId.startsWith(QUARANTINE_KEY_PREFIX)) return;
+
+  localStorage.removeItem(quarantineId);
+  localStorage.removeItem(toMetaKey(quarantineId));
+  notifyQuarantineChanged();
+}
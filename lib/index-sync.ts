@@ -0,0 +1,115 @@
+import { IndexChange } from './types';
+import { generateId } from './utils';
+
+/**
+ * 文件索引跨标签页同步
+ * 通过BroadcastChannel（不支持时回退到storage事件）向其他标签页推送索引变更，
+ * 并通过Web Locks串行化各标签页的写入操作
+ */
+
+// 广播频道名称
+const CHANNEL_NAME = 'upload-center-index';
+
+// storage事件回退方案使用的键名
+const CHANGE_EVENT_KEY = 'uploaded-files-change';
+
+// 写入锁名称
+const WRITE_LOCK_NAME = 'upload-center-index-write';
+
+// 检查是否在客户端环境
+const isClient = typeof window !== 'undefined';
+
+// 当前标签页标识，用于忽略自身发出的变更
+const tabId = generateId();
+
+let channel: BroadcastChannel | null = null;
+
+// 不支持Web Locks时，在当前标签页内串行化写入
+let localWriteQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * 获取广播频道（不支持时返回null）
+ */
+function getChannel(): BroadcastChannel | null {
+  if (!isClient || typeof BroadcastChannel === 'undefined') return null;
+
+  if (!channel) {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+  }
+  return channel;
+}
+
+/**
+ * 向其他标签页广播索引变更
+ * @param change 变更内容
+ */
+export function notifyIndexChange(change: Omit<IndexChange, 'sourceTabId' | 'timestamp'>): void {
+  if (!isClient) return;
+
+  const message: IndexChange = {
+    ...change,
+    sourceTabId: tabId,
+    timestamp: Date.now(),
+  };
+
+  try {
+    const broadcastChannel = getChannel();
+    if (broadcastChannel) {
+      broadcastChannel.postMessage(message);
+    } else {
+      // 写入不同的值才能触发其他标签页的storage事件
+      localStorage.setItem(CHANGE_EVENT_KEY, JSON.stringify({ ...message, nonce: generateId() }));
+    }
+  } catch (error) {
+    console.warn('广播索引变更失败:', error);
+  }
+}
+
+/**
+ * 订阅其他标签页的索引变更
+ * @param listener 变更回调
+ * @returns 取消订阅函数
+ */
+export function subscribeIndexChanges(listener: (change: IndexChange) => void): () => void {
+  if (!isClient) return () => {};
+
+  const handleChange = (change: IndexChange | null) => {
+    if (change && change.sourceTabId !== tabId) {
+      listener(change);
+    }
+  };
+
+  const broadcastChannel = getChannel();
+  if (broadcastChannel) {
+    const handleMessage = (event: MessageEvent<IndexChange>) => handleChange(event.data);
+    broadcastChannel.addEventListener('message', handleMessage);
+    return () => broadcastChannel.removeEventListener('message', handleMessage);
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== CHANGE_EVENT_KEY || !event.newValue) return;
+    try {
+      handleChange(JSON.parse(event.newValue));
+    } catch (error) {
+      console.warn('解析索引变更失败:', error);
+    }
+  };
+  window.addEventListener('storage', handleStorage);
+  return () => window.removeEventListener('storage', handleStorage);
+}
+
+/**
+ * 在写入锁内执行索引写操作，保证多个标签页的读-改-写不会互相覆盖
+ * 不支持Web Locks的浏览器只能保证当前标签页内串行
+ * @param task 写操作
+ * @returns 写操作结果
+ */
+export function withIndexWriteLock<T>(task: () => Promise<T>): Promise<T> {
+  if (isClient && navigator.locks) {
+    return navigator.locks.request(WRITE_LOCK_NAME, task) as Promise<T>;
+  }
+
+  const result = localWriteQueue.then(task, task);
+  localWriteQueue = result.catch(() => undefined);
+  return result;
+}
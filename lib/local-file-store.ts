@@ -0,0 +1,198 @@
+import { randomUUID } from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import { mkdir, open, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { FILE_HEADER_LENGTH, checkFileType } from './file-signature';
+
+/**
+ * 本地磁盘文件存储（仅在服务端使用）
+ * 文件保存在项目目录的 .local-uploads 下（可用LOCAL_UPLOAD_DIR修改），
+ * 每个文件一个目录：日期/随机ID/文件名，同目录下的 .meta.json 记录原文件名和类型
+ */
+
+// 本地存储的文件信息
+export interface LocalFileMeta {
+  fileName: string;           // 原文件名
+  mimeType: string;           // MIME类型
+  size: number;               // 文件大小（字节）
+  uploadTime: string;         // ISO格式上传时间
+}
+
+// 打开的本地文件
+export interface LocalFileHandle {
+  meta: LocalFileMeta;        // 文件信息
+  filePath: string;           // 磁盘上的路径
+}
+
+// 文件信息的文件名
+const META_FILE_NAME = '.meta.json';
+
+// 对象键格式：日期/随机ID/文件名
+const DATE_SEGMENT_PATTERN = /^\d{8}$/;
+const ID_SEGMENT_PATTERN = /^[0-9a-f-]{36}$/;
+
+// 格式正确的MIME类型（不含参数）
+const MIME_TYPE_PATTERN = /^[a-z0-9][a-z0-9!#$&^_.+-]*\/[a-z0-9][a-z0-9!#$&^_.+-]*$/;
+
+// 无法确定类型时使用的MIME类型
+const FALLBACK_MIME_TYPE = 'application/octet-stream';
+
+// 可以在浏览器中直接打开的类型，其余一律作为附件下载（SVG可包含脚本，不在其中）
+const INLINE_MIME_PREFIXES = ['image/', 'video/', 'audio/'];
+const INLINE_MIME_TYPES = ['application/pdf'];
+
+/**
+ * 获取存储根目录
+ */
+function getUploadDir(): string {
+  return path.resolve(process.env.LOCAL_UPLOAD_DIR || path.join(process.cwd(), '.local-uploads'));
+}
+
+/**
+ * 生成文件的对象键：日期/随机ID/文件名
+ * @param fileName 原文件名
+ */
+function createLocalFileKey(fileName: string): string {
+  const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+  // 去掉路径分隔符和控制字符，并避免与文件信息重名或成为 . / ..
+  let safeName = fileName.replace(/[\\/\u0000-\u001f\u007f]/g, '_').trim() || 'file';
+  if (safeName === META_FILE_NAME || /^\.+$/.test(safeName)) {
+    safeName = `_${safeName}`;
+  }
+  return `${date}/${randomUUID()}/${safeName}`;
+}
+
+/**
+ * 解析对象键，返回文件所在目录和文件路径
+ * @param key 对象键
+ * @returns 路径，对象键格式不正确时返回null
+ */
+function resolveLocalFileKey(key: string): { dirPath: string; filePath: string } | null {
+  const segments = key.split('/');
+  if (segments.length !== 3) return null;
+
+  const [date, id, fileName] = segments;
+  if (!DATE_SEGMENT_PATTERN.test(date) || !ID_SEGMENT_PATTERN.test(id)) return null;
+  if (!fileName || fileName === META_FILE_NAME || /^\.+$/.test(fileName) || fileName.includes('\\')) return null;
+
+  const dirPath = path.join(getUploadDir(), date, id);
+  return { dirPath, filePath: path.join(dirPath, fileName) };
+}
+
+/**
+ * 判断文件是否可以在浏览器中直接打开
+ * 文件与应用同源，HTML、SVG等可执行脚本的类型作为内联内容返回时能读取应用的本地数据
+ * @param mimeType 保存的MIME类型
+ */
+export function isInlineMimeType(mimeType: string): boolean {
+  if (mimeType === 'image/svg+xml') return false;
+  return INLINE_MIME_TYPES.includes(mimeType) || INLINE_MIME_PREFIXES.some(prefix => mimeType.startsWith(prefix));
+}
+
+/**
+ * 确定保存的文件类型：浏览器声明的类型不可信，能由文件头识别的格式以识别结果为准，
+ * 无法识别时只接受格式正确的声明类型
+ * @param filePath 已保存的文件
+ * @param fileName 原文件名
+ * @param claimedType 浏览器声明的MIME类型
+ */
+async function detectMimeType(filePath: string, fileName: string, claimedType: string): Promise<string> {
+  const normalized = claimedType.split(';')[0].trim().toLowerCase();
+  const safeType = MIME_TYPE_PATTERN.test(normalized) ? normalized : FALLBACK_MIME_TYPE;
+
+  const handle = await open(filePath, 'r');
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(FILE_HEADER_LENGTH), 0, FILE_HEADER_LENGTH, 0);
+    const header = new File([buffer.subarray(0, bytesRead)], fileName, { type: safeType });
+    return (await checkFileType(header)).mimeType;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * 保存上传的文件
+ * @param fileName 原文件名
+ * @param claimedType 浏览器声明的MIME类型（保存前按文件头核对）
+ * @param body 请求体
+ * @param maxBytes 文件大小上限（字节）
+ * @returns 对象键和文件信息，超过大小上限时抛出错误且不保留任何数据
+ */
+export async function saveLocalFile(
+  fileName: string,
+  claimedType: string,
+  body: ReadableStream<Uint8Array>,
+  maxBytes: number
+): Promise<{ key: string; meta: LocalFileMeta }> {
+  const key = createLocalFileKey(fileName);
+  const { dirPath, filePath } = resolveLocalFileKey(key)!;
+  await mkdir(dirPath, { recursive: true });
+
+  let size = 0;
+  try {
+    await pipeline(
+      Readable.fromWeb(body as NodeReadableStream<Uint8Array>),
+      async function* (source: AsyncIterable<Buffer>) {
+        for await (const chunk of source) {
+          size += chunk.length;
+          if (size > maxBytes) {
+            throw new Error('文件大小超过限制');
+          }
+          yield chunk;
+        }
+      },
+      createWriteStream(filePath)
+    );
+
+    const mimeType = await detectMimeType(filePath, fileName, claimedType);
+    const meta: LocalFileMeta = { fileName, mimeType, size, uploadTime: new Date().toISOString() };
+    await writeFile(path.join(dirPath, META_FILE_NAME), JSON.stringify(meta));
+    return { key, meta };
+  } catch (error) {
+    await rm(dirPath, { recursive: true, force: true });
+    throw error;
+  }
+}
+
+/**
+ * 打开本地文件
+ * @param key 对象键
+ * @returns 文件信息和路径，不存在时返回null
+ */
+export async function openLocalFile(key: string): Promise<LocalFileHandle | null> {
+  const resolved = resolveLocalFileKey(key);
+  if (!resolved) return null;
+
+  try {
+    const meta = JSON.parse(await readFile(path.join(resolved.dirPath, META_FILE_NAME), 'utf8')) as LocalFileMeta;
+    return { meta, filePath: resolved.filePath };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 读取文件内容
+ * @param handle 打开的本地文件
+ * @param start 起始字节
+ * @param end 结束字节（包含）
+ */
+export function createLocalFileStream(handle: LocalFileHandle, start: number, end: number): ReadableStream<Uint8Array> {
+  return Readable.toWeb(createReadStream(handle.filePath, { start, end })) as ReadableStream<Uint8Array>;
+}
+
+/**
+ * 删除本地文件
+ * @param key 对象键
+ * @returns 对象键格式是否正确（文件不存在时同样视为删除成功）
+ */
+export async function deleteLocalFile(key: string): Promise<boolean> {
+  const resolved = resolveLocalFileKey(key);
+  if (!resolved) return false;
+
+  await rm(resolved.dirPath, { recursive: true, force: true });
+  return true;
+}
@@ -0,0 +1,161 @@
+import { FileInfo, StorageProgressCallback, StorageProvider, StorageRetryCallback, StorageUploadResult } from './types';
+import { createAbortError, createApiUploadError, createUploadError, withUploadRetry } from './upload-errors';
+
+/**
+ * 本地存储（开发和演示用）
+ * 文件通过 /api/local-files 接口保存在运行应用的机器的磁盘上，不需要任何云服务账号和外部网络；
+ * 需要以 next dev / next start 运行，静态部署时不可用
+ */
+
+// 单个文件大小上限
+export const LOCAL_MAX_UPLOAD_SIZE_MB = 500;
+
+// 本地文件接口
+const LOCAL_FILES_ENDPOINT = '/api/local-files';
+
+// 单个请求的超时时间
+const REQUEST_TIMEOUT = 5 * 60 * 1000;
+
+/**
+ * 根据对象键生成访问URL
+ * 保存为站内相对路径，换用其他地址（端口、内网穿透、反向代理）打开应用时链接仍然有效，复制或分享时再补全站点地址
+ * @param key 对象键
+ */
+export function getLocalFileUrl(key: string): string {
+  return `${LOCAL_FILES_ENDPOINT}/${key.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+/**
+ * 发送文件内容到本地文件接口
+ * @param file 文件
+ * @param onProgress 已发送字节数回调
+ * @param signal 中止信号
+ * @returns 对象键和保存的文件信息
+ */
+function sendFile(
+  file: File,
+  onProgress?: (loaded: number) => void,
+  signal?: AbortSignal
+): Promise<{ key: string; bytes: number; mimeType: string }> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const handleAbort = () => xhr.abort();
+    signal?.addEventListener('abort', handleAbort);
+    xhr.onloadend = () => signal?.removeEventListener('abort', handleAbort);
+
+    if (onProgress) {
+      xhr.upload.addEventListener('progress', (event) => onProgress(event.loaded));
+    }
+
+    xhr.onload = () => {
+      let data: { key?: string; bytes?: number; mimeType?: string; error?: string } | null = null;
+      try {
+        data = JSON.parse(xhr.responseText);
+      } catch {
+        // 非JSON响应按状态码处理
+      }
+
+      if (xhr.status >= 200 && xhr.status < 300 && data?.key) {
+        resolve({ key: data.key, bytes: data.bytes ?? file.size, mimeType: data.mimeType || file.type });
+      } else {
+        reject(createApiUploadError(xhr.status, data));
+      }
+    };
+    xhr.onerror = () => reject(createUploadError('network', '无法连接本地文件服务，请确认应用以 next dev 或 next start 运行'));
+    xhr.timeout = REQUEST_TIMEOUT;
+    xhr.ontimeout = () => reject(createUploadError('timeout', '上传超时'));
+    xhr.onabort = () => reject(createAbortError());
+
+    xhr.open('POST', LOCAL_FILES_ENDPOINT);
+    xhr.setRequestHeader('Content-Type', file.type || 'application/octet-stream');
+    xhr.setRequestHeader('X-File-Name', encodeURIComponent(file.name));
+    xhr.send(file);
+  });
+}
+
+/**
+ * 上传文件到本地存储
+ * @param file 要上传的文件
+ * @param fileInfo 文件信息（本地存储不使用标签，仅为与其他存储服务保持一致）
+ * @param onProgress 上传进度回调函数（百分比、已发送字节数）
+ * @param signal 中止信号
+ * @param onRetry 自动重试回调
+ * @returns Promise<上传结果>
+ */
+export async function uploadFileToLocal(
+  file: File,
+  fileInfo?: FileInfo,
+  onProgress?: StorageProgressCallback,
+  signal?: AbortSignal,
+  onRetry?: StorageRetryCallback
+): Promise<StorageUploadResult> {
+  const result = await withUploadRetry(() => sendFile(
+    file,
+    onProgress && ((loaded) => onProgress(file.size > 0 ? Math.round((loaded / file.size) * 100) : 100, Math.min(loaded, file.size))),
+    signal
+  ), signal, onRetry);
+
+  return {
+    url: getLocalFileUrl(result.key),
+    publicId: result.key,
+    bytes: result.bytes,
+    mimeType: result.mimeType || 'application/octet-stream',
+  };
+}
+
+/**
+ * 从本地存储删除文件
+ * @param key 对象键
+ */
+export async function deleteLocalFile(key: string): Promise<void> {
+  const response = await fetch(getLocalFileUrl(key), { method: 'DELETE' });
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || `删除失败 (HTTP ${response.status})`);
+  }
+}
+
+/**
+ * 批量删除文件（本地接口响应很快，逐个删除）
+ * @param files 包含对象键的文件信息数组
+ * @returns Promise<批量删除结果>
+ */
+export async function batchDeleteLocalFiles(files: { publicId: string; fileType?: string }[]): Promise<{
+  successCount: number;
+  failedCount: number;
+  errors: string[];
+}> {
+  const results = { successCount: 0, failedCount: 0, errors: [] as string[] };
+
+  for (const file of files) {
+    try {
+      await deleteLocalFile(file.publicId);
+      results.successCount++;
+    } catch (error) {
+      results.failedCount++;
+      results.errors.push(`${file.publicId}: ${error instanceof Error ? error.message : '未知错误'}`);
+    }
+  }
+
+  return results;
+}
+
+/**
+ * 本地存储服务（不需要任何配置，不支持从链接上传和图片转换）
+ */
+export const localProvider: StorageProvider = {
+  id: 'local',
+  label: '本地存储',
+  maxUploadSizeMB: LOCAL_MAX_UPLOAD_SIZE_MB,
+  upload: uploadFileToLocal,
+  delete: deleteLocalFile,
+  batchDelete: batchDeleteLocalFiles,
+  getPublicUrl: getLocalFileUrl,
+  getPreviewUrl: (url) => url,
+  validateConfig: () => ({ isValid: true, missingVars: [] }),
+};
@@ -0,0 +1,164 @@
+import { createHash, createHmac, randomUUID } from 'crypto';
+
+/**
+ * S3兼容存储的预签名URL（仅在服务端使用）
+ * 访问密钥只保存在服务端环境变量中，浏览器通过接口获取有效期很短的预签名URL后直接上传或删除对象，
+ * 签名算法为AWS Signature V4（查询参数方式），兼容AWS S3和MinIO
+ */
+
+// S3服务端配置
+export interface S3Config {
+  endpoint?: string;          // 自定义服务地址（如MinIO的 http://localhost:9000），为空时使用AWS S3
+  region: string;             // 区域
+  bucket: string;             // 存储桶
+  accessKeyId: string;        // 访问密钥ID
+  secretAccessKey: string;    // 访问密钥
+}
+
+// 允许通过接口签名的对象键前缀，避免借接口操作存储桶中的其他对象
+export const S3_KEY_PREFIX = 'uploads/';
+
+// 预签名URL有效期（秒）
+const PRESIGN_EXPIRES_IN = 15 * 60;
+
+/**
+ * 读取S3配置
+ * @returns 配置，缺少必需的环境变量时返回null
+ */
+export function getS3Config(): S3Config | null {
+  const { S3_ENDPOINT, S3_REGION, S3_BUCKET, S3_ACCESS_KEY_ID, S3_SECRET_ACCESS_KEY } = process.env;
+  if (!S3_BUCKET || !S3_ACCESS_KEY_ID || !S3_SECRET_ACCESS_KEY) return null;
+
+  return {
+    endpoint: S3_ENDPOINT?.replace(/\/+$/, '') || undefined,
+    region: S3_REGION || 'us-east-1',
+    bucket: S3_BUCKET,
+    accessKeyId: S3_ACCESS_KEY_ID,
+    secretAccessKey: S3_SECRET_ACCESS_KEY,
+  };
+}
+
+/**
+ * 按RFC 3986编码（SigV4要求，encodeURIComponent不编码 !'()*）
+ * @param value 原始字符串
+ */
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+/**
+ * 编码对象键（保留路径分隔符）
+ * @param key 对象键
+ */
+export function encodeObjectKey(key: string): string {
+  return key.split('/').map(encodeRfc3986).join('/');
+}
+
+/**
+ * 生成上传对象的键：uploads/日期/随机ID/文件名
+ * @param fileName 原文件名
+ * @returns 对象键
+ */
+export function createObjectKey(fileName: string): string {
+  const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+  // 去掉路径分隔符和控制字符，保留中文等其他字符
+  const safeName = fileName.replace(/[\\/\u0000-\u001f\u007f]/g, '_').trim() || 'file';
+  return `${S3_KEY_PREFIX}${date}/${randomUUID()}/${safeName}`;
+}
+
+/**
+ * 检查对象键是否为本应用上传的对象
+ * @param key 对象键
+ */
+export function isManagedObjectKey(key: string): boolean {
+  return key.startsWith(S3_KEY_PREFIX) && !key.split('/').includes('..');
+}
+
+/**
+ * 获取对象的请求地址（自定义服务使用路径风格，AWS S3使用虚拟主机风格）
+ * @param config S3配置
+ * @param key 对象键
+ */
+function getObjectUrl(config: S3Config, key: string): URL {
+  return config.endpoint
+    ? new URL(`${config.endpoint}/${encodeRfc3986(config.bucket)}/${encodeObjectKey(key)}`)
+    : new URL(`https://${config.bucket}.s3.${config.region}.amazonaws.com/${encodeObjectKey(key)}`);
+}
+
+/**
+ * 计算HMAC-SHA256
+ */
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data, 'utf8').digest();
+}
+
+/**
+ * 生成预签名URL
+ * @param config S3配置
+ * @param method 请求方法
+ * @param key 对象键
+ * @param expiresIn 有效期（秒）
+ * @returns 预签名URL
+ */
+export function createPresignedUrl(
+  config: S3Config,
+  method: 'PUT' | 'DELETE' | 'GET',
+  key: string,
+  expiresIn: number = PRESIGN_EXPIRES_IN
+): string {
+  return signPresignedUrl(config, method, getObjectUrl(config, key), expiresIn);
+}
+
+/**
+ * 为对象地址签名（AWS Signature V4，只签名host头，负载不签名）
+ * @param config S3配置（使用区域和访问密钥）
+ * @param method 请求方法
+ * @param url 对象的请求地址
+ * @param expiresIn 有效期（秒）
+ * @param date 签名时间
+ * @returns 预签名URL
+ */
+export function signPresignedUrl(
+  config: Pick<S3Config, 'region' | 'accessKeyId' | 'secretAccessKey'>,
+  method: 'PUT' | 'DELETE' | 'GET',
+  url: URL,
+  expiresIn: number,
+  date: Date = new Date()
+): string {
+  const amzDate = date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const scope = `${dateStamp}/${config.region}/s3/aws4_request`;
+
+  const query: Record<string, string> = {
+    'X-Amz-Algorithm': 'AWS4-HMAC-SHA256',
+    'X-Amz-Credential': `${config.accessKeyId}/${scope}`,
+    'X-Amz-Date': amzDate,
+    'X-Amz-Expires': String(expiresIn),
+    'X-Amz-SignedHeaders': 'host',
+  };
+  const canonicalQuery = Object.keys(query)
+    .sort()
+    .map(name => `${encodeRfc3986(name)}=${encodeRfc3986(query[name])}`)
+    .join('&');
+
+  const canonicalRequest = [
+    method,
+    url.pathname,
+    canonicalQuery,
+    `host:${url.host}\n`,
+    'host',
+    'UNSIGNED-PAYLOAD',
+  ].join('\n');
+
+  const stringToSign = [
+    'AWS4-HMAC-SHA256',
+    amzDate,
+    scope,
+    createHash('sha256').update(canonicalRequest, 'utf8').digest('hex'),
+  ].join('\n');
+
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${config.secretAccessKey}`, dateStamp), config.region), 's3'), 'aws4_request');
+  const signature = createHmac('sha256', signingKey).update(stringToSign, 'utf8').digest('hex');
+
+  return `${url.origin}${url.pathname}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+}
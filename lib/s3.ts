@@ -0,0 +1,209 @@
+import { FileInfo, StorageProgressCallback, StorageProvider, StorageRetryCallback, StorageUploadResult } from './types';
+import { createAbortError, createApiUploadError, createHttpUploadError, createUploadError, withUploadRetry } from './upload-errors';
+
+/**
+ * S3兼容存储（AWS S3、MinIO等）
+ * 浏览器向 /api/s3/presign 申请预签名URL后直接PUT/DELETE对象，访问密钥不会下发到浏览器；
+ * 存储桶需要允许公开读取，并为本站点配置CORS
+ */
+
+// S3单个PUT请求最多5GB，与Cloudinary保持一致的上限
+export const S3_MAX_UPLOAD_SIZE_MB = 500;
+
+// 签发预签名URL的接口
+const PRESIGN_ENDPOINT = '/api/s3/presign';
+
+// 单个请求的超时时间
+const REQUEST_TIMEOUT = 5 * 60 * 1000;
+
+/**
+ * 获取公开访问地址前缀（如 http://localhost:9000/uploads）
+ */
+function getPublicBaseUrl(): string {
+  const baseUrl = process.env.NEXT_PUBLIC_S3_PUBLIC_URL;
+  if (!baseUrl) {
+    throw createUploadError('config', 'S3配置缺失：请设置NEXT_PUBLIC_S3_PUBLIC_URL环境变量');
+  }
+  return baseUrl.replace(/\/+$/, '');
+}
+
+/**
+ * 向服务端申请预签名URL
+ * @param body 请求内容
+ * @param signal 中止信号
+ */
+async function requestPresignedUrl(
+  body: { action: 'upload'; fileName: string } | { action: 'delete'; key: string },
+  signal?: AbortSignal
+): Promise<{ url: string; key?: string }> {
+  let response: Response;
+  try {
+    response = await fetch(PRESIGN_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) throw createAbortError();
+    throw createUploadError('network', '网络错误，请检查网络连接');
+  }
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => null);
+    throw createApiUploadError(response.status, data);
+  }
+  return response.json();
+}
+
+/**
+ * 通过预签名URL上传对象
+ * @param url 预签名URL
+ * @param file 文件
+ * @param onProgress 已发送字节数回调
+ * @param signal 中止信号
+ */
+function putObject(url: string, file: File, onProgress?: (loaded: number) => void, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    const handleAbort = () => xhr.abort();
+    signal?.addEventListener('abort', handleAbort);
+    xhr.onloadend = () => signal?.removeEventListener('abort', handleAbort);
+
+    if (onProgress) {
+      xhr.upload.addEventListener('progress', (event) => onProgress(event.loaded));
+    }
+
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve();
+      } else {
+        reject(createHttpUploadError(xhr.status));
+      }
+    };
+    xhr.onerror = () => reject(createUploadError('network', '网络错误，请检查网络连接或存储桶的CORS设置'));
+    xhr.timeout = REQUEST_TIMEOUT;
+    xhr.ontimeout = () => reject(createUploadError('timeout', '上传超时'));
+    xhr.onabort = () => reject(createAbortError());
+
+    xhr.open('PUT', url);
+    xhr.setRequestHeader('Content-Type', file.type || 'application/octet-stream');
+    xhr.send(file);
+  });
+}
+
+/**
+ * 根据对象键生成公开访问URL
+ * @param key 对象键
+ */
+export function getS3PublicUrl(key: string): string {
+  return `${getPublicBaseUrl()}/${key.split('/').map(encodeURIComponent).join('/')}`;
+}
+
+/**
+ * 上传文件到S3兼容存储
+ * 每次尝试都重新申请预签名URL，自动重试时不会因URL过期失败
+ * @param file 要上传的文件
+ * @param fileInfo 文件信息（S3不使用标签，仅为与其他存储服务保持一致）
+ * @param onProgress 上传进度回调函数（百分比、已发送字节数）
+ * @param signal 中止信号
+ * @param onRetry 自动重试回调
+ * @returns Promise<上传结果>
+ */
+export async function uploadFileToS3(
+  file: File,
+  fileInfo?: FileInfo,
+  onProgress?: StorageProgressCallback,
+  signal?: AbortSignal,
+  onRetry?: StorageRetryCallback
+): Promise<StorageUploadResult> {
+  getPublicBaseUrl();
+
+  const key = await withUploadRetry(async () => {
+    const presigned = await requestPresignedUrl({ action: 'upload', fileName: file.name }, signal);
+    await putObject(
+      presigned.url,
+      file,
+      onProgress && ((loaded) => onProgress(file.size > 0 ? Math.round((loaded / file.size) * 100) : 100, Math.min(loaded, file.size))),
+      signal
+    );
+    return presigned.key!;
+  }, signal, onRetry);
+
+  return {
+    url: getS3PublicUrl(key),
+    publicId: key,
+    bytes: file.size,
+    mimeType: file.type || 'application/octet-stream',
+  };
+}
+
+/**
+ * 从S3兼容存储删除文件
+ * @param key 对象键
+ */
+export async function deleteFileFromS3(key: string): Promise<void> {
+  const { url } = await requestPresignedUrl({ action: 'delete', key });
+  const response = await fetch(url, { method: 'DELETE' });
+  // 对象不存在时S3同样返回204
+  if (!response.ok) {
+    throw new Error(`删除失败 (HTTP ${response.status})`);
+  }
+}
+
+/**
+ * 批量删除文件
+ * @param files 包含对象键的文件信息数组
+ * @returns Promise<批量删除结果>
+ */
+export async function batchDeleteFilesFromS3(files: { publicId: string; fileType?: string }[]): Promise<{
+  successCount: number;
+  failedCount: number;
+  errors: string[];
+}> {
+  const results = { successCount: 0, failedCount: 0, errors: [] as string[] };
+
+  // 并发删除，限制并发数量
+  const concurrencyLimit = 5;
+  for (let i = 0; i < files.length; i += concurrencyLimit) {
+    await Promise.all(files.slice(i, i + concurrencyLimit).map(async (file) => {
+      try {
+        await deleteFileFromS3(file.publicId);
+        results.successCount++;
+      } catch (error) {
+        results.failedCount++;
+        results.errors.push(`${file.publicId}: ${error instanceof Error ? error.message : '未知错误'}`);
+      }
+    }));
+  }
+
+  return results;
+}
+
+/**
+ * 验证S3前端配置（访问密钥只在服务端配置，由接口检查）
+ */
+export function validateS3Config(): { isValid: boolean; missingVars: string[] } {
+  const missingVars = process.env.NEXT_PUBLIC_S3_PUBLIC_URL ? [] : ['NEXT_PUBLIC_S3_PUBLIC_URL'];
+  return { isValid: missingVars.length === 0, missingVars };
+}
+
+/**
+ * S3兼容存储服务（预签名URL上传，不支持从链接上传和图片转换）
+ */
+export const s3Provider: StorageProvider = {
+  id: 's3',
+  label: 'S3',
+  maxUploadSizeMB: S3_MAX_UPLOAD_SIZE_MB,
+  upload: uploadFileToS3,
+  delete: deleteFileFromS3,
+  batchDelete: batchDeleteFilesFromS3,
+  getPublicUrl: getS3PublicUrl,
+  getPreviewUrl: (url) => url,
+  validateConfig: validateS3Config,
+};
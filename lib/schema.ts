@@ -0,0 +1,171 @@
+import { FileInfo, FileIndexEnvelope, StorageProviderId } from './types';
+
+/**
+ * 文件索引数据版本管理
+ * 持久化和导出的文件列表都包裹在带版本号的信封中，
+ * 读取旧版本数据时按顺序执行迁移函数，逐级升级到当前版本
+ */
+
+// 当前文件索引数据版本
+export const CURRENT_SCHEMA_VERSION = 3;
+
+// 未带版本信息的旧数据（纯数组）视为版本1
+export const LEGACY_SCHEMA_VERSION = 1;
+
+// 尚未校验的原始记录
+type RawFileRecord = Record<string, unknown>;
+
+// 单条记录迁移函数：输入旧版本记录，输出下一版本记录
+type FileRecordMigration = (record: RawFileRecord) => RawFileRecord;
+
+// v3中可用的存储服务（缺少时为引入多存储服务之前的Cloudinary文件）
+const STORAGE_PROVIDER_IDS: StorageProviderId[] = ['cloudinary', 's3', 'local'];
+
+/**
+ * 判断数据是否为对象（不含数组）
+ */
+function isRecord(value: unknown): value is RawFileRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 判断数据是否为正整数
+ */
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * 规范化存储服务标识
+ */
+function normalizeStorageProvider(value: unknown): StorageProviderId {
+  return STORAGE_PROVIDER_IDS.includes(value as StorageProviderId) ? value as StorageProviderId : 'cloudinary';
+}
+
+/**
+ * 移除值不合法的可选字符串字段
+ */
+function withoutInvalidString(record: RawFileRecord, field: string, pattern: RegExp): RawFileRecord {
+  const value = record[field];
+  if (typeof value === 'string' && pattern.test(value)) return record;
+
+  const { [field]: _invalid, ...rest } = record;
+  return rest;
+}
+
+/**
+ * 迁移函数链，键为迁移前的版本号
+ */
+const migrations: Record<number, FileRecordMigration> = {
+  // v1 -> v2：补全缺失的必填字段，过期时间基于上传时间计算（上传时间缺失时以迁移时间为准）
+  1: (record) => {
+    const uploadTime = typeof record.uploadTime === 'string' && !isNaN(Date.parse(record.uploadTime))
+      ? record.uploadTime
+      : new Date().toISOString();
+
+    return {
+      ...record,
+      uploadTime,
+      expiresAt: typeof record.expiresAt === 'string' && record.expiresAt
+        ? record.expiresAt
+        : new Date(new Date(uploadTime).getTime() + 24 * 60 * 60 * 1000).toISOString(),
+      fileSize: typeof record.fileSize === 'number' ? record.fileSize : 0,
+      fileType: typeof record.fileType === 'string' ? record.fileType : 'application/octet-stream',
+      publicId: typeof record.publicId === 'string' ? record.publicId : '',
+    };
+  },
+
+  // v2 -> v3：补全文件夹、标签、版本历史和存储服务字段，移除格式不正确的内容哈希和加密密钥
+  2: (record) => {
+    const versions = Array.isArray(record.versions)
+      ? record.versions
+          .filter((item: unknown): item is RawFileRecord => isRecord(item) && isPositiveInteger(item.version))
+          .map(item => ({ ...item, storageProvider: normalizeStorageProvider(item.storageProvider) }))
+      : [];
+
+    let migrated: RawFileRecord = {
+      ...record,
+      storageProvider: normalizeStorageProvider(record.storageProvider),
+      parentId: typeof record.parentId === 'string' && record.parentId ? record.parentId : null,
+      tags: Array.isArray(record.tags) ? record.tags.filter((tag: unknown): tag is string => typeof tag === 'string' && tag !== '') : [],
+      version: isPositiveInteger(record.version) ? record.version : 1,
+      versions,
+    };
+    migrated = withoutInvalidString(migrated, 'contentHash', /^[0-9a-f]{64}$/);
+    migrated = withoutInvalidString(migrated, 'encryptionKey', /^[A-Za-z0-9_-]+$/);
+    return migrated;
+  },
+};
+
+/**
+ * 校验文件记录的基本字段
+ * @param file 待校验的数据
+ * @returns 是否为有效的文件信息
+ */
+export function isValidFileRecord(file: unknown): file is FileInfo {
+  return isRecord(file) &&
+    typeof file.id === 'string' &&
+    typeof file.fileName === 'string' &&
+    typeof file.cloudinaryUrl === 'string';
+}
+
+/**
+ * 将文件记录从指定版本迁移到当前版本
+ * @param records 原始记录
+ * @param fromVersion 原始数据版本
+ * @returns 迁移并校验后的文件列表
+ */
+export function migrateFileRecords(records: unknown[], fromVersion: number): FileInfo[] {
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`数据版本 v${fromVersion} 高于当前支持的 v${CURRENT_SCHEMA_VERSION}，请升级应用后再试`);
+  }
+
+  let migrated = records.filter(isRecord);
+
+  for (let version = Math.max(fromVersion, LEGACY_SCHEMA_VERSION); version < CURRENT_SCHEMA_VERSION; version++) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`缺少从 v${version} 升级的迁移函数`);
+    }
+    migrated = migrated.map(migrate);
+  }
+
+  return migrated.flatMap(record => isValidFileRecord(record) ? [record] : []);
+}
+
+/**
+ * 生成带版本号的文件索引信封
+ * @param files 文件列表
+ * @returns 文件索引信封
+ */
+export function createFileIndexEnvelope(files: FileInfo[]): FileIndexEnvelope {
+  return {
+    version: CURRENT_SCHEMA_VERSION,
+    updatedAt: new Date().toISOString(),
+    files,
+  };
+}
+
+/**
+ * 解析文件索引数据（兼容旧版纯数组格式），并迁移到当前版本
+ * @param data 已解析的JSON数据
+ * @returns 当前版本的文件列表及原始版本号
+ */
+export function unwrapFileIndex(data: unknown): { version: number; files: FileInfo[] } {
+  if (Array.isArray(data)) {
+    return {
+      version: LEGACY_SCHEMA_VERSION,
+      files: migrateFileRecords(data, LEGACY_SCHEMA_VERSION),
+    };
+  }
+
+  const envelope = data as Partial<FileIndexEnvelope> | null;
+  if (!envelope || typeof envelope.version !== 'number' || !Array.isArray(envelope.files)) {
+    throw new Error('文件索引数据格式不正确');
+  }
+
+  return {
+    version: envelope.version,
+    files: migrateFileRecords(envelope.files, envelope.version),
+  };
+}
@@ -1,4 +1,5 @@
 import { FileInfo } from './types';
+import { DEFAULT_EXPIRY_OPTION, computeExpiresAt, isFileExpired } from './expiry';
 
 /**
  * 共享文件存储系统
@@ -11,8 +12,12 @@ import { FileInfo } from './types';
 // 共享存储键（可以考虑使用云端存储服务）
 const SHARED_STORAGE_KEY = 'shared-file-index';
 
+// 分享链接中携带文件列表的参数名
+const SHARE_PARAM = 'share';
+
 /**
  * 生成用于多设备同步的分享链接
+ * 分享数据放在#片段中（浏览器不会把它发送给服务器），加密文件的密钥随之分享，接收方可以解密下载
  * @param files 要分享的文件列表
  * @returns 分享链接
  */
@@ -26,17 +31,19 @@ export function generateShareLink(files: FileInfo[]): string {
         fileName: file.fileName,
         uploadTime: file.uploadTime,
         expiresAt: file.expiresAt,
+        expiryOption: file.expiryOption,
         fileSize: file.fileSize,
         cloudinaryUrl: file.cloudinaryUrl,
         fileType: file.fileType,
         publicId: file.publicId,
+        encryptionKey: file.encryptionKey,
       })),
     };
     
     // 编码为URL参数
     const encoded = btoa(JSON.stringify(shareData));
     const baseUrl = window.location.origin + window.location.pathname;
-    return `${baseUrl}?share=${encoded}`;
+    return `${baseUrl}#${SHARE_PARAM}=${encodeURIComponent(encoded)}`;
   } catch (error) {
     console.error('生成分享链接失败:', error);
     throw new Error('无法生成分享链接');
@@ -69,11 +76,13 @@ export function parseShareLink(shareParam: string): FileInfo[] {
         id: file.id,
         fileName: file.fileName,
         uploadTime: file.uploadTime || new Date().toISOString(),
-        expiresAt: file.expiresAt || new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+        expiresAt: file.expiresAt === null ? null : file.expiresAt || computeExpiresAt(DEFAULT_EXPIRY_OPTION),
+        expiryOption: file.expiryOption,
         fileSize: file.fileSize || 0,
         cloudinaryUrl: file.cloudinaryUrl,
         fileType: file.fileType || 'application/octet-stream',
         publicId: file.publicId || '',
+        ...(typeof file.encryptionKey === 'string' ? { encryptionKey: file.encryptionKey } : {}),
       }));
     
     return files;
@@ -84,15 +93,15 @@ export function parseShareLink(shareParam: string): FileInfo[] {
 }
 
 /**
- * 检查当前URL是否包含分享参数
+ * 检查当前URL是否包含分享参数（#片段中，或旧版链接的查询字符串中）
  * @returns 分享的文件列表，如果没有则返回null
  */
 export function checkForSharedFiles(): FileInfo[] | null {
   if (typeof window === 'undefined') return null;
   
   try {
-    const urlParams = new URLSearchParams(window.location.search);
-    const shareParam = urlParams.get('share');
+    const shareParam = new URLSearchParams(window.location.hash.replace(/^#/, '')).get(SHARE_PARAM) ||
+      new URLSearchParams(window.location.search).get(SHARE_PARAM);
     
     if (!shareParam) return null;
     
@@ -111,7 +120,10 @@ export function clearShareParams(): void {
   
   try {
     const url = new URL(window.location.href);
-    url.searchParams.delete('share');
+    url.searchParams.delete(SHARE_PARAM);
+    if (new URLSearchParams(url.hash.replace(/^#/, '')).has(SHARE_PARAM)) {
+      url.hash = '';
+    }
     window.history.replaceState({}, '', url.toString());
   } catch (error) {
     console.error('清除分享参数失败:', error);
@@ -133,8 +145,7 @@ export function getShareableStats(files: FileInfo[]): {
   let totalSize = 0;
   
   files.forEach(file => {
-    const expiryTime = new Date(file.expiresAt || '').getTime();
-    if (expiryTime > now) {
+    if (!isFileExpired(file, now)) {
       validFiles++;
       totalSize += file.fileSize || 0;
     }
@@ -161,6 +172,7 @@ export const SYNC_INSTRUCTIONS = {
   notes: [
     '分享链接包含所有当前文件的访问信息',
     '链接中不包含文件内容，仅包含访问地址',
+    '加密文件的密钥也包含在链接中，请只发送给信任的人',
     '文件仍然存储在云端，安全可靠',
     '过期文件不会包含在分享链接中',
   ],
@@ -0,0 +1,43 @@
+import { FileInfo, StorageProvider, StorageProviderId } from './types';
+import { cloudinaryProvider } from './cloudinary';
+import { localProvider } from './local-files';
+import { s3Provider } from './s3';
+
+/**
+ * 存储服务选择
+ * 新上传的文件存到NEXT_PUBLIC_STORAGE_PROVIDER指定的存储服务（cloudinary / s3 / local，默认Cloudinary），
+ * 每个文件记录所在的存储服务，切换存储服务后已有文件仍从原来的存储服务访问和删除
+ */
+
+// 默认存储服务（旧数据没有记录存储服务，均在Cloudinary上）
+export const DEFAULT_STORAGE_PROVIDER_ID: StorageProviderId = 'cloudinary';
+
+// 已实现的存储服务
+const STORAGE_PROVIDERS: Record<StorageProviderId, StorageProvider> = {
+  cloudinary: cloudinaryProvider,
+  s3: s3Provider,
+  local: localProvider,
+};
+
+/**
+ * 根据标识获取存储服务
+ * @param id 存储服务标识（为空或未知时返回默认存储服务）
+ */
+export function getStorageProvider(id?: string): StorageProvider {
+  return STORAGE_PROVIDERS[id as StorageProviderId] || STORAGE_PROVIDERS[DEFAULT_STORAGE_PROVIDER_ID];
+}
+
+/**
+ * 获取新上传文件使用的存储服务
+ */
+export function getActiveStorageProvider(): StorageProvider {
+  return getStorageProvider(process.env.NEXT_PUBLIC_STORAGE_PROVIDER);
+}
+
+/**
+ * 获取文件或文件版本所在的存储服务
+ * @param file 文件信息或文件版本
+ */
+export function getFileStorageProvider(file: Pick<FileInfo, 'storageProvider'>): StorageProvider {
+  return getStorageProvider(file.storageProvider);
+}
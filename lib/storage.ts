@@ -1,133 +1,73 @@
-import { FileInfo } from './types';
-import { deleteFileFromCloudinary } from './cloudinary';
-
-// 本地存储键名
-const STORAGE_KEY = 'uploaded-files';
+import { ExpiryOption, FileInfo } from './types';
+import { getFileIndexStore } from './file-index-store';
+import { createFileIndexEnvelope, isValidFileRecord, unwrapFileIndex } from './schema';
+import { discardQuarantinedIndex, getQuarantinedIndexes } from './index-recovery';
+import { isTrashed, moveFilesToTrash, purgeExpiredTrash } from './trash';
+import { computeExpiresAt, extendExpiresAt, isFileExpired } from './expiry';
+import { dedupeTags } from './tags';
 
 // 检查是否在客户端环境
 const isClient = typeof window !== 'undefined';
 
+// 上传者名称的存储键名
+const UPLOADER_NAME_STORAGE_KEY = 'uploader-name';
+
+// 上传者名称最大长度
+export const MAX_UPLOADER_NAME_LENGTH = 50;
+
 /**
- * 清理过期文件
- * @param files 文件列表
- * @returns 清理后的文件列表
+ * 清理过期文件：过期文件移入回收站，回收站中超过保留期的文件彻底删除
+ * @param files 文件列表（含回收站）
+ * @returns 未过期且未删除的文件列表
  */
 async function cleanupExpiredFiles(files: FileInfo[]): Promise<FileInfo[]> {
-  const now = new Date().getTime();
+  const now = Date.now();
   const expiredFiles: FileInfo[] = [];
   const validFiles: FileInfo[] = [];
-  
+
   for (const file of files) {
-    // 如果没有expiresAt字段，为旧数据添加过期时间（当前时间+24小时）
-    if (!file.expiresAt) {
-      file.expiresAt = new Date(now + 24 * 60 * 60 * 1000).toISOString();
-    }
-    
-    const expiryTime = new Date(file.expiresAt).getTime();
-    if (now >= expiryTime) {
+    if (isTrashed(file)) continue;
+
+    // 过期时间缺失的旧数据已在读取时由版本迁移补全，永久有效的文件不会过期
+    if (isFileExpired(file, now)) {
       expiredFiles.push(file);
     } else {
       validFiles.push(file);
     }
   }
-  
-  // 异步删除过期文件（不阻塞UI）
-  if (expiredFiles.length > 0) {
-    console.log(`发现 ${expiredFiles.length} 个过期文件，正在删除...`);
-    
-    // 后台异步删除Cloudinary文件
-    Promise.all(
-      expiredFiles.map(async (file) => {
-        try {
-          await deleteFileFromCloudinary(file.publicId, file.fileType);
-          console.log(`已删除过期文件: ${file.fileName}`);
-        } catch (error) {
-          console.error(`删除过期文件失败: ${file.fileName}`, error);
-        }
-      })
-    );
-    
-    // 立即更新本地存储
-    if (isClient && validFiles.length !== files.length) {
-      try {
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(validFiles));
-      } catch (error) {
-        console.error('更新存储失败:', error);
-      }
-    }
-  }
-  
-  return validFiles;
-}
 
-/**
- * 同步清理过期文件（用于读取时）
- * @param files 文件列表
- * @returns 清理后的文件列表
- */
-function cleanupExpiredFilesSync(files: FileInfo[]): FileInfo[] {
-  const now = new Date().getTime();
-  const validFiles: FileInfo[] = [];
-  let hasExpiredFiles = false;
-  
-  for (const file of files) {
-    // 如果没有expiresAt字段，为旧数据添加过期时间（当前时间+24小时）
-    if (!file.expiresAt) {
-      file.expiresAt = new Date(now + 24 * 60 * 60 * 1000).toISOString();
-    }
-    
-    const expiryTime = new Date(file.expiresAt).getTime();
-    if (now >= expiryTime) {
-      hasExpiredFiles = true;
-      
-      // 异步删除Cloudinary文件（不阻塞）
-      deleteFileFromCloudinary(file.publicId, file.fileType)
-        .then(() => console.log(`已删除过期文件: ${file.fileName}`))
-        .catch(error => console.error(`删除过期文件失败: ${file.fileName}`, error));
-    } else {
-      validFiles.push(file);
-    }
-  }
-  
-  // 如果有过期文件，更新本地存储
-  if (hasExpiredFiles && isClient) {
+  if (expiredFiles.length > 0) {
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(validFiles));
-      console.log(`已清理 ${files.length - validFiles.length} 个过期文件`);
+      await moveFilesToTrash(expiredFiles.map(file => file.id), 'expired');
+      console.log(`已将 ${expiredFiles.length} 个过期文件移入回收站`);
     } catch (error) {
       console.error('更新存储失败:', error);
     }
   }
-  
+
+  // 后台清除超过保留期的回收站文件（不阻塞UI）
+  purgeExpiredTrash(files).catch(error => console.error('清理回收站失败:', error));
+
   return validFiles;
 }
 
 /**
- * 获取存储的文件列表
+ * 获取存储的文件列表（不含回收站中的文件）
  * @returns 文件信息数组
  */
-export function getStoredFiles(): FileInfo[] {
+export async function getStoredFiles(): Promise<FileInfo[]> {
   if (!isClient) return [];
-  
+
   try {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (!stored) return [];
-    
-    const files = JSON.parse(stored);
+    const store = await getFileIndexStore();
+    const files = await store.getAll();
     // 验证数据格式并过滤无效数据
-    const validFiles = files.filter((file: any) => 
-      file && 
-      typeof file.id === 'string' &&
-      typeof file.fileName === 'string' &&
-      typeof file.cloudinaryUrl === 'string'
-    );
-    
+    const validFiles = files.filter(isValidFileRecord);
+
     // 自动清理过期文件
-    return cleanupExpiredFilesSync(validFiles);
+    return await cleanupExpiredFiles(validFiles);
   } catch (error) {
     console.error('读取文件列表失败:', error);
-    // 清除损坏的数据
-    localStorage.removeItem(STORAGE_KEY);
     return [];
   }
 }
@@ -136,26 +76,16 @@ export function getStoredFiles(): FileInfo[] {
  * 保存文件信息到存储
  * @param fileInfo 要保存的文件信息
  */
-export function saveFileToStorage(fileInfo: FileInfo): void {
+export async function saveFileToStorage(fileInfo: FileInfo): Promise<void> {
   if (!isClient) {
     console.warn('无法在服务器端保存文件信息');
     return;
   }
 
   try {
-    const files = getStoredFiles();
-    // 检查是否已存在相同ID的文件
-    const existingIndex = files.findIndex(file => file.id === fileInfo.id);
-    
-    if (existingIndex >= 0) {
-      // 更新现有文件信息
-      files[existingIndex] = fileInfo;
-    } else {
-      // 添加新文件信息
-      files.push(fileInfo);
-    }
-    
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(files));
+    const store = await getFileIndexStore();
+    // 已存在相同ID的文件时覆盖，否则新增
+    await store.putMany([fileInfo]);
   } catch (error) {
     console.error('保存文件信息失败:', error);
     throw new Error('保存文件信息失败，可能是存储空间不足');
@@ -163,23 +93,17 @@ export function saveFileToStorage(fileInfo: FileInfo): void {
 }
 
 /**
- * 从存储中删除文件
+ * 从文件列表中删除文件（移入回收站，保留期结束后彻底删除）
  * @param fileId 要删除的文件ID
  */
-export function deleteFileFromStorage(fileId: string): void {
+export async function deleteFileFromStorage(fileId: string): Promise<void> {
   if (!isClient) {
     console.warn('无法在服务器端删除文件信息');
     return;
   }
 
   try {
-    const files = getStoredFiles();
-    const updatedFiles = files.filter(file => file.id !== fileId);
-    
-    // 只有实际删除了文件才更新存储
-    if (updatedFiles.length !== files.length) {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(updatedFiles));
-    }
+    await moveFilesToTrash([fileId]);
   } catch (error) {
     console.error('删除文件信息失败:', error);
     throw new Error('删除文件信息失败');
@@ -187,10 +111,10 @@ export function deleteFileFromStorage(fileId: string): void {
 }
 
 /**
- * 批量删除文件
+ * 批量删除文件（移入回收站）
  * @param fileIds 要删除的文件ID数组
  */
-export function batchDeleteFilesFromStorage(fileIds: string[]): void {
+export async function batchDeleteFilesFromStorage(fileIds: string[]): Promise<void> {
   if (!isClient) {
     console.warn('无法在服务器端删除文件信息');
     return;
@@ -199,10 +123,7 @@ export function batchDeleteFilesFromStorage(fileIds: string[]): void {
   if (!fileIds || fileIds.length === 0) return;
 
   try {
-    const files = getStoredFiles();
-    const updatedFiles = files.filter(file => !fileIds.includes(file.id));
-    
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(updatedFiles));
+    await moveFilesToTrash(fileIds);
   } catch (error) {
     console.error('批量删除文件失败:', error);
     throw new Error('批量删除文件失败');
@@ -214,8 +135,8 @@ export function batchDeleteFilesFromStorage(fileIds: string[]): void {
  * @param fileId 文件ID
  * @returns 文件信息或undefined
  */
-export function getFileById(fileId: string): FileInfo | undefined {
-  const files = getStoredFiles();
+export async function getFileById(fileId: string): Promise<FileInfo | undefined> {
+  const files = await getStoredFiles();
   return files.find(file => file.id === fileId);
 }
 
@@ -224,40 +145,90 @@ export function getFileById(fileId: string): FileInfo | undefined {
  * @param fileId 文件ID
  * @param updates 要更新的字段
  */
-export function updateFileInStorage(fileId: string, updates: Partial<FileInfo>): void {
+export async function updateFileInStorage(fileId: string, updates: Partial<FileInfo>): Promise<void> {
   if (!isClient) {
     console.warn('无法在服务器端更新文件信息');
     return;
   }
 
   try {
-    const files = getStoredFiles();
-    const fileIndex = files.findIndex(file => file.id === fileId);
-    
-    if (fileIndex === -1) {
+    const store = await getFileIndexStore();
+    // 合并更新（在写入锁内完成读-改-写）
+    const updated = await store.update(fileId, updates);
+
+    if (!updated) {
       throw new Error('文件不存在');
     }
-    
-    // 合并更新
-    files[fileIndex] = { ...files[fileIndex], ...updates };
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(files));
   } catch (error) {
     console.error('更新文件信息失败:', error);
     throw new Error('更新文件信息失败');
   }
 }
 
+/**
+ * 修改文件标签
+ * 已上传到Cloudinary的资源标签不会随之修改（无签名上传无权修改资源）
+ * @param fileId 文件ID
+ * @param tags 新的标签
+ * @returns 规范化后的标签
+ */
+export async function updateFileTags(fileId: string, tags: string[]): Promise<string[]> {
+  const normalizedTags = dedupeTags(tags);
+  await updateFileInStorage(fileId, { tags: normalizedTags });
+  return normalizedTags;
+}
+
+/**
+ * 延长文件有效期
+ * 选择"永久"时文件不再过期，其他选项在当前过期时间基础上累加
+ * @param fileIds 文件ID数组
+ * @param option 延长的有效期选项
+ * @returns 更新后的文件信息
+ */
+export async function extendFileExpiry(fileIds: string[], option: ExpiryOption): Promise<FileInfo[]> {
+  if (!isClient) {
+    console.warn('无法在服务器端更新文件信息');
+    return [];
+  }
+
+  try {
+    const indexStore = await getFileIndexStore();
+
+    // 在写入锁内基于最新的过期时间累加，同时延长时不会丢失其他标签页的修改
+    return await indexStore.withWriteLock(async store => {
+      const updatedFiles: FileInfo[] = [];
+
+      for (const fileId of fileIds) {
+        const file = await store.get(fileId);
+        if (!file) continue;
+
+        const expiresAt = option === 'never' ? computeExpiresAt('never') : extendExpiresAt(file.expiresAt, option);
+        const updated = await store.update(fileId, { expiresAt });
+        if (updated) {
+          updatedFiles.push(updated);
+        }
+      }
+
+      return updatedFiles;
+    });
+  } catch (error) {
+    console.error('延长有效期失败:', error);
+    throw new Error('延长有效期失败');
+  }
+}
+
 /**
  * 清空所有存储的文件信息
  */
-export function clearAllFiles(): void {
+export async function clearAllFiles(): Promise<void> {
   if (!isClient) {
     console.warn('无法在服务器端清空文件信息');
     return;
   }
 
   try {
-    localStorage.removeItem(STORAGE_KEY);
+    const store = await getFileIndexStore();
+    await store.clear();
   } catch (error) {
     console.error('清空文件列表失败:', error);
     throw new Error('清空文件列表失败');
@@ -268,24 +239,24 @@ export function clearAllFiles(): void {
  * 获取存储统计信息
  * @returns 存储统计
  */
-export function getStorageStats(): {
+export async function getStorageStats(): Promise<{
   totalFiles: number;
   totalSize: number;
   storageUsed: string;
-} {
-  const files = getStoredFiles();
+}> {
+  const files = await getStoredFiles();
   const totalSize = files.reduce((sum, file) => sum + file.fileSize, 0);
-  
+
   let storageUsed = '0';
   try {
     if (isClient) {
-      const storageData = localStorage.getItem(STORAGE_KEY) || '';
+      const storageData = JSON.stringify(files);
       storageUsed = (new Blob([storageData]).size / 1024).toFixed(2) + 'KB';
     }
   } catch (error) {
     console.warn('无法计算存储使用量:', error);
   }
-  
+
   return {
     totalFiles: files.length,
     totalSize,
@@ -294,57 +265,102 @@ export function getStorageStats(): {
 }
 
 /**
- * 导出文件列表为JSON
+ * 导出文件列表为JSON（带数据版本号，包含回收站中的文件）
  * @returns JSON字符串
  */
-export function exportFilesAsJson(): string {
-  const files = getStoredFiles();
-  return JSON.stringify(files, null, 2);
+export async function exportFilesAsJson(): Promise<string> {
+  const store = await getFileIndexStore();
+  const files = (await store.getAll()).filter(isValidFileRecord);
+  return JSON.stringify(createFileIndexEnvelope(files), null, 2);
 }
 
 /**
  * 从JSON导入文件列表
+ * 支持旧版纯数组格式和带版本号的信封格式，旧版本数据会先迁移到当前版本
  * @param jsonData JSON字符串
  * @param merge 是否合并到现有列表
  */
-export function importFilesFromJson(jsonData: string, merge: boolean = false): void {
+export async function importFilesFromJson(jsonData: string, merge: boolean = false): Promise<void> {
   if (!isClient) {
     throw new Error('无法在服务器端导入文件');
   }
 
   try {
-    const importedFiles: FileInfo[] = JSON.parse(jsonData);
-    
-    // 验证导入的数据格式
-    if (!Array.isArray(importedFiles)) {
-      throw new Error('导入的数据格式不正确');
-    }
-    
-    const validFiles = importedFiles.filter((file: any) => 
-      file && 
-      typeof file.id === 'string' &&
-      typeof file.fileName === 'string' &&
-      typeof file.cloudinaryUrl === 'string'
-    );
-    
-    if (validFiles.length !== importedFiles.length) {
-      console.warn(`导入数据中有 ${importedFiles.length - validFiles.length} 个无效文件被跳过`);
+    const parsed = JSON.parse(jsonData);
+    const importedCount = Array.isArray(parsed) ? parsed.length : parsed?.files?.length ?? 0;
+
+    // 解析版本信封并迁移到当前版本
+    const { version, files: validFiles } = unwrapFileIndex(parsed);
+
+    if (validFiles.length !== importedCount) {
+      console.warn(`导入数据中有 ${importedCount - validFiles.length} 个无效文件被跳过`);
     }
-    
-    let finalFiles = validFiles;
-    
+    console.log(`导入数据版本 v${version}，共 ${validFiles.length} 个文件`);
+
+    const store = await getFileIndexStore();
+
     if (merge) {
-      const existingFiles = getStoredFiles();
-      const existingIds = new Set(existingFiles.map(f => f.id));
-      
       // 只添加不存在的文件
-      const newFiles = validFiles.filter(file => !existingIds.has(file.id));
-      finalFiles = [...existingFiles, ...newFiles];
+      await store.addMissing(validFiles);
+    } else {
+      await store.replaceAll(validFiles);
     }
-    
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(finalFiles));
   } catch (error) {
     console.error('导入文件列表失败:', error);
-    throw new Error('导入文件列表失败，请检查数据格式');
+    const reason = error instanceof Error && error.message.startsWith('数据版本') ? error.message : '请检查数据格式';
+    throw new Error(`导入文件列表失败，${reason}`);
   }
-}
\ No newline at end of file
+}
+
+/**
+ * 将隔离数据中抢救出的文件记录恢复到文件列表
+ * 已存在的文件以当前列表为准，恢复完成后删除隔离数据
+ * @param quarantineId 隔离数据ID
+ * @returns 实际恢复的文件数量
+ */
+export async function restoreQuarantinedFiles(quarantineId: string): Promise<number> {
+  if (!isClient) {
+    throw new Error('无法在服务器端恢复文件');
+  }
+
+  const entry = getQuarantinedIndexes().find(item => item.id === quarantineId);
+  if (!entry) {
+    throw new Error('隔离数据不存在');
+  }
+
+  try {
+    const store = await getFileIndexStore();
+    const restoredFiles = await store.addMissing(entry.salvagedFiles);
+
+    discardQuarantinedIndex(quarantineId);
+
+    return restoredFiles.length;
+  } catch (error) {
+    console.error('恢复隔离文件失败:', error);
+    throw new Error('恢复文件失败，请先下载原始数据备份');
+  }
+}
+
+/**
+ * 读取保存的上传者名称
+ * @returns 上传者名称，未设置时为空字符串
+ */
+export function getUploaderName(): string {
+  if (!isClient) return '';
+  return localStorage.getItem(UPLOADER_NAME_STORAGE_KEY) || '';
+}
+
+/**
+ * 保存上传者名称（记录在之后上传的文件中，为空时清除）
+ * @param name 上传者名称
+ */
+export function setUploaderName(name: string): void {
+  if (!isClient) return;
+
+  const trimmed = name.trim().slice(0, MAX_UPLOADER_NAME_LENGTH);
+  if (trimmed) {
+    localStorage.setItem(UPLOADER_NAME_STORAGE_KEY, trimmed);
+  } else {
+    localStorage.removeItem(UPLOADER_NAME_STORAGE_KEY);
+  }
+}
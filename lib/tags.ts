@@ -0,0 +1,102 @@
+import { FileInfo, FilterOptions } from './types';
+
+/**
+ * 文件标签
+ * 标签为用户自定义的文本，不区分大小写去重，上传时同步写入Cloudinary资源标签
+ */
+
+// 单个标签最大长度
+export const MAX_TAG_LENGTH = 30;
+
+// 单个文件最多标签数
+export const MAX_TAGS_PER_FILE = 20;
+
+// 系统内部使用的Cloudinary标签，用户标签不能与之重名
+const RESERVED_TAG_PATTERN = /^(upload-center|file-[0-9a-z]+)$/i;
+
+/**
+ * 规范化标签：去除首尾空白、合并连续空白、移除逗号等分隔符
+ * @param tag 原始标签
+ * @returns 规范化后的标签，无效时返回空字符串
+ */
+export function normalizeTag(tag: string): string {
+  return tag
+    .replace(/[,，;；]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, MAX_TAG_LENGTH);
+}
+
+/**
+ * 解析用户输入的标签文本（支持中英文逗号、分号分隔）
+ * @param input 输入文本
+ * @returns 标签数组
+ */
+export function parseTagInput(input: string): string[] {
+  return input.split(/[,，;；]/).map(normalizeTag).filter(Boolean);
+}
+
+/**
+ * 合并标签并按不区分大小写的方式去重
+ * @param tags 标签数组
+ * @returns 去重后的标签数组（保留首次出现的写法）
+ */
+export function dedupeTags(tags: string[]): string[] {
+  const seen = new Set<string>();
+  const result: string[] = [];
+
+  for (const tag of tags.map(normalizeTag)) {
+    const key = tag.toLowerCase();
+    if (!tag || seen.has(key)) continue;
+    seen.add(key);
+    result.push(tag);
+  }
+
+  return result.slice(0, MAX_TAGS_PER_FILE);
+}
+
+/**
+ * 收集全部文件中出现过的标签（用于自动补全）
+ * @param files 文件列表
+ * @returns 按名称排序的标签数组
+ */
+export function collectAllTags(files: FileInfo[]): string[] {
+  return dedupeTags(files.flatMap(file => file.tags || []))
+    .sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * 判断文件是否满足标签筛选条件
+ * @param file 文件信息
+ * @param tags 筛选标签（为空时不筛选）
+ * @param mode and: 需包含全部标签；or: 包含任一标签
+ */
+export function matchesTags(file: FileInfo, tags: string[], mode: FilterOptions['tagMatchMode']): boolean {
+  if (tags.length === 0) return true;
+
+  const fileTags = new Set((file.tags || []).map(tag => tag.toLowerCase()));
+  const wanted = tags.map(tag => tag.toLowerCase());
+
+  return mode === 'and'
+    ? wanted.every(tag => fileTags.has(tag))
+    : wanted.some(tag => fileTags.has(tag));
+}
+
+/**
+ * 从Cloudinary资源标签中提取用户标签（去掉系统内部标签）
+ * @param tags 资源标签
+ * @returns 用户标签数组
+ */
+export function fromCloudinaryTags(tags: string[]): string[] {
+  return toCloudinaryTags(tags);
+}
+
+/**
+ * 转换为可上传到Cloudinary的标签
+ * Cloudinary标签以逗号分隔，且不能与系统内部标签重名
+ * @param tags 用户标签
+ * @returns 可安全上传的标签数组
+ */
+export function toCloudinaryTags(tags: string[]): string[] {
+  return dedupeTags(tags).filter(tag => !RESERVED_TAG_PATTERN.test(tag));
+}
@@ -0,0 +1,206 @@
+import { FileInfo } from './types';
+import { getFileIndexStore } from './file-index-store';
+import { DEFAULT_EXPIRY_OPTION, computeExpiresAt, isFileExpired } from './expiry';
+import { getFileStorageProvider } from './storage-provider';
+import { getAllVersions, getVersionPublicIds } from './versions';
+
+/**
+ * 回收站
+ * 删除或过期的文件先标记为已删除并在回收站中保留一段时间，
+ * 保留期结束后才真正从本地存储和云端存储服务中清除
+ */
+
+// 回收站保留天数设置的存储键名
+const RETENTION_STORAGE_KEY = 'trash-retention-days';
+
+// 默认保留天数
+export const DEFAULT_TRASH_RETENTION_DAYS = 7;
+
+// 可选的保留天数
+export const TRASH_RETENTION_OPTIONS = [1, 3, 7, 14, 30];
+
+// 检查是否在客户端环境
+const isClient = typeof window !== 'undefined';
+
+/**
+ * 获取回收站保留天数
+ * @returns 保留天数
+ */
+export function getTrashRetentionDays(): number {
+  if (!isClient) return DEFAULT_TRASH_RETENTION_DAYS;
+
+  const stored = parseInt(localStorage.getItem(RETENTION_STORAGE_KEY) || '');
+  return stored > 0 ? stored : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * 设置回收站保留天数
+ * @param days 保留天数
+ */
+export function setTrashRetentionDays(days: number): void {
+  if (!isClient || !(days > 0)) return;
+  localStorage.setItem(RETENTION_STORAGE_KEY, String(days));
+}
+
+/**
+ * 判断文件是否在回收站中
+ * @param file 文件信息
+ */
+export function isTrashed(file: FileInfo): boolean {
+  return Boolean(file.deletedAt);
+}
+
+/**
+ * 计算回收站中文件的彻底清除时间
+ * @param file 回收站中的文件
+ * @returns 清除时间戳
+ */
+export function getPurgeTime(file: FileInfo): number {
+  return new Date(file.deletedAt || 0).getTime() + getTrashRetentionDays() * 24 * 60 * 60 * 1000;
+}
+
+/**
+ * 将文件移入回收站
+ * @param fileIds 文件ID数组
+ * @param reason 移入原因
+ */
+export async function moveFilesToTrash(fileIds: string[], reason: 'deleted' | 'expired' = 'deleted'): Promise<void> {
+  if (!isClient || fileIds.length === 0) return;
+
+  const indexStore = await getFileIndexStore();
+  const deletedAt = new Date().toISOString();
+
+  await indexStore.withWriteLock(async store => {
+    for (const fileId of fileIds) {
+      await store.update(fileId, { deletedAt, deleteReason: reason });
+    }
+  });
+}
+
+/**
+ * 获取回收站中的文件（按删除时间倒序）
+ * @returns 回收站文件列表
+ */
+export async function getTrashedFiles(): Promise<FileInfo[]> {
+  if (!isClient) return [];
+
+  try {
+    const store = await getFileIndexStore();
+    const files = await store.getAll();
+    return files
+      .filter(isTrashed)
+      .sort((a, b) => (b.deletedAt || '').localeCompare(a.deletedAt || ''));
+  } catch (error) {
+    console.error('读取回收站失败:', error);
+    return [];
+  }
+}
+
+/**
+ * 从回收站恢复文件
+ * 已过期的文件按上传时选择的有效期重新计时
+ * @param fileIds 文件ID数组
+ */
+export async function restoreFilesFromTrash(fileIds: string[]): Promise<void> {
+  if (!isClient || fileIds.length === 0) return;
+
+  try {
+    const indexStore = await getFileIndexStore();
+    const now = Date.now();
+
+    // 在写入锁内读取最新记录再修改，避免覆盖其他标签页同时做出的修改
+    await indexStore.withWriteLock(async store => {
+      for (const fileId of fileIds) {
+        const file = await store.get(fileId);
+        if (!file || !isTrashed(file)) continue;
+
+        await store.update(fileId, {
+          deletedAt: undefined,
+          deleteReason: undefined,
+          ...(isFileExpired(file, now)
+            ? { expiresAt: computeExpiresAt(file.expiryOption || DEFAULT_EXPIRY_OPTION, now) }
+            : {}),
+        });
+      }
+    });
+  } catch (error) {
+    console.error('恢复文件失败:', error);
+    throw new Error('恢复文件失败');
+  }
+}
+
+/**
+ * 彻底删除回收站中的文件（同时从各版本所在的存储服务删除该文件所有版本）
+ * 以最新读取的记录为准，已被恢复、重新删除或上传了新版本的文件不会被清除；
+ * 远程删除在写入锁外进行，避免删除期间阻塞其他标签页的写入
+ * @param files 要清除的文件
+ * @returns 删除失败的文件数量
+ */
+export async function purgeFilesFromTrash(files: FileInfo[]): Promise<number> {
+  if (!isClient || files.length === 0) return 0;
+
+  const indexStore = await getFileIndexStore();
+  const allFiles = await indexStore.getAll();
+
+  // 只清除仍处于同一次删除状态的文件
+  const requested = new Map(files.map(file => [file.id, file.deletedAt]));
+  const isStillRequested = (file: FileInfo) =>
+    requested.has(file.id) && isTrashed(file) && file.deletedAt === requested.get(file.id);
+  const toPurge = allFiles.filter(isStillRequested);
+
+  // 复用同一云端文件的其他记录仍在使用时，不删除云端文件
+  const purgeIdSet = new Set(toPurge.map(file => file.id));
+  const remainingFiles = allFiles.filter(file => !purgeIdSet.has(file.id));
+  const sharedPublicIds = new Set(remainingFiles.flatMap(getVersionPublicIds));
+
+  let failedCount = 0;
+  const purgedIds: string[] = [];
+  for (const file of toPurge) {
+    try {
+      const deletedPublicIds = new Set<string>();
+      for (const version of getAllVersions(file)) {
+        const { publicId } = version;
+        if (!publicId || sharedPublicIds.has(publicId) || deletedPublicIds.has(publicId)) continue;
+        await getFileStorageProvider(version).delete(publicId, version.fileType);
+        deletedPublicIds.add(publicId);
+      }
+      purgedIds.push(file.id);
+    } catch (error) {
+      failedCount++;
+      console.error(`彻底删除文件失败: ${file.fileName}`, error);
+    }
+  }
+
+  // 只移除云端删除成功的记录，失败的留待下次重试；
+  // 删除期间被其他标签页恢复的文件内容已不存在，同样移除并提示
+  if (purgedIds.length > 0) {
+    await indexStore.withWriteLock(async store => {
+      for (const fileId of purgedIds) {
+        const file = await store.get(fileId);
+        if (file && !isStillRequested(file)) {
+          console.warn(`文件在彻底删除期间被恢复或修改，其内容已从存储服务删除: ${file.fileName}`);
+        }
+      }
+      await store.removeMany(purgedIds);
+    });
+  }
+
+  return failedCount;
+}
+
+/**
+ * 清除超过保留期的回收站文件
+ * @param files 全部文件（含回收站）
+ */
+export async function purgeExpiredTrash(files: FileInfo[]): Promise<void> {
+  const now = Date.now();
+  const toPurge = files.filter(file => isTrashed(file) && getPurgeTime(file) <= now);
+
+  if (toPurge.length === 0) return;
+
+  console.log(`回收站中有 ${toPurge.length} 个文件超过保留期，正在彻底删除...`);
+  const failedCount = await purgeFilesFromTrash(toPurge);
+  if (failedCount > 0) {
+    console.warn(`${failedCount} 个文件彻底删除失败，将在下次清理时重试`);
+  }
+}
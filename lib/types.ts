@@ -1,20 +1,173 @@
+import type { RefObject } from 'react';
+
 // 文件信息接口
 export interface FileInfo {
   id: string;                 // 文件唯一标识符
   fileName: string;           // 原始文件名
   uploadTime: string;         // ISO格式上传时间
-  expiresAt: string;          // ISO格式过期时间（24小时后）
+  expiresAt: string | null;   // ISO格式过期时间（null表示永久有效）
+  expiryOption?: ExpiryOption;  // 上传时选择的有效期
   fileSize: number;           // 文件大小（字节）
   cloudinaryUrl: string;      // Cloudinary存储URL
   fileType: string;           // MIME类型
-  publicId: string;           // Cloudinary公共ID（用于删除）
+  publicId: string;           // Cloudinary公共ID / S3对象键（用于删除）
+  storageProvider?: StorageProviderId;  // 文件所在的存储服务（缺省为cloudinary）
+  parentId?: string | null;   // 所属文件夹ID（空表示根目录）
+  relativePath?: string;      // 随文件夹上传时的相对路径（如 客户A/合同/报价.docx）
+  tags?: string[];            // 用户自定义标签
+  uploader?: string;          // 上传者名称
+  contentHash?: string;       // 文件内容SHA-256（十六进制，用于识别重复文件）
+  metadataStripped?: boolean; // 上传前是否已去除图片的EXIF/GPS等元数据
+  encryptionKey?: string;     // 端到端加密密钥（base64url，只保存在本地并放在下载链接的#片段中）
+  version?: number;           // 当前版本号（从1开始，缺省视为1）
+  versions?: FileVersion[];   // 历史版本（按版本号倒序，不含当前版本）
+  deletedAt?: string;         // ISO格式移入回收站时间（未删除时为空）
+  deleteReason?: 'deleted' | 'expired';  // 移入回收站原因
+}
+
+// 带版本号的文件索引信封（持久化与导出格式）
+export interface FileIndexEnvelope {
+  version: number;            // 数据版本号
+  updatedAt: string;          // ISO格式写入时间
+  files: FileInfo[];          // 文件列表
+}
+
+// 被隔离的损坏文件索引
+export interface QuarantinedIndex {
+  id: string;                 // 隔离数据ID（存储键名）
+  sourceKey: string;          // 原始存储键名
+  quarantinedAt: string;      // ISO格式隔离时间
+  rawSize: number;            // 原始数据长度（字符）
+  salvagedFiles: FileInfo[];  // 可抢救的文件记录
 }
 
-// 上传进度接口
-export interface UploadProgress {
+// 文件索引变更通知（跨标签页广播）
+export interface IndexChange {
+  type: 'put' | 'remove' | 'replace' | 'clear' | 'folders';  // 变更类型
+  fileIds: string[];          // 受影响的文件ID（文件夹变更时为文件夹ID）
+  sourceTabId: string;        // 发出变更的标签页
+  timestamp: number;          // 变更时间戳
+}
+
+// 文件索引存储接口（IndexedDB / localStorage 实现）
+export interface FileIndexStore {
+  backend: 'indexeddb' | 'localstorage';  // 存储后端类型
+  getAll: () => Promise<FileInfo[]>;  // 获取全部文件信息
+  get: (fileId: string) => Promise<FileInfo | undefined>;  // 根据ID获取文件信息
+  putMany: (files: FileInfo[]) => Promise<void>;  // 新增或覆盖文件信息
+  addMissing: (files: FileInfo[]) => Promise<FileInfo[]>;  // 只新增不存在的文件，返回实际新增的文件
+  update: (fileId: string, updates: Partial<FileInfo>) => Promise<FileInfo | undefined>;  // 合并更新单个文件
+  removeMany: (fileIds: string[]) => Promise<void>;  // 删除文件信息
+  replaceAll: (files: FileInfo[]) => Promise<void>;  // 整体替换文件列表
+  clear: () => Promise<void>;  // 清空文件列表
+  getAllFolders: () => Promise<Folder[]>;  // 获取全部文件夹
+  putFolders: (folders: Folder[]) => Promise<void>;  // 新增或覆盖文件夹
+  removeFolders: (folderIds: string[]) => Promise<void>;  // 删除文件夹
+  // 在写入锁内执行读-改-写（task中须使用传入的store，不能再调用外层存储的写方法，否则会死锁）
+  withWriteLock: <T>(task: (store: FileIndexStore) => Promise<T>) => Promise<T>;
+}
+
+// 文件历史版本接口
+export interface FileVersion {
+  version: number;            // 版本号
+  uploadTime: string;         // ISO格式上传时间
+  fileSize: number;           // 文件大小（字节）
+  fileType: string;           // MIME类型
+  cloudinaryUrl: string;      // 该版本的访问URL
+  publicId: string;           // 该版本的Cloudinary公共ID / S3对象键
+  storageProvider?: StorageProviderId;  // 该版本所在的存储服务
+  contentHash?: string;       // 该版本的内容SHA-256
+  metadataStripped?: boolean; // 该版本上传前是否已去除图片元数据
+  encryptionKey?: string;     // 该版本的端到端加密密钥
+}
+
+// 文件夹接口
+export interface Folder {
+  id: string;                 // 文件夹唯一标识符
+  name: string;               // 文件夹名称
+  parentId: string | null;    // 上级文件夹ID（null表示根目录）
+  createdAt: string;          // ISO格式创建时间
+}
+
+// 文件有效期选项
+export type ExpiryOption = '1h' | '24h' | '7d' | '30d' | 'never';
+
+// 上传任务状态（retrying：暂时性错误后等待自动重试）
+export type UploadJobStatus = 'queued' | 'uploading' | 'retrying' | 'paused' | 'completed' | 'error' | 'cancelled';
+
+// 上传错误分类：network、timeout、server为暂时性错误，会自动重试
+export type UploadErrorKind = 'network' | 'timeout' | 'config' | 'server' | 'aborted' | 'unknown';
+
+// 上传任务接口（通过onUploadProgress通知父组件）
+export interface UploadJob {
+  id: string;                 // 任务唯一标识符（同名文件也互不影响）
   fileName: string;           // 文件名
+  relativePath?: string;      // 随文件夹上传时的相对路径
+  fileSize: number;           // 文件大小（字节），从链接上传且无法预先获取时为0
+  sourceUrl?: string;         // 从链接上传时的远程地址（由Cloudinary服务端抓取）
+  originalSize?: number;      // 预处理（图片压缩、去除元数据）前的大小，未经预处理时为空
+  metadataStripped?: boolean; // 是否已去除图片元数据
+  status: UploadJobStatus;    // 状态
   progress: number;           // 上传进度 0-100
-  status: 'uploading' | 'completed' | 'error';  // 上传状态
+  bytesSent: number;          // 已发送字节数
+  startTime: number | null;   // 首次开始上传的时间戳，排队中为null
+  speed: number;              // 上传速度（字节/秒）
+  eta: number | null;         // 预计剩余时间（秒），未知时为null
+  errorKind?: UploadErrorKind;  // 错误分类（失败或等待重试时）
+  errorCode?: string;         // 错误代码（失败或等待重试时）
+  error?: string;             // 错误信息（失败或等待重试时）
+  retryCount: number;         // 重试次数（含自动重试和手动重试）
+  nextRetryAt?: number | null;  // 下次自动重试的时间戳
+}
+
+// 加密后待上传的文件
+export interface EncryptedUpload {
+  file: File;                 // 密文文件（不含原文件名）
+  key: string;                // base64url格式的密钥
+}
+
+// 上传队列项接口
+export interface UploadQueueItem<T = unknown> extends UploadJob {
+  file: File | null;          // 要上传的文件（从链接上传时为null）
+  encrypted?: EncryptedUpload;  // 加密上传时的密文和密钥（重试和续传沿用同一密文）
+  context: T;                 // 入队时的上传设置
+}
+
+// 加入上传队列的条目：本地文件，或由Cloudinary抓取的远程链接
+export type UploadQueueEntry<T = unknown> =
+  | { file: File; context: T }
+  | { sourceUrl: string; fileName: string; fileSize?: number; context: T };
+
+// 上传队列接口
+export interface UploadQueue<T = unknown> {
+  add: (entries: UploadQueueEntry<T>[]) => string[];  // 加入队列，返回队列项ID
+  pause: (id: string) => void;  // 暂停（中止当前请求，保留进度）
+  resume: (id: string) => void;  // 继续（重新排队）
+  retry: (id: string) => void;  // 重试失败项（沿用原文件，已确认的分块不会重传）
+  cancel: (id: string) => void;  // 取消并移出队列
+  cancelAll: () => void;      // 取消全部未完成的上传
+  remove: (id: string) => void;  // 移除已结束的队列项
+  setConcurrency: (concurrency: number) => void;  // 设置同时上传数
+  getItems: () => UploadQueueItem<T>[];  // 获取全部队列项
+}
+
+// 图片上传前预处理设置
+export interface ImageCompressionSettings {
+  enabled: boolean;           // 是否在上传前压缩图片
+  maxDimension: number;       // 最长边上限（像素），超过时等比缩小
+  quality: number;            // 输出质量（0-1）
+  format: 'image/jpeg' | 'image/webp';  // 输出格式
+}
+
+// 分块上传会话接口（持久化到localStorage，用于断点续传）
+export interface UploadSession {
+  uploadId: string;           // Cloudinary分块上传ID（X-Unique-Upload-Id）
+  fingerprint: string;        // 文件指纹（文件名、大小、修改时间）
+  fileName: string;           // 文件名
+  totalSize: number;          // 文件总大小（字节）
+  chunkSize: number;          // 分块大小（字节）
+  bytesUploaded: number;      // 已被确认的字节数
+  updatedAt: string;          // ISO格式最后更新时间
 }
 
 // 筛选选项接口
@@ -22,6 +175,9 @@ export interface FilterOptions {
   searchTerm: string;         // 搜索关键词
   sortBy: 'fileName' | 'uploadTime' | 'fileSize';  // 排序字段
   sortOrder: 'asc' | 'desc';  // 排序方向
+  scopeToFolder: boolean;     // 搜索是否限定在当前文件夹（含子文件夹）
+  tags: string[];             // 按标签筛选（为空时不筛选）
+  tagMatchMode: 'and' | 'or'; // 多个标签的匹配方式：全部包含 / 包含任一
 }
 
 // Cloudinary上传响应接口
@@ -35,6 +191,68 @@ export interface CloudinaryUploadResponse {
   created_at: string;         // 创建时间
 }
 
+// Cloudinary Admin API返回的资源信息（列出、查询资源时使用）
+export interface CloudinaryAsset {
+  asset_id?: string;          // 资源唯一ID
+  public_id: string;          // Cloudinary公共ID
+  resource_type: 'image' | 'video' | 'raw';  // 资源类型
+  format?: string;            // 文件格式（raw资源可能为空）
+  bytes: number;              // 文件大小
+  url: string;                // 文件访问URL
+  secure_url: string;         // HTTPS访问URL
+  created_at: string;         // 创建时间
+  tags?: string[];            // 资源标签
+  context?: { custom?: Record<string, string> };  // 上下文元数据（上传时写入的键值对）
+}
+
+// 存储服务：cloudinary为无签名上传，s3为S3兼容存储（如MinIO），通过服务端签发的预签名URL上传
+export type StorageProviderId = 'cloudinary' | 's3' | 'local';
+
+// 存储服务上传结果
+export interface StorageUploadResult {
+  url: string;                // 公开访问URL
+  publicId: string;           // 资源标识（Cloudinary公共ID / S3或本地存储的对象键）
+  bytes: number;              // 存储中的文件大小
+  mimeType: string;           // MIME类型
+}
+
+// 存储服务上传进度回调：百分比、已发送字节数
+export type StorageProgressCallback = (progress: number, bytesSent: number) => void;
+
+// 存储服务自动重试回调：重试次数、等待时长（毫秒）、导致重试的错误
+export type StorageRetryCallback = (
+  attempt: number,
+  delay: number,
+  error: Error & { kind: UploadErrorKind; code: string }
+) => void;
+
+// 存储服务接口（Cloudinary / S3 / 本地存储实现）
+export interface StorageProvider {
+  id: StorageProviderId;      // 存储服务标识
+  label: string;              // 显示名称
+  maxUploadSizeMB: number;    // 单个文件大小上限（MB）
+  upload: (
+    file: File,
+    fileInfo?: FileInfo,
+    onProgress?: StorageProgressCallback,
+    signal?: AbortSignal,
+    onRetry?: StorageRetryCallback
+  ) => Promise<StorageUploadResult>;  // 上传文件（带进度，可中止）
+  uploadFromUrl?: (
+    url: string,
+    fileInfo?: FileInfo,
+    onProgress?: StorageProgressCallback,
+    signal?: AbortSignal,
+    onRetry?: StorageRetryCallback
+  ) => Promise<StorageUploadResult>;  // 由存储服务抓取远程文件（不支持时为空）
+  discardUploadProgress?: (file: File) => void;  // 放弃断点续传进度（不支持续传时为空）
+  delete: (publicId: string, fileType?: string) => Promise<void>;  // 删除文件
+  batchDelete: (files: { publicId: string; fileType?: string }[]) => Promise<Omit<BatchOperationResult, 'success'>>;  // 批量删除
+  getPublicUrl: (publicId: string, fileType?: string) => string;  // 根据资源标识生成公开访问URL
+  getPreviewUrl: (url: string) => string;  // 图片缩略图URL（不支持转换时返回原URL）
+  validateConfig: () => { isValid: boolean; missingVars: string[] };  // 检查前端可见的配置
+}
+
 // 文件上传结果接口
 export interface UploadResult {
   success: boolean;           // 是否成功
@@ -53,15 +271,26 @@ export interface BatchOperationResult {
 // 组件属性接口
 export interface FileUploaderProps {
   onUploadComplete: (fileInfo: FileInfo) => void;  // 上传完成回调
-  onUploadProgress?: (progress: UploadProgress) => void;  // 上传进度回调
+  onUploadProgress?: (job: UploadJob) => void;  // 上传任务状态变化回调
   maxFileSize?: number;       // 最大文件大小（MB）
   acceptedTypes?: string[];   // 允许的文件类型
+  folderId?: string | null;   // 上传到的文件夹ID
+  tagSuggestions?: string[];  // 标签自动补全候选
+  existingFiles?: FileInfo[]; // 已有文件（用于识别同名文件并作为新版本上传）
+  concurrency?: number;       // 默认同时上传的文件数
+  pasteTarget?: RefObject<HTMLElement>;  // 响应粘贴上传的页面区域（缺省为上传区本身）
 }
 
 export interface FileListProps {
   files: FileInfo[];          // 文件列表
   onDelete: (fileId: string) => void;  // 删除文件回调
   onBatchDelete: (fileIds: string[]) => void;  // 批量删除回调
+  onExtendExpiry?: (fileIds: string[], option: ExpiryOption) => void;  // 延长有效期回调
+  folders?: Folder[];         // 全部文件夹（用于移动文件）
+  onMoveFiles?: (fileIds: string[], folderId: string | null) => void;  // 移动文件回调
+  onUpdateTags?: (fileId: string, tags: string[]) => void;  // 修改标签回调
+  tagSuggestions?: string[];  // 标签自动补全候选
+  onPromoteVersion?: (fileId: string, version: number) => void;  // 将历史版本设为当前版本回调
   loading?: boolean;          // 加载状态
 }
 
@@ -69,4 +298,6 @@ export interface FileSearchSortProps {
   onFilterChange: (filters: FilterOptions) => void;  // 筛选条件变更回调
   totalCount: number;         // 文件总数
   filteredCount: number;      // 筛选后文件数
+  currentFolderName?: string; // 当前文件夹名称（用于限定搜索范围的提示）
+  availableTags?: string[];   // 可用于筛选的标签
 }
\ No newline at end of file
@@ -0,0 +1,180 @@
+import { UploadErrorKind } from './types';
+
+/**
+ * 上传错误分类与自动重试
+ * 网络错误、超时和服务端错误（5xx、429）视为暂时性错误，按带抖动的指数退避自动重试；
+ * 配置错误（其余4xx、缺少配置）重试也不会成功，直接失败
+ */
+
+// 自动重试的最大次数
+export const MAX_UPLOAD_RETRIES = 3;
+
+// 退避基准时长（毫秒），第n次重试的上限为 基准 × 2^(n-1)
+const RETRY_BASE_DELAY = 1000;
+
+// 单次退避的最长时长（毫秒）
+const RETRY_MAX_DELAY = 30 * 1000;
+
+// 可自动重试的错误分类
+const RETRYABLE_KINDS: UploadErrorKind[] = ['network', 'timeout', 'server'];
+
+// 服务端接口因缺少配置而不可用时返回的错误码，重试也不会成功
+export const CONFIG_MISSING_CODE = 'config_missing';
+
+// 上传错误：在Error基础上附加分类、错误码和HTTP状态码
+export type UploadError = Error & {
+  kind: UploadErrorKind;      // 错误分类
+  code: string;               // 错误码（如network、http_503）
+  status?: number;            // HTTP状态码（服务端返回错误时）
+};
+
+/**
+ * 创建上传错误
+ * @param kind 错误分类
+ * @param message 错误信息
+ * @param code 错误码，默认与分类相同
+ * @param status HTTP状态码
+ */
+export function createUploadError(
+  kind: UploadErrorKind,
+  message: string,
+  code: string = kind,
+  status?: number
+): UploadError {
+  const error = Object.assign(new Error(message), { kind, code, status });
+  if (kind === 'aborted') {
+    error.name = 'AbortError';
+  }
+  return error;
+}
+
+/**
+ * 根据HTTP状态码创建上传错误
+ * 5xx和429（请求过多）归为服务端错误，其余4xx归为配置错误
+ * @param status HTTP状态码
+ */
+export function createHttpUploadError(status: number): UploadError {
+  const kind: UploadErrorKind = status >= 500 || status === 429 ? 'server' : 'config';
+  const message = kind === 'server'
+    ? `服务器暂时不可用 (HTTP ${status})`
+    : `上传被拒绝，请检查上传配置 (HTTP ${status})`;
+  return createUploadError(kind, message, `http_${status}`, status);
+}
+
+/**
+ * 根据服务端接口的错误响应创建上传错误
+ * 带有缺少配置错误码的响应（HTTP 503）归为配置错误，其余按HTTP状态码分类；响应中有错误信息时优先使用
+ * @param status HTTP状态码
+ * @param data 响应内容
+ */
+export function createApiUploadError(status: number, data: { error?: unknown; code?: unknown } | null): UploadError {
+  const error = data?.code === CONFIG_MISSING_CODE
+    ? createUploadError('config', '服务端缺少存储配置', CONFIG_MISSING_CODE, status)
+    : createHttpUploadError(status);
+  if (typeof data?.error === 'string' && data.error) error.message = data.error;
+  return error;
+}
+
+/**
+ * 创建上传中止错误
+ */
+export function createAbortError(): UploadError {
+  return createUploadError('aborted', '上传已中止');
+}
+
+/**
+ * 判断错误是否由中止上传引起
+ * @param error 捕获的错误
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * 获取错误分类（未分类的错误记为unknown）
+ * @param error 捕获的错误
+ */
+export function getUploadErrorKind(error: unknown): UploadErrorKind {
+  if (isAbortError(error)) return 'aborted';
+  const kind = (error as Partial<UploadError> | null)?.kind;
+  return kind || 'unknown';
+}
+
+/**
+ * 获取错误码（未标注错误码的错误记为unknown）
+ * @param error 捕获的错误
+ */
+export function getUploadErrorCode(error: unknown): string {
+  const code = (error as { code?: unknown } | null)?.code;
+  return typeof code === 'string' ? code : 'unknown';
+}
+
+/**
+ * 判断错误是否可自动重试
+ * @param error 捕获的错误
+ */
+export function isRetryableUploadError(error: unknown): boolean {
+  return RETRYABLE_KINDS.includes(getUploadErrorKind(error));
+}
+
+/**
+ * 计算第n次重试前的等待时长（指数退避 + 抖动，避免多个上传同时重试）
+ * @param attempt 重试次数（从1开始）
+ * @returns 等待时长（毫秒）
+ */
+export function getRetryDelay(attempt: number): number {
+  const ceiling = Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+}
+
+/**
+ * 等待指定时长，中止时立即以中止错误结束
+ * @param delay 等待时长（毫秒）
+ * @param signal 中止信号
+ */
+function wait(delay: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+
+    const handleAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', handleAbort);
+      resolve();
+    }, delay);
+    signal?.addEventListener('abort', handleAbort, { once: true });
+  });
+}
+
+/**
+ * 执行上传请求，遇到暂时性错误时自动重试
+ * @param request 上传请求
+ * @param signal 中止信号（等待重试期间也会响应）
+ * @param onRetry 开始等待重试时的回调（重试次数、等待时长、导致重试的错误）
+ * @returns 请求结果
+ */
+export async function withUploadRetry<T>(
+  request: () => Promise<T>,
+  signal?: AbortSignal,
+  onRetry?: (attempt: number, delay: number, error: UploadError) => void
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      if (attempt > MAX_UPLOAD_RETRIES || signal?.aborted || !isRetryableUploadError(error)) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(attempt);
+      console.warn(`[上传重试] 第 ${attempt} 次重试将在 ${delay}ms 后开始:`, error);
+      onRetry?.(attempt, delay, error as UploadError);
+      await wait(delay, signal);
+    }
+  }
+}
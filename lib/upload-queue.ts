@@ -0,0 +1,307 @@
+import { EncryptedUpload, UploadJob, UploadQueue, UploadQueueItem } from './types';
+import { UploadError, getUploadErrorCode, getUploadErrorKind } from './upload-errors';
+import { getRelativePath } from './file-paths';
+import { generateId } from './utils';
+
+/**
+ * 上传队列
+ * 控制同时上传的文件数，支持单个文件的暂停、继续、取消和失败重试，并估算速度和剩余时间
+ */
+
+// 默认同时上传数
+export const DEFAULT_UPLOAD_CONCURRENCY = 3;
+
+// 可选的同时上传数
+export const UPLOAD_CONCURRENCY_OPTIONS = [1, 2, 3, 4, 5];
+
+// 速度采样间隔（毫秒）
+const SPEED_SAMPLE_INTERVAL = 500;
+
+// 速度平滑系数（越小越平滑）
+const SPEED_SMOOTHING = 0.3;
+
+/**
+ * 提取队列项中的上传任务信息（去掉文件对象、密钥和上传上下文）
+ * @param item 队列项
+ * @returns 上传任务
+ */
+export function toUploadJob(item: UploadQueueItem): UploadJob {
+  const { file: _file, encrypted: _encrypted, context: _context, ...job } = item;
+  return job;
+}
+
+// 上传过程中向队列报告状态的回调
+export interface UploadProcessCallbacks {
+  onProgress: (bytesSent: number) => void;  // 报告已发送字节数
+  onRetry: (delay: number, error: UploadError) => void;  // 自动重试前报告等待时长和错误
+  // 上传前预处理（压缩图片、去除元数据）后替换要上传的文件
+  onFileProcessed: (file: File, changes?: Pick<UploadJob, 'metadataStripped'>) => void;
+  // 加密完成后记录密文和密钥（重试、暂停后继续时不再重新加密）
+  onFileEncrypted: (encrypted: EncryptedUpload) => void;
+}
+
+interface UploadQueueOptions<T> {
+  concurrency?: number;       // 同时上传数
+  // 执行单个上传：需在signal中止时尽快结束
+  process: (item: UploadQueueItem<T>, signal: AbortSignal, callbacks: UploadProcessCallbacks) => Promise<void>;
+  onChange: (items: UploadQueueItem<T>[]) => void;  // 队列变化回调
+}
+
+/**
+ * 创建上传队列
+ * @param options 队列配置
+ * @returns 上传队列
+ */
+export function createUploadQueue<T>({
+  concurrency = DEFAULT_UPLOAD_CONCURRENCY,
+  process,
+  onChange,
+}: UploadQueueOptions<T>): UploadQueue<T> {
+  let items: UploadQueueItem<T>[] = [];
+  let limit = concurrency;
+  const controllers = new Map<string, AbortController>();
+  const samples = new Map<string, { time: number; bytes: number }>();
+
+  const emit = () => onChange([...items]);
+
+  const find = (id: string) => items.find(item => item.id === id);
+
+  const update = (id: string, changes: Partial<UploadQueueItem<T>>) => {
+    items = items.map(item => item.id === id ? { ...item, ...changes } : item);
+    emit();
+  };
+
+  // 根据已发送字节数更新进度、速度和剩余时间
+  const handleProgress = (id: string, bytesSent: number) => {
+    const item = find(id);
+    if (!item || (item.status !== 'uploading' && item.status !== 'retrying')) return;
+
+    const changes: Partial<UploadQueueItem<T>> = {
+      bytesSent,
+      progress: item.fileSize > 0 ? Math.min(100, Math.round((bytesSent / item.fileSize) * 100)) : 0,
+    };
+
+    const now = Date.now();
+    const sample = samples.get(id);
+    if (sample && now - sample.time >= SPEED_SAMPLE_INTERVAL) {
+      const instant = Math.max(0, bytesSent - sample.bytes) / ((now - sample.time) / 1000);
+      const speed = item.speed > 0 ? item.speed * (1 - SPEED_SMOOTHING) + instant * SPEED_SMOOTHING : instant;
+      samples.set(id, { time: now, bytes: bytesSent });
+      changes.speed = speed;
+      changes.eta = speed > 0 ? Math.max(0, item.fileSize - bytesSent) / speed : null;
+    }
+
+    // 自动重试的请求已开始发送
+    if (item.status === 'retrying') {
+      changes.status = 'uploading';
+      changes.nextRetryAt = null;
+    }
+
+    update(id, changes);
+  };
+
+  // 替换为预处理后的文件，记录原始大小（重试时不再重复处理）
+  const handleFileProcessed = (id: string, file: File, changes?: Pick<UploadJob, 'metadataStripped'>) => {
+    const item = find(id);
+    if (!item) return;
+
+    update(id, {
+      ...changes,
+      file,
+      fileName: file.name,
+      fileSize: file.size,
+      originalSize: item.originalSize ?? item.fileSize,
+    });
+  };
+
+  // 进入等待自动重试状态
+  const handleRetry = (id: string, delay: number, error: UploadError) => {
+    const item = find(id);
+    if (!item || (item.status !== 'uploading' && item.status !== 'retrying')) return;
+
+    update(id, {
+      status: 'retrying',
+      errorKind: error.kind,
+      errorCode: error.code,
+      error: error.message,
+      retryCount: item.retryCount + 1,
+      nextRetryAt: Date.now() + delay,
+      speed: 0,
+      eta: null,
+    });
+  };
+
+  // 启动排队中的上传，直到达到同时上传数
+  const pump = () => {
+    const running = items.filter(item => item.status === 'uploading' || item.status === 'retrying').length;
+    items
+      .filter(item => item.status === 'queued')
+      .slice(0, Math.max(0, limit - running))
+      .forEach(start);
+  };
+
+  const start = async (item: UploadQueueItem<T>) => {
+    const controller = new AbortController();
+    controllers.set(item.id, controller);
+    samples.set(item.id, { time: Date.now(), bytes: item.bytesSent });
+    update(item.id, {
+      status: 'uploading',
+      startTime: item.startTime ?? Date.now(),
+      error: undefined,
+      errorKind: undefined,
+      errorCode: undefined,
+      nextRetryAt: null,
+      speed: 0,
+      eta: null,
+    });
+
+    try {
+      await process(find(item.id) || item, controller.signal, {
+        onProgress: bytesSent => handleProgress(item.id, bytesSent),
+        onRetry: (delay, error) => handleRetry(item.id, delay, error),
+        onFileProcessed: (file, changes) => handleFileProcessed(item.id, file, changes),
+        onFileEncrypted: encrypted => update(item.id, { encrypted }),
+      });
+      if (!controller.signal.aborted) {
+        update(item.id, {
+          status: 'completed',
+          progress: 100,
+          bytesSent: find(item.id)?.fileSize ?? item.fileSize,
+          error: undefined,
+          errorKind: undefined,
+          errorCode: undefined,
+          nextRetryAt: null,
+          speed: 0,
+          eta: 0,
+        });
+      }
+    } catch (error) {
+      // 暂停或取消时状态已由对应操作设置
+      if (!controller.signal.aborted) {
+        update(item.id, {
+          status: 'error',
+          error: error instanceof Error ? error.message : '上传失败',
+          errorKind: getUploadErrorKind(error),
+          errorCode: getUploadErrorCode(error),
+          nextRetryAt: null,
+          speed: 0,
+          eta: null,
+        });
+      }
+    } finally {
+      // 暂停后立即继续时，新的上传已经替换了控制器
+      if (controllers.get(item.id) === controller) {
+        controllers.delete(item.id);
+        samples.delete(item.id);
+      }
+      pump();
+    }
+  };
+
+  const abort = (id: string) => {
+    controllers.get(id)?.abort();
+    controllers.delete(id);
+    samples.delete(id);
+  };
+
+  // 先通知已取消状态，再从队列中移除
+  const cancel = (id: string) => {
+    if (!find(id)) return;
+
+    abort(id);
+    update(id, { status: 'cancelled', speed: 0, eta: null });
+    items = items.filter(item => item.id !== id);
+    emit();
+    pump();
+  };
+
+  return {
+    add(entries) {
+      const newItems: UploadQueueItem<T>[] = entries.map(entry => ({
+        id: generateId(),
+        ...('file' in entry
+          ? {
+            file: entry.file,
+            fileName: entry.file.name,
+            relativePath: getRelativePath(entry.file),
+            fileSize: entry.file.size,
+          }
+          : { file: null, fileName: entry.fileName, fileSize: entry.fileSize || 0, sourceUrl: entry.sourceUrl }),
+        context: entry.context,
+        status: 'queued',
+        progress: 0,
+        bytesSent: 0,
+        startTime: null,
+        speed: 0,
+        eta: null,
+        retryCount: 0,
+      }));
+
+      items = [...items, ...newItems];
+      emit();
+      pump();
+      return newItems.map(item => item.id);
+    },
+
+    pause(id) {
+      const item = find(id);
+      if (!item || (item.status !== 'uploading' && item.status !== 'retrying' && item.status !== 'queued')) return;
+
+      abort(id);
+      update(id, { status: 'paused', nextRetryAt: null, speed: 0, eta: null });
+      pump();
+    },
+
+    resume(id) {
+      const item = find(id);
+      if (!item || item.status !== 'paused') return;
+
+      update(id, { status: 'queued' });
+      pump();
+    },
+
+    retry(id) {
+      const item = find(id);
+      if (!item || item.status !== 'error') return;
+
+      update(id, { status: 'queued', retryCount: item.retryCount + 1 });
+      pump();
+    },
+
+    cancel,
+
+    cancelAll() {
+      const cancelled = items.filter(item => item.status !== 'completed');
+      if (cancelled.length === 0) return;
+
+      cancelled.forEach(item => abort(item.id));
+      items = items.map(item =>
+        item.status === 'completed' ? item : { ...item, status: 'cancelled', speed: 0, eta: null }
+      );
+      emit();
+      items = items.filter(item => item.status === 'completed');
+      emit();
+    },
+
+    remove(id) {
+      const item = find(id);
+      if (!item || item.status === 'uploading' || item.status === 'retrying') return;
+
+      // 移除未完成的项（如失败项）视为取消
+      if (item.status !== 'completed') {
+        update(id, { status: 'cancelled' });
+      }
+      items = items.filter(other => other.id !== id);
+      emit();
+    },
+
+    setConcurrency(value) {
+      limit = Math.max(1, value);
+      pump();
+    },
+
+    getItems() {
+      return [...items];
+    },
+  };
+}
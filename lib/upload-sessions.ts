@@ -0,0 +1,112 @@
+import { UploadSession } from './types';
+
+/**
+ * 分块上传会话
+ * 记录每个大文件已被Cloudinary确认的字节数，上传中断（包括刷新页面）后
+ * 重新选择同一文件即可从最后确认的分块继续上传
+ */
+
+// 存储键名
+const SESSIONS_STORAGE_KEY = 'upload-sessions';
+
+// 会话保留时长：超过后Cloudinary端的分块可能已失效，重新上传
+const SESSION_TTL = 24 * 60 * 60 * 1000;
+
+// 会话变更事件（同一页面内的组件据此刷新未完成上传列表）
+export const UPLOAD_SESSIONS_CHANGED_EVENT = 'upload-center:upload-sessions-changed';
+
+// 检查是否在客户端环境
+const isClient = typeof window !== 'undefined';
+
+// 只在当前页面内有效的会话（刷新页面后无法续传的上传，如每次加密结果都不同的加密上传）
+let memorySessions: UploadSession[] = [];
+
+/**
+ * 生成文件指纹，用于在刷新页面后识别同一文件
+ * @param file 文件
+ */
+export function getFileFingerprint(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+/**
+ * 读取全部会话（自动丢弃过期会话）
+ */
+function readSessions(): UploadSession[] {
+  if (!isClient) return [];
+
+  try {
+    const sessions = JSON.parse(localStorage.getItem(SESSIONS_STORAGE_KEY) || '[]');
+    if (!Array.isArray(sessions)) return [];
+
+    const now = Date.now();
+    return sessions.filter((session: UploadSession) =>
+      now - new Date(session.updatedAt).getTime() < SESSION_TTL
+    );
+  } catch (error) {
+    console.error('读取上传会话失败:', error);
+    return [];
+  }
+}
+
+/**
+ * 写入全部会话
+ */
+function writeSessions(sessions: UploadSession[]): void {
+  if (!isClient) return;
+
+  try {
+    if (sessions.length > 0) {
+      localStorage.setItem(SESSIONS_STORAGE_KEY, JSON.stringify(sessions));
+    } else {
+      localStorage.removeItem(SESSIONS_STORAGE_KEY);
+    }
+    window.dispatchEvent(new Event(UPLOAD_SESSIONS_CHANGED_EVENT));
+  } catch (error) {
+    console.error('保存上传会话失败:', error);
+  }
+}
+
+/**
+ * 获取未完成的上传会话
+ * @returns 会话列表（按更新时间倒序）
+ */
+export function getPendingUploadSessions(): UploadSession[] {
+  return readSessions().sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/**
+ * 查找文件对应的上传会话
+ * @param fingerprint 文件指纹
+ */
+export function findUploadSession(fingerprint: string): UploadSession | undefined {
+  return [...memorySessions, ...readSessions()].find(session => session.fingerprint === fingerprint);
+}
+
+/**
+ * 新增或更新上传会话
+ * @param session 上传会话
+ * @param persist 是否持久化（为false时只保存在内存中，不出现在未完成上传列表里）
+ */
+export function saveUploadSession(session: UploadSession, persist: boolean = true): void {
+  const updated = { ...session, updatedAt: new Date().toISOString() };
+  if (!persist) {
+    memorySessions = [...memorySessions.filter(item => item.uploadId !== session.uploadId), updated];
+    return;
+  }
+
+  const sessions = readSessions().filter(item => item.uploadId !== session.uploadId);
+  writeSessions([...sessions, updated]);
+}
+
+/**
+ * 删除上传会话（上传完成或用户放弃时）
+ * @param uploadId 上传会话ID
+ */
+export function removeUploadSession(uploadId: string): void {
+  if (memorySessions.some(session => session.uploadId === uploadId)) {
+    memorySessions = memorySessions.filter(session => session.uploadId !== uploadId);
+    return;
+  }
+  writeSessions(readSessions().filter(session => session.uploadId !== uploadId));
+}
@@ -0,0 +1,173 @@
+import { FILE_HEADER_LENGTH } from './file-signature';
+
+/**
+ * 其他上传来源：剪贴板粘贴和远程链接
+ * 粘贴的截图没有有意义的文件名，按类型和时间生成；远程链接交给Cloudinary服务端抓取
+ */
+
+// 远程文件信息
+export interface RemoteFileInfo {
+  fileName: string;           // 从链接推断的文件名
+  fileSize?: number;          // Content-Length（无法获取时为空）
+  fileType?: string;          // Content-Type（无法获取时为空）
+}
+
+// 探测远程文件信息的超时时间
+const PROBE_TIMEOUT = 5000;
+
+// 没有文件名时使用的默认名称
+const DEFAULT_REMOTE_FILE_NAME = 'remote-file';
+
+// 浏览器为剪贴板图片生成的默认文件名
+const GENERIC_CLIPBOARD_NAMES = ['image.png', 'image.jpg', 'image.jpeg', 'image.gif', 'image.webp', 'blob'];
+
+// 常见MIME类型对应的扩展名
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/svg+xml': 'svg',
+  'image/bmp': 'bmp',
+  'text/plain': 'txt',
+  'text/html': 'html',
+  'application/pdf': 'pdf',
+};
+
+/**
+ * 根据MIME类型获取扩展名
+ * @param mimeType MIME类型
+ */
+function getExtensionForType(mimeType: string): string {
+  if (MIME_EXTENSIONS[mimeType]) return MIME_EXTENSIONS[mimeType];
+  const subtype = mimeType.split('/')[1]?.split(/[+;]/)[0];
+  return subtype && /^[a-z0-9-]+$/i.test(subtype) ? subtype.toLowerCase() : 'bin';
+}
+
+/**
+ * 生成粘贴文件的名称，如 粘贴-20260101-093000.png
+ * @param mimeType 文件类型
+ * @param index 同一次粘贴中的序号（从0开始）
+ * @param date 粘贴时间
+ */
+export function createPastedFileName(mimeType: string, index: number = 0, date: Date = new Date()): string {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  const stamp = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-` +
+    `${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+  const suffix = index > 0 ? `-${index + 1}` : '';
+  return `粘贴-${stamp}${suffix}.${getExtensionForType(mimeType || 'application/octet-stream')}`;
+}
+
+/**
+ * 读取剪贴板中的文件
+ * 截图等没有文件名的图片会生成名称，从系统复制的文件保留原名
+ * @param clipboardData 粘贴事件的剪贴板数据
+ * @returns 文件列表，剪贴板中只有文本时为空
+ */
+export function getClipboardFiles(clipboardData: DataTransfer | null): File[] {
+  if (!clipboardData) return [];
+
+  const now = new Date();
+  return Array.from(clipboardData.items)
+    .filter(item => item.kind === 'file')
+    .map(item => item.getAsFile())
+    .filter((file): file is File => file !== null)
+    .map((file, index) => {
+      const hasName = file.name && !GENERIC_CLIPBOARD_NAMES.includes(file.name.toLowerCase());
+      return hasName
+        ? file
+        : new File([file], createPastedFileName(file.type, index, now), {
+          type: file.type,
+          lastModified: now.getTime(),
+        });
+    });
+}
+
+/**
+ * 解析用户输入的远程文件链接（只接受http/https）
+ * @param input 用户输入
+ * @returns 链接，无效时返回null
+ */
+export function parseRemoteUrl(input: string): URL | null {
+  try {
+    const url = new URL(input.trim());
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 从链接路径推断文件名
+ * @param url 远程链接
+ */
+export function getRemoteFileName(url: URL): string {
+  const lastSegment = url.pathname.split('/').filter(Boolean).pop();
+  if (!lastSegment) return DEFAULT_REMOTE_FILE_NAME;
+
+  try {
+    return decodeURIComponent(lastSegment);
+  } catch {
+    return lastSegment;
+  }
+}
+
+/**
+ * 读取已上传文件的文件头（用于抓取完成后核对实际内容）
+ * 优先使用Range请求，服务器忽略Range时读够文件头后即停止下载
+ * @param url 文件访问URL
+ * @param signal 中止信号
+ * @returns 文件头数据
+ */
+export async function readRemoteFileHeader(url: string, signal?: AbortSignal): Promise<Blob> {
+  const response = await fetch(url, { headers: { Range: `bytes=0-${FILE_HEADER_LENGTH - 1}` }, signal });
+  if (!response.ok || !response.body) {
+    throw new Error(`读取文件失败 (HTTP ${response.status})`);
+  }
+
+  const header = new Uint8Array(FILE_HEADER_LENGTH);
+  let length = 0;
+  const reader = response.body.getReader();
+  try {
+    while (length < FILE_HEADER_LENGTH) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      const take = Math.min(value.length, FILE_HEADER_LENGTH - length);
+      header.set(value.subarray(0, take), length);
+      length += take;
+    }
+  } finally {
+    reader.cancel().catch(() => undefined);
+  }
+
+  return new Blob([header.subarray(0, length)]);
+}
+
+/**
+ * 探测远程文件的大小和类型（HEAD请求）
+ * 目标服务器不允许跨域时无法获取，交由Cloudinary在抓取时校验
+ * @param url 远程链接
+ * @returns 远程文件信息
+ */
+export async function probeRemoteFile(url: URL): Promise<RemoteFileInfo> {
+  const info: RemoteFileInfo = { fileName: getRemoteFileName(url) };
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), PROBE_TIMEOUT);
+
+  try {
+    const response = await fetch(url.href, { method: 'HEAD', signal: controller.signal });
+    if (response.ok) {
+      const length = Number(response.headers.get('content-length'));
+      if (Number.isFinite(length) && length > 0) {
+        info.fileSize = length;
+      }
+      info.fileType = response.headers.get('content-type')?.split(';')[0].trim() || undefined;
+    }
+  } catch (error) {
+    console.warn(`无法获取远程文件信息: ${url.href}`, error);
+  } finally {
+    clearTimeout(timer);
+  }
+
+  return info;
+}
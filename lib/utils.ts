@@ -41,13 +41,29 @@ export function formatDate(dateString: string): string {
   });
 }
 
+// 是否为静态部署（GitHub Pages等）- 静态部署没有服务端接口，需要API Secret的操作不可用
+export function isStaticDeployment(): boolean {
+  return process.env.NEXT_PUBLIC_STATIC_EXPORT === 'true';
+}
+
+// 应用的基础路径 - GitHub Pages等部署在子路径下时由构建环境变量提供，否则为空
+export function getBasePath(): string {
+  return (process.env.NEXT_PUBLIC_BASE_PATH || '').replace(/\/+$/, '');
+}
+
+// 补全为完整链接 - 站内相对路径（如本地存储的文件链接）按当前站点地址补全，完整链接原样返回
+export function toAbsoluteUrl(url: string): string {
+  if (typeof window === 'undefined' || /^[a-z][a-z\d+.-]*:/i.test(url)) return url;
+  return new URL(url, window.location.origin).toString();
+}
+
 // 生成唯一ID - 基于时间戳和随机数
 export function generateId(): string {
   return Date.now().toString(36) + Math.random().toString(36).substr(2);
 }
 
 // 验证文件大小 - 检查文件是否超过指定大小限制
-export function validateFileSize(file: File, maxSizeMB: number = 50): boolean {
+export function validateFileSize(file: Pick<File, 'size'>, maxSizeMB: number = 50): boolean {
   const maxSizeBytes = maxSizeMB * 1024 * 1024;
   return file.size <= maxSizeBytes;
 }
@@ -60,7 +76,7 @@ export function getFileExtension(fileName: string): string {
 }
 
 // 验证文件类型 - 检查文件是否为允许的类型
-export function validateFileType(file: File, allowedTypes?: string[]): boolean {
+export function validateFileType(file: Pick<File, 'name' | 'type'>, allowedTypes?: string[]): boolean {
   if (!allowedTypes || allowedTypes.length === 0) return true;
   
   const fileExtension = getFileExtension(file.name);
@@ -145,6 +161,19 @@ export function calculateUploadTime(startTime: number, endTime: number): string
   }
 }
 
+// 格式化剩余时间
+export function formatDuration(seconds: number): string {
+  if (seconds < 1) {
+    return '< 1秒';
+  } else if (seconds < 60) {
+    return `${Math.round(seconds)}秒`;
+  } else if (seconds < 3600) {
+    return `${Math.floor(seconds / 60)}分${Math.round(seconds % 60)}秒`;
+  } else {
+    return `${Math.floor(seconds / 3600)}小时${Math.floor((seconds % 3600) / 60)}分`;
+  }
+}
+
 // 复制文本到剪贴板
 export async function copyToClipboard(text: string): Promise<boolean> {
   try {
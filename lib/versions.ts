@@ -0,0 +1,205 @@
+import { FileInfo, FileVersion } from './types';
+import { getFileIndexStore } from './file-index-store';
+import { isTrashed } from './trash';
+import { dedupeTags } from './tags';
+
+/**
+ * 文件版本历史
+ * 重新上传同一文件时沿用原文件ID，旧的上传结果保存在versions中，
+ * 每个版本都保留各自的Cloudinary链接
+ */
+
+/**
+ * 获取文件当前版本号
+ * @param file 文件信息
+ */
+export function getCurrentVersion(file: FileInfo): number {
+  return file.version || 1;
+}
+
+/**
+ * 提取文件当前内容作为一条历史版本记录
+ */
+function toFileVersion(file: FileInfo): FileVersion {
+  return {
+    version: getCurrentVersion(file),
+    uploadTime: file.uploadTime,
+    fileSize: file.fileSize,
+    fileType: file.fileType,
+    cloudinaryUrl: file.cloudinaryUrl,
+    publicId: file.publicId,
+    storageProvider: file.storageProvider,
+    contentHash: file.contentHash,
+    metadataStripped: file.metadataStripped,
+    encryptionKey: file.encryptionKey,
+  };
+}
+
+/**
+ * 获取文件全部版本（当前版本在前，其余按版本号倒序）
+ * @param file 文件信息
+ */
+export function getAllVersions(file: FileInfo): FileVersion[] {
+  const history = [...(file.versions || [])].sort((a, b) => b.version - a.version);
+  return [toFileVersion(file), ...history];
+}
+
+/**
+ * 获取文件上传新版本时使用的版本号
+ * @param file 文件信息
+ */
+export function getNextVersion(file: FileInfo): number {
+  return Math.max(...getAllVersions(file).map(version => version.version)) + 1;
+}
+
+/**
+ * 获取文件所有版本在存储服务上的公共ID（用于彻底删除）
+ * @param file 文件信息
+ */
+export function getVersionPublicIds(file: FileInfo): string[] {
+  const publicIds = getAllVersions(file).map(version => version.publicId).filter(Boolean);
+  return Array.from(new Set(publicIds));
+}
+
+/**
+ * 将同一文件ID的多条记录合并为带历史版本的文件
+ * 从云端资源重建文件信息时，同一文件的每个版本都是一个独立的资源；
+ * 每条记录都带有上传时记录的版本号时按版本号排列（版本号最大的作为当前版本），
+ * 否则按上传时间排列并依次编号
+ * @param files 文件记录
+ * @returns 合并后的文件列表
+ */
+export function mergeVersionRecords(files: FileInfo[]): FileInfo[] {
+  const groups = new Map<string, FileInfo[]>();
+  files.forEach(file => groups.set(file.id, [...(groups.get(file.id) || []), file]));
+
+  return Array.from(groups.values()).map(group => {
+    if (group.length === 1) return group[0];
+
+    const numbered = group.every(file => file.version);
+    const [latest, ...older] = [...group].sort((a, b) =>
+      numbered ? b.version! - a.version! : b.uploadTime.localeCompare(a.uploadTime)
+    );
+    return {
+      ...latest,
+      tags: dedupeTags(group.flatMap(file => file.tags || [])),
+      version: numbered ? latest.version : group.length,
+      versions: older.map((file, index) => ({
+        ...toFileVersion(file),
+        version: numbered ? file.version! : group.length - 1 - index,
+      })),
+    };
+  });
+}
+
+/**
+ * 查找可作为新版本上传目标的同名文件（同一文件夹内、相对路径相同、未删除）
+ * @param files 已有文件
+ * @param fileName 上传的文件名
+ * @param folderId 上传到的文件夹
+ * @param relativePath 随文件夹上传时的相对路径
+ * @returns 最近上传的同名文件，不存在时返回undefined
+ */
+export function findVersionTarget(
+  files: FileInfo[],
+  fileName: string,
+  folderId: string | null,
+  relativePath?: string
+): FileInfo | undefined {
+  return files
+    .filter(file =>
+      !isTrashed(file) &&
+      file.fileName === fileName &&
+      (file.parentId || null) === folderId &&
+      file.relativePath === relativePath
+    )
+    .sort((a, b) => b.uploadTime.localeCompare(a.uploadTime))[0];
+}
+
+/**
+ * 保存上传结果：ID已存在时作为该文件的新版本，否则作为新文件保存
+ * 读取和写入在同一写入锁内完成，同时上传的多个版本不会互相覆盖历史
+ * @param fileInfo 上传完成的文件信息
+ * @returns 保存后的文件信息
+ */
+export async function saveFileVersion(fileInfo: FileInfo): Promise<FileInfo> {
+  const indexStore = await getFileIndexStore();
+  return indexStore.withWriteLock(async store => {
+    const existing = await store.get(fileInfo.id);
+
+    if (!existing) {
+      await store.putMany([fileInfo]);
+      return fileInfo;
+    }
+
+    const history = [toFileVersion(existing), ...(existing.versions || [])];
+
+    const updated: FileInfo = {
+      ...existing,
+      fileName: fileInfo.fileName,
+      uploadTime: fileInfo.uploadTime,
+      expiresAt: fileInfo.expiresAt,
+      expiryOption: fileInfo.expiryOption,
+      fileSize: fileInfo.fileSize,
+      fileType: fileInfo.fileType,
+      cloudinaryUrl: fileInfo.cloudinaryUrl,
+      publicId: fileInfo.publicId,
+      storageProvider: fileInfo.storageProvider,
+      contentHash: fileInfo.contentHash,
+      metadataStripped: fileInfo.metadataStripped,
+      encryptionKey: fileInfo.encryptionKey,
+      uploader: fileInfo.uploader,
+      tags: dedupeTags([...(existing.tags || []), ...(fileInfo.tags || [])]),
+      version: getNextVersion(existing),
+      versions: history,
+      deletedAt: undefined,
+      deleteReason: undefined,
+    };
+
+    await store.putMany([updated]);
+    return updated;
+  });
+}
+
+/**
+ * 将历史版本设为当前版本，原当前版本转入历史（在写入锁内完成读-改-写）
+ * @param fileId 文件ID
+ * @param version 要恢复的版本号
+ * @returns 更新后的文件信息
+ */
+export async function promoteFileVersion(fileId: string, version: number): Promise<FileInfo> {
+  const indexStore = await getFileIndexStore();
+  return indexStore.withWriteLock(async store => {
+    const file = await store.get(fileId);
+    if (!file) {
+      throw new Error('文件不存在');
+    }
+
+    const target = file.versions?.find(item => item.version === version);
+    if (!target) {
+      throw new Error(`版本 v${version} 不存在`);
+    }
+
+    const updated = await store.update(fileId, {
+      version: target.version,
+      uploadTime: target.uploadTime,
+      fileSize: target.fileSize,
+      fileType: target.fileType,
+      cloudinaryUrl: target.cloudinaryUrl,
+      publicId: target.publicId,
+      storageProvider: target.storageProvider,
+      contentHash: target.contentHash,
+      metadataStripped: target.metadataStripped,
+      encryptionKey: target.encryptionKey,
+      versions: [
+        toFileVersion(file),
+        ...(file.versions || []).filter(item => item.version !== version),
+      ],
+    });
+
+    if (!updated) {
+      throw new Error('文件不存在');
+    }
+    return updated;
+  });
+}
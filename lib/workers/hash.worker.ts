@@ -0,0 +1,31 @@
+import { HASH_CHUNK_SIZE, hashBlobInChunks } from '../sha256';
+
+/**
+ * 文件哈希Web Worker
+ * 在后台线程中计算文件的SHA-256，避免大文件阻塞页面；大文件按块读取，不会整个读入内存
+ */
+
+interface HashRequest {
+  id: number;                 // 请求ID
+  file: Blob;                 // 要计算的文件
+}
+
+addEventListener('message', async (event: MessageEvent<HashRequest>) => {
+  const { id, file } = event.data;
+
+  try {
+    if (file.size > HASH_CHUNK_SIZE) {
+      postMessage({ id, hash: await hashBlobInChunks(file) });
+      return;
+    }
+
+    const digest = await crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+    const hash = Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+    postMessage({ id, hash });
+  } catch (error) {
+    postMessage({ id, error: error instanceof Error ? error.message : '计算文件哈希失败' });
+  }
+});
+
@@ -0,0 +1,45 @@
+/**
+ * 图片压缩Web Worker
+ * 在后台线程中按EXIF方向解码图片，等比缩放到最长边上限后用OffscreenCanvas重新编码
+ */
+
+interface CompressRequest {
+  id: number;                 // 请求ID
+  file: Blob;                 // 原始图片
+  maxDimension: number;       // 最长边上限（像素）
+  quality: number;            // 输出质量（0-1）
+  format: string;             // 输出MIME类型
+}
+
+addEventListener('message', async (event: MessageEvent<CompressRequest>) => {
+  const { id, file, maxDimension, quality, format } = event.data;
+
+  try {
+    // 按EXIF方向解码，重新编码后的图片不再带方向标记
+    const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+    const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height));
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('无法创建画布');
+    }
+
+    // JPEG不支持透明，透明区域填充白色
+    if (format === 'image/jpeg') {
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, width, height);
+    }
+    context.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    const blob = await canvas.convertToBlob({ type: format, quality });
+    postMessage({ id, blob, width, height });
+  } catch (error) {
+    postMessage({ id, error: error instanceof Error ? error.message : '压缩图片失败' });
+  }
+});
+
+export {};
@@ -0,0 +1,9 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    // 与tsconfig.json的paths保持一致
+    alias: { '@': fileURLToPath(new URL('.', import.meta.url)) },
+  },
+});